@@ -1,5 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // psd.js reads files through Node's fs/require and @napi-rs/canvas is a native addon,
+  // so both stay out of the server bundle
+  serverExternalPackages: ['psd.js', '@napi-rs/canvas'],
   images: {
     domains: ['nbzepckbsvnylezyxidj.supabase.co'],
   },
@@ -0,0 +1,46 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import type { User } from '@supabase/supabase-js';
+import { LucideLogOut } from 'lucide-react';
+import type { Role } from '@/lib/roles';
+import type { MessageKey } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+
+const ADMIN_PAGES: { href: string; label: MessageKey }[] = [
+  { href: '/admin/posters', label: 'admin.nav.posters' },
+  { href: '/admin/import', label: 'admin.nav.import' },
+  { href: '/admin/drive', label: 'admin.nav.drive' },
+  { href: '/admin/categories', label: 'admin.nav.categories' },
+  { href: '/admin/occasions', label: 'admin.nav.occasions' },
+  { href: '/admin/fonts', label: 'admin.nav.fonts' },
+  { href: '/admin/analytics', label: 'admin.nav.analytics' },
+  { href: '/admin/storage', label: 'admin.nav.storage' },
+];
+
+export default function AdminBar({ user, role, onSignOut }: { user: User | null; role: Role; onSignOut: () => void }) {
+  const pathname = usePathname();
+  const { t } = useI18n();
+
+  return (
+    <div className="admin-bar">
+      <nav className="admin-nav">
+        {ADMIN_PAGES.map((page) => (
+          <Link key={page.href} href={page.href} className={pathname === page.href ? 'active' : ''}>
+            {t(page.label)}
+          </Link>
+        ))}
+      </nav>
+      <span>
+        {user?.email} <span className="role-badge">{role}</span>
+      </span>
+      <LocaleSwitcher className="locale-switcher" />
+      <button onClick={onSignOut} className="sign-out-button">
+        <LucideLogOut className="mr-2 h-4 w-4" />
+        {t('admin.signOut')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LucideLoader2, LucideRefreshCw } from 'lucide-react';
+import { adminFetch } from '@/lib/adminFetch';
+import type { AnalyticsReport, PosterStats } from '@/lib/analytics';
+import { useI18n } from '@/components/I18nProvider';
+import AdminBar from '../AdminBar';
+import { useAdminSession } from '../useAdminSession';
+import '../posters/posters.css';
+import './analytics.css';
+
+const PRESETS = [7, 30, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+const daysAgo = (days: number) => toDay(new Date(Date.now() - days * DAY_MS));
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(1)}%`);
+
+function PosterTable({ posters, emptyText }: { posters: PosterStats[]; emptyText: string }) {
+  const { t } = useI18n();
+  if (posters.length === 0) return <p className="no-posters">{emptyText}</p>;
+
+  return (
+    <table className="analytics-table">
+      <thead>
+        <tr>
+          <th>{t('common.poster')}</th>
+          <th>{t('common.category')}</th>
+          <th className="num">{t('admin.analytics.downloads')}</th>
+          <th className="num">{t('admin.analytics.customized')}</th>
+          <th className="num">{t('admin.analytics.editorOpens')}</th>
+          <th className="num">{t('admin.analytics.conversion')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {posters.map((poster) => (
+          <tr key={poster.posterId}>
+            <td>{poster.title}</td>
+            <td>{poster.category}</td>
+            <td className="num">{poster.downloads}</td>
+            <td className="num">{poster.customizedDownloads}</td>
+            <td className="num">{poster.editorOpens}</td>
+            <td className="num">{formatRate(poster.conversionRate)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function AdminAnalytics() {
+  const { user, role, signOut } = useAdminSession();
+  const { t } = useI18n();
+  const [range, setRange] = useState({ from: daysAgo(29), to: toDay(new Date()) });
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The range the report is for; the inputs above only apply once submitted
+  const [appliedRange, setAppliedRange] = useState(range);
+
+  useEffect(() => {
+    if (!role) return;
+
+    const fetchReport = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await adminFetch(`/api/analytics?from=${appliedRange.from}&to=${appliedRange.to}`);
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load analytics');
+        setReport(result);
+      } catch (error: any) {
+        setError(error.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [role, appliedRange]);
+
+  const applyPreset = (days: number) => {
+    const next = { from: daysAgo(days - 1), to: toDay(new Date()) };
+    setRange(next);
+    setAppliedRange(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // A new object, so Apply refetches even when the range is unchanged
+    setAppliedRange({ ...range });
+  };
+
+  if (!role) {
+    return (
+      <div className="loading">
+        <LucideLoader2 className="loading-spinner h-8 w-8" style={{ color: '#FFD700' }} />
+      </div>
+    );
+  }
+
+  const busiestDay = Math.max(1, ...(report?.daily ?? []).map((d) => Math.max(d.downloads, d.editorOpens)));
+
+  return (
+    <div className="container">
+      <div className="analytics">
+        <AdminBar user={user} role={role} onSignOut={signOut} />
+        <div className="form-section">
+          <h2>{t('admin.analytics.title')}</h2>
+          {error && <p className="error">{error}</p>}
+          <form onSubmit={handleSubmit} className="analytics-range">
+            <div className="form-group">
+              <label>{t('admin.analytics.from')}</label>
+              <input
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+              />
+            </div>
+            <div className="form-group">
+              <label>{t('admin.analytics.to')}</label>
+              <input
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+            <button type="submit" disabled={loading} className="submit-button">
+              <LucideRefreshCw className="mr-2 h-4 w-4" />
+              {loading ? t('common.loading') : t('admin.analytics.apply')}
+            </button>
+            <div className="analytics-presets">
+              {PRESETS.map((days) => (
+                <button key={days} type="button" onClick={() => applyPreset(days)} disabled={loading}>
+                  {t('admin.analytics.lastDays', { days })}
+                </button>
+              ))}
+            </div>
+          </form>
+        </div>
+
+        {report && (
+          <>
+            <div className="analytics-cards">
+              <div className="analytics-card">
+                <span>{t('admin.analytics.downloads')}</span>
+                <strong>{report.totals.downloads}</strong>
+              </div>
+              <div className="analytics-card">
+                <span>{t('admin.analytics.customizedDownloads')}</span>
+                <strong>{report.totals.customizedDownloads}</strong>
+              </div>
+              <div className="analytics-card">
+                <span>{t('admin.analytics.editorOpens')}</span>
+                <strong>{report.totals.editorOpens}</strong>
+              </div>
+              <div className="analytics-card">
+                <span>{t('admin.analytics.totalConversion')}</span>
+                <strong>{formatRate(report.totals.conversionRate)}</strong>
+              </div>
+            </div>
+
+            <div className="form-section">
+              <h2>{t('admin.analytics.perDay')}</h2>
+              <div className="analytics-legend">
+                <span className="legend-downloads">{t('admin.analytics.downloads')}</span>
+                <span className="legend-customized">{t('admin.analytics.customized')}</span>
+                <span className="legend-opens">{t('admin.analytics.editorOpens')}</span>
+              </div>
+              <div className="analytics-chart">
+                {report.daily.map((day) => (
+                  <div
+                    key={day.day}
+                    className="chart-day"
+                    title={t('admin.analytics.dayTooltip', {
+                      day: day.day,
+                      downloads: day.downloads,
+                      customized: day.customizedDownloads,
+                      opens: day.editorOpens,
+                    })}
+                  >
+                    <div className="chart-bar downloads" style={{ height: `${(day.downloads / busiestDay) * 100}%` }}>
+                      <div
+                        className="chart-bar customized"
+                        style={{ height: day.downloads ? `${(day.customizedDownloads / day.downloads) * 100}%` : 0 }}
+                      />
+                    </div>
+                    <div className="chart-bar opens" style={{ height: `${(day.editorOpens / busiestDay) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <div className="chart-axis">
+                <span>{report.from}</span>
+                <span>{report.to}</span>
+              </div>
+            </div>
+
+            <div className="form-section">
+              <h2>{t('admin.analytics.top')}</h2>
+              <PosterTable posters={report.topPosters} emptyText={t('admin.analytics.noDownloads')} />
+            </div>
+
+            <div className="form-section">
+              <h2>{t('admin.analytics.perCategory')}</h2>
+              <table className="analytics-table">
+                <thead>
+                  <tr>
+                    <th>{t('common.category')}</th>
+                    <th className="num">{t('admin.analytics.downloads')}</th>
+                    <th className="num">{t('admin.analytics.customized')}</th>
+                    <th className="num">{t('admin.analytics.editorOpens')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.categories.map((category) => (
+                    <tr key={category.category}>
+                      <td>{category.category}</td>
+                      <td className="num">{category.downloads}</td>
+                      <td className="num">{category.customizedDownloads}</td>
+                      <td className="num">{category.editorOpens}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="form-section">
+              <h2>{t('admin.analytics.rarelySaved')}</h2>
+              <p className="analytics-hint">{t('admin.analytics.rarelySavedHint')}</p>
+              <PosterTable posters={report.rarelySaved} emptyText={t('admin.analytics.noneRarelySaved')} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LucideLoader2, LucidePlus, LucideEdit, LucideTrash, LucideSave, LucideX } from 'lucide-react';
+import { adminFetch } from '@/lib/adminFetch';
+import { can } from '@/lib/roles';
+import { slugify, type Category, type CategoryInput } from '@/lib/categories';
+import type { TranslatableMessage } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+import AdminBar from '../AdminBar';
+import { useAdminSession } from '../useAdminSession';
+import '../posters/posters.css';
+import './categories.css';
+
+const EMPTY_CATEGORY: CategoryInput = { name: '', slug: '', sortOrder: 0, icon: '', isActive: true };
+
+function CategoryFields({
+  value,
+  onChange,
+}: {
+  value: CategoryInput;
+  onChange: (value: CategoryInput) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <>
+      <div className="form-group">
+        <label>{t('common.name')}</label>
+        <input
+          type="text"
+          value={value.name}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          placeholder={t('admin.categories.namePlaceholder')}
+        />
+      </div>
+      <div className="form-group">
+        <label>{t('common.slug')}</label>
+        <input
+          type="text"
+          value={value.slug}
+          onChange={(e) => onChange({ ...value, slug: e.target.value })}
+          placeholder={slugify(value.name) || 'anniversary'}
+        />
+      </div>
+      <div className="form-group">
+        <label>{t('common.iconEmoji')}</label>
+        <input
+          type="text"
+          value={value.icon ?? ''}
+          onChange={(e) => onChange({ ...value, icon: e.target.value })}
+          placeholder="💐"
+        />
+      </div>
+      <div className="form-group">
+        <label>{t('admin.categories.sortOrder')}</label>
+        <input
+          type="number"
+          step={1}
+          value={value.sortOrder}
+          onChange={(e) => onChange({ ...value, sortOrder: Math.round(Number(e.target.value)) })}
+        />
+      </div>
+      <div className="form-group">
+        <label>
+          <input
+            type="checkbox"
+            checked={value.isActive}
+            onChange={(e) => onChange({ ...value, isActive: e.target.checked })}
+          />
+          {t('admin.categories.active')}
+        </label>
+      </div>
+    </>
+  );
+}
+
+export default function AdminCategories() {
+  const { user, role, signOut } = useAdminSession();
+  const { t } = useI18n();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<TranslatableMessage | null>(null);
+  const [newCategory, setNewCategory] = useState<CategoryInput>(EMPTY_CATEGORY);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<Category | null>(null);
+
+  useEffect(() => {
+    if (!role) return;
+
+    const fetchCategories = async () => {
+      try {
+        const response = await adminFetch('/api/categories?include=inactive');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load categories');
+        setCategories(result.categories);
+      } catch (error: any) {
+        setLoadError({ key: 'admin.categories.error.fetch', params: { message: error.message } });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCategories();
+  }, [role]);
+
+  const sortCategories = (list: Category[]) =>
+    [...list].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await adminFetch('/api/categories', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newCategory),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to create category');
+
+      setCategories((prev) => sortCategories([...prev, result.category]));
+      setNewCategory(EMPTY_CATEGORY);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editing) return;
+    setError(null);
+
+    try {
+      const response = await adminFetch('/api/categories', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editing),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to update category');
+
+      setCategories((prev) => sortCategories(prev.map((c) => (c.id === result.category.id ? result.category : c))));
+      setEditing(null);
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(t('admin.categories.confirmDelete', { name: category.name }))) return;
+    setError(null);
+
+    try {
+      const response = await adminFetch('/api/categories', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: category.id }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to delete category');
+
+      setCategories((prev) => prev.filter((c) => c.id !== category.id));
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const shownError = error ?? (loadError && t(loadError.key, loadError.params));
+
+  if (!role || loading) {
+    return (
+      <div className="loading">
+        <LucideLoader2 className="loading-spinner h-8 w-8" style={{ color: '#FFD700' }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <div className={`content ${can(role, 'edit') ? '' : 'read-only'}`}>
+        <AdminBar user={user} role={role} onSignOut={signOut} />
+        {!can(role, 'edit') && shownError && <p className="error">{shownError}</p>}
+        {can(role, 'edit') && (
+          <div className="form-section">
+            <h2>{t('admin.categories.new')}</h2>
+            {shownError && <p className="error">{shownError}</p>}
+            <form onSubmit={handleCreate} className="form">
+              <CategoryFields value={newCategory} onChange={setNewCategory} />
+              <button type="submit" disabled={saving} className="submit-button">
+                <LucidePlus className="mr-2 h-4 w-4" />
+                {saving ? t('common.saving') : t('admin.categories.add')}
+              </button>
+            </form>
+          </div>
+        )}
+
+        <div className="posters-section">
+          <h2>{t('admin.categories.list')}</h2>
+          {categories.length === 0 ? (
+            <p className="no-posters">{t('admin.categories.none')}</p>
+          ) : (
+            <ul className="category-list">
+              {categories.map((category) =>
+                editing?.id === category.id ? (
+                  <li key={category.id} className="category-row editing">
+                    <CategoryFields value={editing} onChange={(value) => setEditing({ ...editing, ...value })} />
+                    <div className="poster-actions">
+                      <button onClick={handleUpdate} className="edit-button">
+                        <LucideSave className="mr-2 h-4 w-4" />
+                        {t('common.save')}
+                      </button>
+                      <button onClick={() => setEditing(null)} className="download-button">
+                        <LucideX className="mr-2 h-4 w-4" />
+                        {t('common.cancel')}
+                      </button>
+                    </div>
+                  </li>
+                ) : (
+                  <li key={category.id} className={`category-row ${category.isActive ? '' : 'inactive'}`}>
+                    <span className="category-row-icon">{category.icon}</span>
+                    <div className="category-row-info">
+                      <h3>{category.name}</h3>
+                      <p>
+                        /{category.slug} · {t('admin.categories.order', { number: category.sortOrder })}
+                        {!category.isActive && ` · ${t('common.inactive')}`}
+                      </p>
+                    </div>
+                    <div className="poster-actions">
+                      {can(role, 'edit') && (
+                        <button onClick={() => setEditing(category)} className="edit-button">
+                          <LucideEdit className="mr-2 h-4 w-4" />
+                          {t('common.edit')}
+                        </button>
+                      )}
+                      {can(role, 'delete') && (
+                        <button onClick={() => handleDelete(category)} className="delete-button">
+                          <LucideTrash className="mr-2 h-4 w-4" />
+                          {t('common.delete')}
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
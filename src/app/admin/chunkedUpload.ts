@@ -0,0 +1,101 @@
+import { adminFetch, getAccessToken } from '@/lib/adminFetch';
+import type { UploadStatus } from '@/lib/uploads';
+
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_MS = 1000;
+// Remembers unfinished uploads per file, so picking the same file again after a reload resumes
+const RESUME_PREFIX = 'upload:';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+class ChunkError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+  }
+}
+
+const resumeKey = (file: File) => `${RESUME_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// XHR rather than fetch, which can't report upload progress
+const sendChunk = (url: string, body: Blob, token: string | null, onProgress: (loaded: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) return resolve();
+      let message = `Chunk upload failed with HTTP ${xhr.status}`;
+      try {
+        message = JSON.parse(xhr.responseText).error || message;
+      } catch {}
+      // Server and rate-limit errors may pass; a rejected chunk won't be accepted on retry
+      reject(new ChunkError(message, xhr.status >= 500 || xhr.status === 408 || xhr.status === 429));
+    };
+    xhr.onerror = () => reject(new ChunkError('Network error', true));
+    xhr.send(body);
+  });
+
+const startOrResume = async (file: File): Promise<UploadStatus> => {
+  const savedId = localStorage.getItem(resumeKey(file));
+  if (savedId) {
+    const response = await adminFetch(`/api/uploads/${savedId}`);
+    if (response.ok) return response.json();
+    // Expired or purged: start over
+    localStorage.removeItem(resumeKey(file));
+  }
+
+  const response = await adminFetch('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fileName: file.name, contentType: file.type, size: file.size }),
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Failed to start upload');
+  localStorage.setItem(resumeKey(file), result.uploadId);
+  return result;
+};
+
+// Uploads a file in chunks, skipping any the server already has from an interrupted
+// attempt, and retrying failed chunks with backoff. Resolves with the uploadId to pass
+// to /api/upload; call forgetUpload once the poster is saved.
+export async function uploadInChunks(file: File, onProgress: (progress: UploadProgress) => void): Promise<string> {
+  const status = await startOrResume(file);
+  const received = new Set(status.received);
+  const chunkBytes = (index: number) => Math.min(status.chunkSize, file.size - index * status.chunkSize);
+
+  let done = status.received.reduce((sum, index) => sum + chunkBytes(index), 0);
+  onProgress({ loaded: done, total: file.size });
+
+  for (let index = 0; index < status.chunkCount; index++) {
+    if (received.has(index)) continue;
+
+    const start = index * status.chunkSize;
+    const chunk = file.slice(start, start + chunkBytes(index));
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // Fetched per chunk, since a large upload can outlive the access token
+        const token = await getAccessToken();
+        await sendChunk(`/api/uploads/${status.uploadId}/chunks/${index}`, chunk, token, (loaded) =>
+          onProgress({ loaded: done + loaded, total: file.size })
+        );
+        break;
+      } catch (error) {
+        if (attempt >= MAX_ATTEMPTS || (error instanceof ChunkError && !error.retryable)) throw error;
+        onProgress({ loaded: done, total: file.size });
+        await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+      }
+    }
+    done += chunk.size;
+    onProgress({ loaded: done, total: file.size });
+  }
+
+  return status.uploadId;
+}
+
+export const forgetUpload = (file: File) => localStorage.removeItem(resumeKey(file));
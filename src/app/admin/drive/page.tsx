@@ -0,0 +1,261 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LucideLoader2, LucideRefreshCw, LucideDownloadCloud } from 'lucide-react';
+import { adminFetch } from '@/lib/adminFetch';
+import { can } from '@/lib/roles';
+import type { Category } from '@/lib/categories';
+import type { ImportResult } from '@/lib/bulkImport';
+import type { DriveListing } from '@/lib/drive';
+import type { TranslatableMessage } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+import AdminBar from '../AdminBar';
+import { useAdminSession } from '../useAdminSession';
+import '../posters/posters.css';
+import '../import/import.css';
+import './drive.css';
+
+// What the admin may change per file before importing
+interface Selection {
+  title: string;
+  category: string;
+  isEditable: boolean;
+}
+
+interface DriveImportReport {
+  results: ImportResult[];
+  imported: number;
+  skipped: number;
+  failed: number;
+}
+
+const formatSize = (size: number | null) => (size === null ? '' : `${(size / (1024 * 1024)).toFixed(1)} MB`);
+
+export default function AdminDrive() {
+  const { user, role, signOut } = useAdminSession();
+  const { t } = useI18n();
+  const [files, setFiles] = useState<DriveListing[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [selected, setSelected] = useState<Record<string, Selection>>({});
+  const [showImported, setShowImported] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<TranslatableMessage | null>(null);
+  const [report, setReport] = useState<DriveImportReport | null>(null);
+
+  const fetchFiles = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await adminFetch('/api/drive');
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to list Drive files');
+      setFiles(result.files);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!role || !can(role, 'edit')) return;
+
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch('/api/categories');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load categories');
+        setCategories(result.categories);
+      } catch (error: any) {
+        setLoadError({ key: 'admin.drive.error.fetchCategories', params: { message: error.message } });
+      }
+    };
+
+    fetchFiles();
+    fetchCategories();
+  }, [role]);
+
+  const toggle = (file: DriveListing) => {
+    setSelected((prev) => {
+      const { [file.id]: current, ...rest } = prev;
+      if (current) return rest;
+      return { ...rest, [file.id]: { title: file.title, category: file.category ?? '', isEditable: false } };
+    });
+  };
+
+  const updateSelection = (id: string, changes: Partial<Selection>) => {
+    setSelected((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const handleImport = async () => {
+    const chosen = files.filter((file) => selected[file.id]);
+    const missing = chosen.find((file) => !selected[file.id].title.trim() || !selected[file.id].category);
+    if (missing) {
+      setError(t('admin.drive.missingDetails', { name: missing.name }));
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+    setReport(null);
+    try {
+      const response = await adminFetch('/api/drive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ files: chosen.map((file) => ({ id: file.id, ...selected[file.id] })) }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to import from Drive');
+
+      setReport(result);
+      setSelected({});
+      await fetchFiles();
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!role) {
+    return (
+      <div className="loading">
+        <LucideLoader2 className="loading-spinner h-8 w-8" style={{ color: '#FFD700' }} />
+      </div>
+    );
+  }
+
+  const visible = files.filter((file) => showImported || !file.imported);
+  const selectedCount = Object.keys(selected).length;
+  const shownError = error ?? (loadError && t(loadError.key, loadError.params));
+
+  return (
+    <div className="container">
+      <div className="bulk-import">
+        <AdminBar user={user} role={role} onSignOut={signOut} />
+        <div className="form-section">
+          <h2>{t('admin.drive.title')}</h2>
+          {!can(role, 'edit') ? (
+            <p className="no-posters">{t('admin.import.needsEditor')}</p>
+          ) : (
+            <>
+              <p className="import-hint">{t('admin.drive.hint')}</p>
+              {shownError && <p className="error">{shownError}</p>}
+              <div className="drive-toolbar">
+                <button onClick={fetchFiles} disabled={loading || importing} className="download-button">
+                  <LucideRefreshCw className="mr-2 h-4 w-4" />
+                  {t('admin.drive.refresh')}
+                </button>
+                <label>
+                  <input type="checkbox" checked={showImported} onChange={(e) => setShowImported(e.target.checked)} />
+                  {t('admin.drive.showImported')}
+                </label>
+                <button onClick={handleImport} disabled={importing || selectedCount === 0} className="submit-button">
+                  <LucideDownloadCloud className="mr-2 h-4 w-4" />
+                  {importing ? t('admin.import.importing') : t('admin.drive.importSelected', { count: selectedCount })}
+                </button>
+              </div>
+
+              {loading ? (
+                <LucideLoader2 className="loading-spinner h-8 w-8" style={{ color: '#FFD700' }} />
+              ) : visible.length === 0 ? (
+                <p className="no-posters">{t('admin.drive.none')}</p>
+              ) : (
+                <ul className="drive-files">
+                  {visible.map((file) => {
+                    const selection = selected[file.id];
+                    return (
+                      <li key={file.id} className={`drive-file ${file.imported ? 'imported' : ''}`}>
+                        <label className="drive-file-name">
+                          <input
+                            type="checkbox"
+                            checked={!!selection}
+                            disabled={file.imported || importing}
+                            onChange={() => toggle(file)}
+                          />
+                          <span>
+                            {[...file.folders, file.name].join(' / ')}
+                            <small>
+                              {formatSize(file.size)}
+                              {file.imported && ` · ${t('admin.drive.alreadyImported')}`}
+                            </small>
+                          </span>
+                        </label>
+                        {selection && (
+                          <div className="drive-file-fields">
+                            <input
+                              type="text"
+                              value={selection.title}
+                              onChange={(e) => updateSelection(file.id, { title: e.target.value })}
+                              placeholder={t('common.title')}
+                            />
+                            <select
+                              value={selection.category}
+                              onChange={(e) => updateSelection(file.id, { category: e.target.value })}
+                            >
+                              <option value="">{t('admin.drive.chooseCategory')}</option>
+                              {categories.map((category) => (
+                                <option key={category.id} value={category.name}>
+                                  {category.name}
+                                </option>
+                              ))}
+                            </select>
+                            <label>
+                              <input
+                                type="checkbox"
+                                checked={selection.isEditable}
+                                onChange={(e) => updateSelection(file.id, { isEditable: e.target.checked })}
+                              />
+                              {t('common.editable')}
+                            </label>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+
+        {report && (
+          <div className="form-section">
+            <h2>{t('admin.import.results')}</h2>
+            <p className="import-summary">
+              {t('admin.drive.summary', { imported: report.imported, skipped: report.skipped, failed: report.failed })}
+            </p>
+            <table className="import-results">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>{t('common.title')}</th>
+                  <th>{t('admin.import.result')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.results.map((result) => (
+                  <tr key={result.row} className={result.ok ? 'ok' : result.skipped ? '' : 'failed'}>
+                    <td>{result.row}</td>
+                    <td>{result.title || '—'}</td>
+                    <td>
+                      {result.ok ? (
+                        <a href={result.downloadLink} target="_blank" rel="noreferrer">
+                          {t('admin.import.imported')}
+                        </a>
+                      ) : (
+                        result.error
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LucideLoader2, LucideUpload, LucideEdit, LucideTrash, LucideSave, LucideX } from 'lucide-react';
+import { adminFetch } from '@/lib/adminFetch';
+import { can } from '@/lib/roles';
+import { FONT_SCRIPTS, MAX_FONT_SIZE, type Font, type FontScript } from '@/lib/fonts';
+import { loadFontFace } from '@/lib/fontFaces';
+import type { TranslatableMessage } from '@/lib/i18n';
+import { formatMegabytes } from '@/lib/uploads';
+import { useI18n } from '@/components/I18nProvider';
+import AdminBar from '../AdminBar';
+import { useAdminSession } from '../useAdminSession';
+import '../posters/posters.css';
+import '../categories/categories.css';
+import './fonts.css';
+
+// Preview text for each script, so admins can see the font covers what it claims to
+const SAMPLES: Record<FontScript, string> = {
+  latin: 'Happy Diwali',
+  devanagari: 'शुभ दीपावली',
+  tamil: 'தீபாவளி நல்வாழ்த்துக்கள்',
+  telugu: 'దీపావళి శుభాకాంక్షలు',
+  kannada: 'ದೀಪಾವಳಿಯ ಶುಭಾಶಯಗಳು',
+  malayalam: 'ദീപാവലി ആശംസകൾ',
+  bengali: 'শুভ দীপাবলি',
+  gujarati: 'શુભ દિવાળી',
+  gurmukhi: 'ਦੀਵਾਲੀ ਮੁਬਾਰਕ',
+};
+
+const SCRIPT_OPTIONS = Object.keys(FONT_SCRIPTS) as FontScript[];
+
+function ScriptFields({ value, onChange }: { value: FontScript[]; onChange: (value: FontScript[]) => void }) {
+  const { t } = useI18n();
+
+  return (
+    <div className="form-group">
+      <label>{t('admin.fonts.scripts')}</label>
+      <div className="script-options">
+        {SCRIPT_OPTIONS.map((script) => (
+          <label key={script}>
+            <input
+              type="checkbox"
+              checked={value.includes(script)}
+              onChange={(e) =>
+                onChange(e.target.checked ? [...value, script] : value.filter((item) => item !== script))
+              }
+            />
+            {t(`admin.fonts.script.${script}`)}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminFonts() {
+  const { user, role, signOut } = useAdminSession();
+  const { t } = useI18n();
+  const [fonts, setFonts] = useState<Font[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<TranslatableMessage | null>(null);
+  const [name, setName] = useState('');
+  const [scripts, setScripts] = useState<FontScript[]>(['latin']);
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<Font | null>(null);
+
+  useEffect(() => {
+    if (!role) return;
+
+    const fetchFonts = async () => {
+      try {
+        const response = await adminFetch('/api/fonts?include=inactive');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load fonts');
+        setFonts(result.fonts);
+      } catch (error: any) {
+        setLoadError({ key: 'admin.fonts.error.fetch', params: { message: error.message } });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFonts();
+  }, [role]);
+
+  // Loads every listed font for its preview
+  useEffect(() => {
+    fonts.forEach((font) =>
+      loadFontFace(font).catch((error) => console.error(`Failed to load font ${font.name}:`, error))
+    );
+  }, [fonts]);
+
+  const sortFonts = (list: Font[]) => [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      setError(t('admin.fonts.chooseFile'));
+      return;
+    }
+    setSaving(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('name', name);
+      formData.append('scripts', scripts.join(','));
+
+      const response = await adminFetch('/api/fonts', { method: 'POST', body: formData });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to upload font');
+
+      setFonts((prev) => sortFonts([...prev, result.font]));
+      setName('');
+      setScripts(['latin']);
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editing) return;
+    setError(null);
+
+    try {
+      const response = await adminFetch('/api/fonts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: editing.id, scripts: editing.scripts, isActive: editing.isActive }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to update font');
+
+      setFonts((prev) => prev.map((font) => (font.id === result.font.id ? result.font : font)));
+      setEditing(null);
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const handleDelete = async (font: Font) => {
+    if (!confirm(t('admin.fonts.confirmDelete', { name: font.name }))) return;
+    setError(null);
+
+    try {
+      const response = await adminFetch('/api/fonts', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: font.id }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to delete font');
+
+      setFonts((prev) => prev.filter((item) => item.id !== font.id));
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const shownError = error ?? (loadError && t(loadError.key, loadError.params));
+
+  if (!role || loading) {
+    return (
+      <div className="loading">
+        <LucideLoader2 className="loading-spinner h-8 w-8" style={{ color: '#FFD700' }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <div className={`content ${can(role, 'edit') ? '' : 'read-only'}`}>
+        <AdminBar user={user} role={role} onSignOut={signOut} />
+        {!can(role, 'edit') && shownError && <p className="error">{shownError}</p>}
+        {can(role, 'edit') && (
+          <div className="form-section">
+            <h2>{t('admin.fonts.upload')}</h2>
+            {shownError && <p className="error">{shownError}</p>}
+            <form onSubmit={handleUpload} className="form">
+              <div className="form-group">
+                <label>{t('common.name')}</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={t('admin.fonts.namePlaceholder')}
+                  required
+                />
+              </div>
+              <ScriptFields value={scripts} onChange={setScripts} />
+              <div className="form-group">
+                <label>{t('admin.fonts.file', { size: formatMegabytes(MAX_FONT_SIZE) })}</label>
+                <input
+                  key={fileInputKey}
+                  type="file"
+                  accept=".ttf,.otf,.woff2,font/ttf,font/otf,font/woff2"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  required
+                />
+              </div>
+              <button type="submit" disabled={saving} className="submit-button">
+                <LucideUpload className="mr-2 h-4 w-4" />
+                {saving ? t('admin.fonts.uploading') : t('admin.fonts.submit')}
+              </button>
+            </form>
+          </div>
+        )}
+
+        <div className="posters-section">
+          <h2>{t('admin.fonts.library')}</h2>
+          {fonts.length === 0 ? (
+            <p className="no-posters">{t('admin.fonts.none')}</p>
+          ) : (
+            <ul className="category-list">
+              {fonts.map((font) =>
+                editing?.id === font.id ? (
+                  <li key={font.id} className="category-row editing">
+                    <h3>{font.name}</h3>
+                    <ScriptFields value={editing.scripts} onChange={(value) => setEditing({ ...editing, scripts: value })} />
+                    <div className="form-group">
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={editing.isActive}
+                          onChange={(e) => setEditing({ ...editing, isActive: e.target.checked })}
+                        />
+                        {t('admin.fonts.active')}
+                      </label>
+                    </div>
+                    <div className="poster-actions">
+                      <button onClick={handleUpdate} className="edit-button">
+                        <LucideSave className="mr-2 h-4 w-4" />
+                        {t('common.save')}
+                      </button>
+                      <button onClick={() => setEditing(null)} className="download-button">
+                        <LucideX className="mr-2 h-4 w-4" />
+                        {t('common.cancel')}
+                      </button>
+                    </div>
+                  </li>
+                ) : (
+                  <li key={font.id} className={`category-row ${font.isActive ? '' : 'inactive'}`}>
+                    <div className="category-row-info">
+                      <h3>{font.name}</h3>
+                      <p className="font-sample" style={{ fontFamily: `"${font.name}", sans-serif` }}>
+                        {font.scripts.map((script) => SAMPLES[script]).join(' · ')}
+                      </p>
+                      <p>
+                        {font.scripts.map((script) => t(`admin.fonts.script.${script}`)).join(', ')} · {font.format}
+                        {!font.isActive && ` · ${t('common.inactive')}`}
+                      </p>
+                    </div>
+                    <div className="poster-actions">
+                      {can(role, 'edit') && (
+                        <button onClick={() => setEditing(font)} className="edit-button">
+                          <LucideEdit className="mr-2 h-4 w-4" />
+                          {t('common.edit')}
+                        </button>
+                      )}
+                      {can(role, 'delete') && (
+                        <button onClick={() => handleDelete(font)} className="delete-button">
+                          <LucideTrash className="mr-2 h-4 w-4" />
+                          {t('common.delete')}
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { LucideLoader2, LucideUpload } from 'lucide-react';
+import { adminFetch } from '@/lib/adminFetch';
+import { can } from '@/lib/roles';
+import { MANIFEST_COLUMNS, MAX_MANIFEST_ROWS, type ImportResult } from '@/lib/bulkImport';
+import { MAX_FILE_SIZE, formatMegabytes } from '@/lib/uploads';
+import { useI18n } from '@/components/I18nProvider';
+import AdminBar from '../AdminBar';
+import { forgetUpload, uploadInChunks } from '../chunkedUpload';
+import { useAdminSession } from '../useAdminSession';
+import '../posters/posters.css';
+import './import.css';
+
+interface ImportReport {
+  results: ImportResult[];
+  imported: number;
+  failed: number;
+}
+
+export default function AdminImport() {
+  const { user, role, signOut } = useAdminSession();
+  const { t } = useI18n();
+  const [archive, setArchive] = useState<File | null>(null);
+  const [manifest, setManifest] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  // Set while the archive is being sent, before the server starts importing
+  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!archive) {
+      setError(t('admin.import.chooseArchive'));
+      return;
+    }
+    if (archive.size > MAX_FILE_SIZE) {
+      setError(t('admin.import.archiveTooLarge', { size: formatMegabytes(MAX_FILE_SIZE) }));
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+    setReport(null);
+
+    try {
+      // Sent in chunks like poster files, as a single request body is capped well below archive sizes
+      setUploadPercent(0);
+      const uploadId = await uploadInChunks(archive, (progress) =>
+        setUploadPercent(Math.floor((progress.loaded / progress.total) * 100))
+      );
+      setUploadPercent(null);
+
+      const formData = new FormData();
+      formData.append('uploadId', uploadId);
+      if (manifest) formData.append('manifest', manifest);
+
+      const response = await adminFetch('/api/upload/bulk', { method: 'POST', body: formData });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to import posters');
+      forgetUpload(archive);
+      setReport(result);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setImporting(false);
+      setUploadPercent(null);
+    }
+  };
+
+  if (!role) {
+    return (
+      <div className="loading">
+        <LucideLoader2 className="loading-spinner h-8 w-8" style={{ color: '#FFD700' }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <div className="bulk-import">
+        <AdminBar user={user} role={role} onSignOut={signOut} />
+        <div className="form-section">
+          <h2>{t('admin.import.title')}</h2>
+          {!can(role, 'edit') ? (
+            <p className="no-posters">{t('admin.import.needsEditor')}</p>
+          ) : (
+            <>
+              <p className="import-hint">
+                {t('admin.import.hint', { max: MAX_MANIFEST_ROWS })} {t('admin.import.columns')}{' '}
+                <code>{MANIFEST_COLUMNS.join(', ')}</code>. {t('admin.import.columnsHint')}
+              </p>
+              {error && <p className="error">{error}</p>}
+              <form onSubmit={handleImport} className="form">
+                <div className="form-group">
+                  <label>{t('admin.import.archive')}</label>
+                  <input type="file" accept=".zip,application/zip" onChange={(e) => setArchive(e.target.files?.[0] ?? null)} />
+                </div>
+                <div className="form-group">
+                  <label>{t('admin.import.manifest')}</label>
+                  <input type="file" accept=".csv,.json" onChange={(e) => setManifest(e.target.files?.[0] ?? null)} />
+                </div>
+                <button type="submit" disabled={importing} className="submit-button">
+                  <LucideUpload className="mr-2 h-4 w-4" />
+                  {uploadPercent !== null
+                    ? t('admin.import.uploading', { percent: uploadPercent })
+                    : importing
+                      ? t('admin.import.importing')
+                      : t('admin.import.submit')}
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+
+        {report && (
+          <div className="form-section">
+            <h2>{t('admin.import.results')}</h2>
+            <p className="import-summary">
+              {t('admin.import.summary', { imported: report.imported, failed: report.failed })}
+            </p>
+            <table className="import-results">
+              <thead>
+                <tr>
+                  <th>{t('admin.import.row')}</th>
+                  <th>{t('common.title')}</th>
+                  <th>{t('admin.import.result')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.results.map((result) => (
+                  <tr key={result.row} className={result.ok ? 'ok' : 'failed'}>
+                    <td>{result.row}</td>
+                    <td>{result.title || '—'}</td>
+                    <td>
+                      {result.ok ? (
+                        <a href={result.downloadLink} target="_blank" rel="noreferrer">
+                          {t('admin.import.imported')}
+                        </a>
+                      ) : (
+                        result.error
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import { getRole } from '@/lib/roles';
+import { LucideLogIn, LucideLoader2 } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import '../posters/posters.css';
+
+// Where to go after signing in; only admin pages, so the link can't bounce users off-site
+const getNextPath = () => {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/admin/') ? next : '/admin/posters';
+};
+
+export default function AdminLogin() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session && getRole(session.user)) router.replace(getNextPath());
+    });
+  }, [router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    setError(null);
+
+    try {
+      const { data, error: signInError } = await supabase.auth.signInWithPassword({ email, password });
+      if (signInError) {
+        setError(signInError.message);
+        return;
+      }
+
+      if (!getRole(data.user)) {
+        await supabase.auth.signOut();
+        setError(t('admin.login.noAccess'));
+        return;
+      }
+
+      router.replace(getNextPath());
+    } catch (error: any) {
+      setError(t('admin.login.failed', { message: error.message }));
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="container">
+      <div className="form-section login-section">
+        <h2>{t('admin.login.title')}</h2>
+        {error && <p className="error">{error}</p>}
+        <form onSubmit={handleSubmit} className="form">
+          <div className="form-group">
+            <label>{t('admin.login.email')}</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label>{t('admin.login.password')}</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          <button type="submit" disabled={signingIn} className="submit-button">
+            {signingIn ? <LucideLoader2 className="mr-2 h-4 w-4 loading-spinner" /> : <LucideLogIn className="mr-2 h-4 w-4" />}
+            {signingIn ? t('admin.login.signingIn') : t('admin.login.signIn')}
+          </button>
+        </form>
+        <LocaleSwitcher className="locale-switcher" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LucideLoader2, LucidePlus, LucideEdit, LucideTrash, LucideSave, LucideX } from 'lucide-react';
+import { adminFetch } from '@/lib/adminFetch';
+import { can } from '@/lib/roles';
+import { slugify } from '@/lib/categories';
+import { localDate, nextOccurrence, type Occasion, type OccasionInput } from '@/lib/occasions';
+import type { Locale, TranslatableMessage } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+import AdminBar from '../AdminBar';
+import { useAdminSession } from '../useAdminSession';
+import '../posters/posters.css';
+import '../categories/categories.css';
+
+const EMPTY_OCCASION: OccasionInput = {
+  name: '',
+  slug: '',
+  icon: '',
+  startsOn: '',
+  endsOn: null,
+  recursYearly: false,
+  isActive: true,
+};
+
+function OccasionFields({
+  value,
+  onChange,
+}: {
+  value: OccasionInput;
+  onChange: (value: OccasionInput) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <>
+      <div className="form-group">
+        <label>{t('common.name')}</label>
+        <input
+          type="text"
+          value={value.name}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          placeholder={t('admin.occasions.namePlaceholder')}
+        />
+      </div>
+      <div className="form-group">
+        <label>{t('common.slug')}</label>
+        <input
+          type="text"
+          value={value.slug}
+          onChange={(e) => onChange({ ...value, slug: e.target.value })}
+          placeholder={slugify(value.name) || 'raksha-bandhan'}
+        />
+      </div>
+      <div className="form-group">
+        <label>{t('common.iconEmoji')}</label>
+        <input
+          type="text"
+          value={value.icon ?? ''}
+          onChange={(e) => onChange({ ...value, icon: e.target.value })}
+          placeholder="🪢"
+        />
+      </div>
+      <div className="form-group">
+        <label>{t('admin.occasions.date')}</label>
+        <input type="date" value={value.startsOn} onChange={(e) => onChange({ ...value, startsOn: e.target.value })} />
+      </div>
+      <div className="form-group">
+        <label>{t('admin.occasions.endsOn')}</label>
+        <input
+          type="date"
+          value={value.endsOn ?? ''}
+          min={value.startsOn}
+          onChange={(e) => onChange({ ...value, endsOn: e.target.value || null })}
+        />
+      </div>
+      <div className="form-group">
+        <label>
+          <input
+            type="checkbox"
+            checked={value.recursYearly}
+            onChange={(e) => onChange({ ...value, recursYearly: e.target.checked })}
+          />
+          {t('admin.occasions.recursYearly')}
+        </label>
+      </div>
+      <div className="form-group">
+        <label>
+          <input
+            type="checkbox"
+            checked={value.isActive}
+            onChange={(e) => onChange({ ...value, isActive: e.target.checked })}
+          />
+          {t('admin.occasions.active')}
+        </label>
+      </div>
+    </>
+  );
+}
+
+const formatDay = (date: string, locale: Locale) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export default function AdminOccasions() {
+  const { user, role, signOut } = useAdminSession();
+  const { locale, t } = useI18n();
+  const [occasions, setOccasions] = useState<Occasion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<TranslatableMessage | null>(null);
+  const [newOccasion, setNewOccasion] = useState<OccasionInput>(EMPTY_OCCASION);
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<Occasion | null>(null);
+
+  useEffect(() => {
+    if (!role) return;
+
+    const fetchOccasions = async () => {
+      try {
+        const response = await adminFetch('/api/occasions?include=inactive');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load occasions');
+        setOccasions(result.occasions);
+      } catch (error: any) {
+        setLoadError({ key: 'admin.occasions.error.fetch', params: { message: error.message } });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOccasions();
+  }, [role]);
+
+  const sortOccasions = (list: Occasion[]) =>
+    [...list].sort((a, b) => a.startsOn.localeCompare(b.startsOn) || a.name.localeCompare(b.name));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await adminFetch('/api/occasions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newOccasion),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to create occasion');
+
+      setOccasions((prev) => sortOccasions([...prev, result.occasion]));
+      setNewOccasion(EMPTY_OCCASION);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editing) return;
+    setError(null);
+
+    try {
+      const response = await adminFetch('/api/occasions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editing),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to update occasion');
+
+      setOccasions((prev) => sortOccasions(prev.map((c) => (c.id === result.occasion.id ? result.occasion : c))));
+      setEditing(null);
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const handleDelete = async (occasion: Occasion) => {
+    if (!confirm(t('admin.occasions.confirmDelete', { name: occasion.name }))) return;
+    setError(null);
+
+    try {
+      const response = await adminFetch('/api/occasions', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: occasion.id }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to delete occasion');
+
+      setOccasions((prev) => prev.filter((c) => c.id !== occasion.id));
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const today = localDate();
+  const shownError = error ?? (loadError && t(loadError.key, loadError.params));
+
+  if (!role || loading) {
+    return (
+      <div className="loading">
+        <LucideLoader2 className="loading-spinner h-8 w-8" style={{ color: '#FFD700' }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <div className={`content ${can(role, 'edit') ? '' : 'read-only'}`}>
+        <AdminBar user={user} role={role} onSignOut={signOut} />
+        {!can(role, 'edit') && shownError && <p className="error">{shownError}</p>}
+        {can(role, 'edit') && (
+          <div className="form-section">
+            <h2>{t('admin.occasions.new')}</h2>
+            {shownError && <p className="error">{shownError}</p>}
+            <form onSubmit={handleCreate} className="form">
+              <OccasionFields value={newOccasion} onChange={setNewOccasion} />
+              <button type="submit" disabled={saving} className="submit-button">
+                <LucidePlus className="mr-2 h-4 w-4" />
+                {saving ? t('common.saving') : t('admin.occasions.add')}
+              </button>
+            </form>
+          </div>
+        )}
+
+        <div className="posters-section">
+          <h2>{t('admin.occasions.list')}</h2>
+          {occasions.length === 0 ? (
+            <p className="no-posters">{t('admin.occasions.none')}</p>
+          ) : (
+            <ul className="category-list">
+              {occasions.map((occasion) =>
+                editing?.id === occasion.id ? (
+                  <li key={occasion.id} className="category-row editing">
+                    <OccasionFields value={editing} onChange={(value) => setEditing({ ...editing, ...value })} />
+                    <div className="poster-actions">
+                      <button onClick={handleUpdate} className="edit-button">
+                        <LucideSave className="mr-2 h-4 w-4" />
+                        {t('common.save')}
+                      </button>
+                      <button onClick={() => setEditing(null)} className="download-button">
+                        <LucideX className="mr-2 h-4 w-4" />
+                        {t('common.cancel')}
+                      </button>
+                    </div>
+                  </li>
+                ) : (
+                  <li key={occasion.id} className={`category-row ${occasion.isActive ? '' : 'inactive'}`}>
+                    <span className="category-row-icon">{occasion.icon}</span>
+                    <div className="category-row-info">
+                      <h3>{occasion.name}</h3>
+                      <p>
+                        {formatDay(occasion.startsOn, locale)}
+                        {occasion.endsOn &&
+                          occasion.endsOn !== occasion.startsOn &&
+                          ` – ${formatDay(occasion.endsOn, locale)}`}
+                        {occasion.recursYearly && ` · ${t('admin.occasions.everyYear')}`}
+                        {!nextOccurrence(occasion, today) && ` · ${t('admin.occasions.past')}`}
+                        {!occasion.isActive && ` · ${t('common.inactive')}`}
+                      </p>
+                    </div>
+                    <div className="poster-actions">
+                      {can(role, 'edit') && (
+                        <button onClick={() => setEditing(occasion)} className="edit-button">
+                          <LucideEdit className="mr-2 h-4 w-4" />
+                          {t('common.edit')}
+                        </button>
+                      )}
+                      {can(role, 'delete') && (
+                        <button onClick={() => handleDelete(occasion)} className="delete-button">
+                          <LucideTrash className="mr-2 h-4 w-4" />
+                          {t('common.delete')}
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
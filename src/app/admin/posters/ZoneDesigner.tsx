@@ -0,0 +1,377 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { LucideMousePointer, LucideType, LucideImage, LucideEye, LucideEyeOff, LucideTrash } from 'lucide-react';
+import { DEFAULT_FONT, type Font } from '@/lib/fonts';
+import { loadFontFamilies } from '@/lib/fontFaces';
+import { PHOTO_MASKS, type PhotoMask, type PosterTemplate, type TemplateBounds } from '@/lib/template';
+import FontOptions from '@/components/FontOptions';
+import { useI18n } from '@/components/I18nProvider';
+
+type Tool = 'select' | 'text' | 'photo';
+
+type Gesture =
+  | { kind: 'draw'; tool: 'text' | 'photo'; originX: number; originY: number }
+  | { kind: 'move'; id: string; offsetX: number; offsetY: number }
+  | { kind: 'resize'; id: string };
+
+interface Zone {
+  id: string;
+  bounds: TemplateBounds;
+}
+
+const STAGE_WIDTH = 560;
+// Smallest zone an admin can draw, in stage pixels, so a stray click doesn't create one
+const MIN_ZONE_PX = 12;
+
+const MASK_RADIUS: { [mask in PhotoMask]: string } = {
+  rectangle: '0',
+  rounded: '12px',
+  circle: '50%',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Whole template units; flooring keeps a zone dragged to the edge inside the template
+const snap = (bounds: TemplateBounds): TemplateBounds => ({
+  x: Math.floor(bounds.x),
+  y: Math.floor(bounds.y),
+  width: Math.max(1, Math.floor(bounds.width)),
+  height: Math.max(1, Math.floor(bounds.height)),
+});
+
+// Draws, moves and resizes a poster's text and photo zones over its artwork.
+// All bounds are kept in template units; the stage is the template scaled to STAGE_WIDTH.
+export default function ZoneDesigner({
+  imageUrl,
+  template,
+  fonts,
+  onChange,
+}: {
+  imageUrl: string;
+  template: PosterTemplate;
+  // Library fonts offered for text zones, alongside the system fonts
+  fonts: Font[];
+  onChange: (template: PosterTemplate) => void;
+}) {
+  const { t } = useI18n();
+  const [tool, setTool] = useState<Tool>('select');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [drawing, setDrawing] = useState<TemplateBounds | null>(null);
+  const gesture = useRef<Gesture | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  // The preview shows zones in their own fonts
+  useEffect(() => {
+    loadFontFamilies(fonts, template.textSlots.map((slot) => slot.fontFamily));
+  }, [fonts, template.textSlots]);
+
+  const scale = STAGE_WIDTH / template.width;
+  const minZone = MIN_ZONE_PX / scale;
+
+  const zones: Zone[] = [
+    ...template.textSlots.map(({ id, bounds }) => ({ id, bounds })),
+    ...template.photoSlots.map(({ id, bounds }) => ({ id, bounds })),
+  ];
+  const selectedText = template.textSlots.find((slot) => slot.id === selectedId);
+  const selectedPhoto = template.photoSlots.find((slot) => slot.id === selectedId);
+
+  const toTemplatePoint = (e: React.PointerEvent) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / scale, 0, template.width),
+      y: clamp((e.clientY - rect.top) / scale, 0, template.height),
+    };
+  };
+
+  const nextId = (prefix: string) => {
+    let n = 1;
+    while (zones.some((zone) => zone.id === `${prefix}-${n}`)) n++;
+    return `${prefix}-${n}`;
+  };
+
+  const setBounds = (id: string, bounds: TemplateBounds) => {
+    onChange({
+      ...template,
+      textSlots: template.textSlots.map((slot) => (slot.id === id ? { ...slot, bounds: snap(bounds) } : slot)),
+      photoSlots: template.photoSlots.map((slot) => (slot.id === id ? { ...slot, bounds: snap(bounds) } : slot)),
+    });
+  };
+
+  const updateText = (id: string, changes: Partial<PosterTemplate['textSlots'][number]>) => {
+    onChange({
+      ...template,
+      textSlots: template.textSlots.map((slot) => (slot.id === id ? { ...slot, ...changes } : slot)),
+    });
+  };
+
+  const updatePhoto = (id: string, changes: Partial<PosterTemplate['photoSlots'][number]>) => {
+    onChange({
+      ...template,
+      photoSlots: template.photoSlots.map((slot) => (slot.id === id ? { ...slot, ...changes } : slot)),
+    });
+  };
+
+  const deleteZone = (id: string) => {
+    onChange({
+      ...template,
+      textSlots: template.textSlots.filter((slot) => slot.id !== id),
+      photoSlots: template.photoSlots.filter((slot) => slot.id !== id),
+    });
+    setSelectedId(null);
+  };
+
+  const handleStagePointerDown = (e: React.PointerEvent) => {
+    if (tool === 'select') {
+      setSelectedId(null);
+      return;
+    }
+    const point = toTemplatePoint(e);
+    stageRef.current!.setPointerCapture(e.pointerId);
+    gesture.current = { kind: 'draw', tool, originX: point.x, originY: point.y };
+    setDrawing({ x: point.x, y: point.y, width: 0, height: 0 });
+  };
+
+  const handleZonePointerDown = (e: React.PointerEvent, id: string) => {
+    const zone = zones.find((z) => z.id === id);
+    if (tool !== 'select' || !zone) return;
+    e.stopPropagation();
+    const point = toTemplatePoint(e);
+    stageRef.current!.setPointerCapture(e.pointerId);
+    setSelectedId(id);
+    gesture.current = { kind: 'move', id, offsetX: point.x - zone.bounds.x, offsetY: point.y - zone.bounds.y };
+  };
+
+  const handleResizePointerDown = (e: React.PointerEvent, id: string) => {
+    e.stopPropagation();
+    stageRef.current!.setPointerCapture(e.pointerId);
+    setSelectedId(id);
+    gesture.current = { kind: 'resize', id };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const current = gesture.current;
+    if (!current) return;
+    const point = toTemplatePoint(e);
+
+    if (current.kind === 'draw') {
+      setDrawing({
+        x: Math.min(point.x, current.originX),
+        y: Math.min(point.y, current.originY),
+        width: Math.abs(point.x - current.originX),
+        height: Math.abs(point.y - current.originY),
+      });
+      return;
+    }
+
+    const zone = zones.find((z) => z.id === current.id);
+    if (!zone) return;
+
+    if (current.kind === 'move') {
+      setBounds(zone.id, {
+        ...zone.bounds,
+        x: clamp(point.x - current.offsetX, 0, template.width - zone.bounds.width),
+        y: clamp(point.y - current.offsetY, 0, template.height - zone.bounds.height),
+      });
+    } else {
+      setBounds(zone.id, {
+        ...zone.bounds,
+        width: clamp(point.x - zone.bounds.x, minZone, template.width - zone.bounds.x),
+        height: clamp(point.y - zone.bounds.y, minZone, template.height - zone.bounds.y),
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const current = gesture.current;
+    gesture.current = null;
+    if (current?.kind !== 'draw' || !drawing) return;
+    setDrawing(null);
+    setTool('select');
+
+    if (drawing.width < minZone || drawing.height < minZone) return;
+    const bounds = snap(drawing);
+
+    if (current.tool === 'text') {
+      const id = nextId('text');
+      onChange({
+        ...template,
+        textSlots: [
+          ...template.textSlots,
+          {
+            id,
+            label: t('admin.zones.textLabel', { number: template.textSlots.length + 1 }),
+            defaultText: '',
+            fontFamily: DEFAULT_FONT,
+            // Start with a size that fills the box height, roughly one line of text
+            fontSize: Math.max(8, Math.round(bounds.height * 0.7)),
+            color: '#FFFFFF',
+            bounds,
+          },
+        ],
+      });
+      setSelectedId(id);
+    } else {
+      const id = nextId('photo');
+      onChange({
+        ...template,
+        photoSlots: [
+          ...template.photoSlots,
+          { id, label: t('admin.zones.photoLabel', { number: template.photoSlots.length + 1 }), mask: 'rectangle', bounds },
+        ],
+      });
+      setSelectedId(id);
+    }
+  };
+
+  const boxStyle = (bounds: TemplateBounds): React.CSSProperties => ({
+    left: bounds.x * scale,
+    top: bounds.y * scale,
+    width: bounds.width * scale,
+    height: bounds.height * scale,
+  });
+
+  return (
+    <div className="zone-designer">
+      <div className="designer-toolbar">
+        <button type="button" className={tool === 'select' ? 'active' : ''} onClick={() => setTool('select')}>
+          <LucideMousePointer className="h-4 w-4" /> {t('admin.zones.select')}
+        </button>
+        <button type="button" className={tool === 'text' ? 'active' : ''} onClick={() => setTool('text')}>
+          <LucideType className="h-4 w-4" /> {t('admin.zones.textZone')}
+        </button>
+        <button type="button" className={tool === 'photo' ? 'active' : ''} onClick={() => setTool('photo')}>
+          <LucideImage className="h-4 w-4" /> {t('admin.zones.photoZone')}
+        </button>
+        <button type="button" className={showPreview ? 'active' : ''} onClick={() => setShowPreview((prev) => !prev)}>
+          {showPreview ? <LucideEyeOff className="h-4 w-4" /> : <LucideEye className="h-4 w-4" />} {t('admin.zones.preview')}
+        </button>
+      </div>
+      <p className="designer-hint">
+        {tool === 'select' ? t('admin.zones.moveHint') : t('admin.zones.drawHint')}
+      </p>
+
+      <div
+        ref={stageRef}
+        className={`designer-stage ${tool !== 'select' ? 'drawing' : ''}`}
+        style={{ width: STAGE_WIDTH, height: template.height * scale }}
+        onPointerDown={handleStagePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img src={imageUrl} alt={t('admin.zones.artwork')} className="designer-artwork" draggable={false} />
+        {template.textSlots.map((slot) => (
+          <div
+            key={slot.id}
+            className={`designer-zone text ${selectedId === slot.id ? 'selected' : ''} ${showPreview ? 'preview' : ''}`}
+            style={boxStyle(slot.bounds)}
+            onPointerDown={(e) => handleZonePointerDown(e, slot.id)}
+          >
+            {showPreview ? (
+              <span
+                style={{
+                  fontFamily: slot.fontFamily,
+                  fontSize: slot.fontSize * scale,
+                  color: slot.color,
+                }}
+              >
+                {slot.defaultText || slot.label}
+              </span>
+            ) : (
+              <span className="zone-label">{slot.label}</span>
+            )}
+            {!showPreview && (
+              <div
+                className="zone-resize-handle"
+                onPointerDown={(e) => handleResizePointerDown(e, slot.id)}
+              />
+            )}
+          </div>
+        ))}
+        {template.photoSlots.map((slot) => (
+          <div
+            key={slot.id}
+            className={`designer-zone photo ${selectedId === slot.id ? 'selected' : ''} ${showPreview ? 'preview' : ''}`}
+            style={{ ...boxStyle(slot.bounds), borderRadius: MASK_RADIUS[slot.mask] }}
+            onPointerDown={(e) => handleZonePointerDown(e, slot.id)}
+          >
+            <span className="zone-label">{showPreview ? '📷' : slot.label}</span>
+            {!showPreview && (
+              <div
+                className="zone-resize-handle"
+                onPointerDown={(e) => handleResizePointerDown(e, slot.id)}
+              />
+            )}
+          </div>
+        ))}
+        {drawing && <div className="designer-zone drawing-box" style={boxStyle(drawing)} />}
+      </div>
+
+      {selectedText && (
+        <div className="designer-props">
+          <div className="form-group">
+            <label>{t('admin.zones.label')}</label>
+            <input type="text" value={selectedText.label} onChange={(e) => updateText(selectedText.id, { label: e.target.value })} />
+          </div>
+          <div className="form-group">
+            <label>{t('admin.zones.defaultText')}</label>
+            <input
+              type="text"
+              value={selectedText.defaultText}
+              onChange={(e) => updateText(selectedText.id, { defaultText: e.target.value })}
+              placeholder={t('admin.zones.defaultTextPlaceholder')}
+            />
+          </div>
+          <div className="form-group">
+            <label>{t('admin.zones.font')}</label>
+            <select value={selectedText.fontFamily} onChange={(e) => updateText(selectedText.id, { fontFamily: e.target.value })}>
+              <FontOptions value={selectedText.fontFamily} library={fonts} />
+            </select>
+          </div>
+          <div className="designer-row">
+            <div className="form-group">
+              <label>{t('admin.zones.size')}</label>
+              <input
+                type="number"
+                min={1}
+                value={selectedText.fontSize}
+                onChange={(e) => updateText(selectedText.id, { fontSize: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </div>
+            <div className="form-group">
+              <label>{t('admin.zones.color')}</label>
+              <input type="color" value={selectedText.color} onChange={(e) => updateText(selectedText.id, { color: e.target.value })} />
+            </div>
+          </div>
+          <button type="button" className="delete-button" onClick={() => deleteZone(selectedText.id)}>
+            <LucideTrash className="mr-2 h-4 w-4" />
+            {t('admin.zones.remove')}
+          </button>
+        </div>
+      )}
+
+      {selectedPhoto && (
+        <div className="designer-props">
+          <div className="form-group">
+            <label>{t('admin.zones.label')}</label>
+            <input type="text" value={selectedPhoto.label} onChange={(e) => updatePhoto(selectedPhoto.id, { label: e.target.value })} />
+          </div>
+          <div className="form-group">
+            <label>{t('admin.zones.mask')}</label>
+            <select value={selectedPhoto.mask} onChange={(e) => updatePhoto(selectedPhoto.id, { mask: e.target.value as PhotoMask })}>
+              {PHOTO_MASKS.map((mask) => (
+                <option key={mask} value={mask}>{t(`admin.zones.mask.${mask}`)}</option>
+              ))}
+            </select>
+          </div>
+          <button type="button" className="delete-button" onClick={() => deleteZone(selectedPhoto.id)}>
+            <LucideTrash className="mr-2 h-4 w-4" />
+            {t('admin.zones.remove')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
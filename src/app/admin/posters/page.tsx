@@ -1,66 +1,228 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import Image from 'next/image';
+import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
-import { LucideSave, LucideDownload, LucideLoader2, LucideEdit, LucideTrash } from 'lucide-react';
+import {
+  LucideSave,
+  LucideDownload,
+  LucideLoader2,
+  LucideEdit,
+  LucideTrash,
+  LucideLayoutTemplate,
+  LucideChevronLeft,
+  LucideChevronRight,
+  LucideImages,
+} from 'lucide-react';
+import { adminFetch } from '@/lib/adminFetch';
+import { can } from '@/lib/roles';
+import type { Category } from '@/lib/categories';
+import type { Occasion } from '@/lib/occasions';
+import { DEFAULT_FONT, type Font } from '@/lib/fonts';
+import type { PsdMetadata } from '@/lib/psdMetadata';
+import { VARIANTS, type ImageVariants, type VariantName } from '@/lib/variants';
+import PosterImage from '@/components/PosterImage';
+import FontOptions from '@/components/FontOptions';
+import { MAX_FILE_SIZE, MAX_THUMBNAIL_SIZE, formatMegabytes } from '@/lib/uploads';
+import {
+  POSTER_STATUSES,
+  fromDateTimeInput,
+  publishState,
+  toDateTimeInput,
+  type PosterStatus,
+  type PublishState,
+} from '@/lib/publishing';
+import { resolveTemplate, validateTemplate, type PosterTemplate } from '@/lib/template';
+import {
+  LOCALE_NAMES,
+  TRANSLATED_LOCALES,
+  type Locale,
+  type PosterTranslations,
+  type TranslatedLocale,
+  type Translate,
+  type TranslatableMessage,
+} from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+import ZoneDesigner from './ZoneDesigner';
+import AdminBar from '../AdminBar';
+import { useAdminSession } from '../useAdminSession';
+import { forgetUpload, uploadInChunks, type UploadProgress } from '../chunkedUpload';
 import './posters.css';
 
 interface Poster {
   id: number;
   title: string;
-  category: 'Festival' | 'Birthday' | 'Marriage';
+  category: string;
   download_url: string;
   psd_url?: string;
   font_family?: string;
   is_editable: boolean;
   created_at: string;
+  psd_metadata?: PsdMetadata | null;
+  template?: PosterTemplate | null;
+  tags?: string[];
+  description?: string | null;
+  image_variants?: ImageVariants | null;
+  status?: PosterStatus;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+  occasion_id?: number | null;
+  translations?: PosterTranslations | null;
 }
 
+const PAGE_SIZE = 12;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const formatDate = (iso: string, locale: Locale) =>
+  new Date(iso).toLocaleString(locale, { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+// The badge on each card, so scheduled and expired posters stand out from live ones
+const publishLabel = (poster: Poster, state: PublishState, t: Translate, locale: Locale) => {
+  switch (state) {
+    case 'scheduled':
+      return t('admin.posters.publish.scheduled', { date: formatDate(poster.publish_at!, locale) });
+    case 'expired':
+      return t('admin.posters.publish.expired', { date: formatDate(poster.unpublish_at!, locale) });
+    case 'live':
+      return poster.unpublish_at ? t('admin.posters.publish.liveUntil', { date: formatDate(poster.unpublish_at, locale) }) : null;
+    case 'draft':
+      return t('admin.posters.publish.draft');
+    case 'archived':
+      return t('admin.posters.publish.archived');
+  }
+};
+
+const EMPTY_SCHEDULE = { status: 'published' as PosterStatus, publishAt: '', unpublishAt: '' };
+
 export default function AdminPosters() {
+  const { user, role, signOut } = useAdminSession();
+  const { locale, t } = useI18n();
   const [posters, setPosters] = useState<Poster[]>([]);
+  // Cursor that opened each page visited so far; the last entry is the current page
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const onFirstPage = useRef(true);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [occasions, setOccasions] = useState<Occasion[]>([]);
+  const [fonts, setFonts] = useState<Font[]>([]);
   const [loading, setLoading] = useState(true);
+  const [pageLoading, setPageLoading] = useState(false);
+  const [generatingId, setGeneratingId] = useState<number | null>(null);
   const [formData, setFormData] = useState({
-    category: 'Festival' as 'Festival' | 'Birthday' | 'Marriage',
+    category: '',
     title: '',
     file: null as File | null,
     thumbnail: null as File | null,
     isEditable: false,
-    fontFamily: 'Roboto',
+    fontFamily: DEFAULT_FONT,
+    tags: '',
+    description: '',
+    ...EMPTY_SCHEDULE,
+    occasionId: '',
   });
   const [saving, setSaving] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  // Set once the file is sent and the server is storing it and rendering previews
+  const [processing, setProcessing] = useState(false);
+  const uploadStart = useRef({ time: 0, loaded: 0 });
   const [error, setError] = useState<string | null>(null);
+  // Failures loading the page's data, worded when shown
+  const [loadError, setLoadError] = useState<TranslatableMessage | null>(null);
   const [editingPoster, setEditingPoster] = useState<Poster | null>(null);
   const [editFormData, setEditFormData] = useState({
     title: '',
-    category: 'Festival' as 'Festival' | 'Birthday' | 'Marriage',
-    fontFamily: 'Roboto',
+    category: '',
+    fontFamily: DEFAULT_FONT,
     isEditable: false,
+    tags: '',
+    description: '',
+    ...EMPTY_SCHEDULE,
+    occasionId: '',
+    translations: {} as PosterTranslations,
   });
+  // Zones being edited in the designer; null until the designer is opened for this poster
+  const [editTemplate, setEditTemplate] = useState<PosterTemplate | null>(null);
+  const [showDesigner, setShowDesigner] = useState(false);
 
   useEffect(() => {
-    const fetchPosters = async () => {
-      const { data, error } = await supabase
-        .from('posters')
-        .select('id, title, category, download_url, psd_url, font_family, is_editable, created_at')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        setError('Failed to fetch posters: ' + error.message);
-      } else {
-        setPosters(data || []);
+    const fetchPage = async (cursor: string | null) => {
+      setPageLoading(true);
+      try {
+        // Drafts, scheduled and expired posters too, which WishMe doesn't list
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE), sort: 'latest', include: 'all' });
+        if (cursor) params.set('cursor', cursor);
+        const response = await adminFetch(`/api/posters?${params}`);
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load posters');
+        setPosters(result.posters);
+        setNextCursor(result.nextCursor);
+      } catch (error: any) {
+        setLoadError({ key: 'admin.posters.error.fetchPosters', params: { message: error.message } });
+      } finally {
+        setPageLoading(false);
+        setLoading(false);
+      }
+    };
+
+    onFirstPage.current = pageCursors.length === 1;
+    fetchPage(pageCursors[pageCursors.length - 1]);
+  }, [pageCursors]);
+
+  const goToNextPage = () => {
+    if (nextCursor) setPageCursors((prev) => [...prev, nextCursor]);
+  };
+
+  const goToPreviousPage = () => {
+    setPageCursors((prev) => (prev.length > 1 ? prev.slice(0, -1) : prev));
+  };
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch('/api/categories');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load categories');
+        setCategories(result.categories);
+        setFormData((prev) => ({ ...prev, category: prev.category || result.categories[0]?.name || '' }));
+      } catch (error: any) {
+        setLoadError({ key: 'admin.posters.error.fetchCategories', params: { message: error.message } });
+      }
+    };
+
+    // Inactive ones too, so posters linked to them still show their occasion
+    const fetchOccasions = async () => {
+      try {
+        const response = await adminFetch('/api/occasions?include=inactive');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load occasions');
+        setOccasions(result.occasions);
+      } catch (error: any) {
+        setLoadError({ key: 'admin.posters.error.fetchOccasions', params: { message: error.message } });
       }
-      setLoading(false);
     };
 
-    fetchPosters();
+    const fetchFonts = async () => {
+      try {
+        const response = await fetch('/api/fonts');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load fonts');
+        setFonts(result.fonts);
+      } catch (error: any) {
+        setLoadError({ key: 'admin.posters.error.fetchFonts', params: { message: error.message } });
+      }
+    };
+
+    fetchCategories();
+    fetchOccasions();
+    fetchFonts();
 
     const subscription = supabase
       .channel('posters-realtime')
       .on('postgres_changes', { event: '*', schema: 'public', table: 'posters' }, (payload) => {
         if (payload.eventType === 'INSERT') {
-          setPosters((prev) => [payload.new as Poster, ...prev]);
+          // New posters sort first; later pages pick them up when revisited
+          if (onFirstPage.current) setPosters((prev) => [payload.new as Poster, ...prev]);
         } else if (payload.eventType === 'DELETE') {
           setPosters((prev) => prev.filter((p) => p.id !== payload.old.id));
         } else if (payload.eventType === 'UPDATE') {
@@ -77,7 +239,7 @@ export default function AdminPosters() {
   }, []);
 
   const handleInputChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
   ) => {
     const { name, value, files, type, checked } = e.target as any;
     if (name === 'file' || name === 'thumbnail') {
@@ -90,7 +252,7 @@ export default function AdminPosters() {
   };
 
   const handleEditInputChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
   ) => {
     const { name, value, type, checked } = e.target as any;
     setEditFormData((prev) => ({
@@ -103,47 +265,51 @@ export default function AdminPosters() {
     e.preventDefault();
     setSaving(true);
     setError(null);
-    setUploadProgress(0);
+    setUploadProgress(null);
+    setProcessing(false);
 
     if (!formData.title || !formData.file) {
-      setError('Title and file are required.');
+      setError(t('admin.posters.error.required'));
       setSaving(false);
       return;
     }
 
-    if (formData.isEditable && formData.file.name.split('.').pop()?.toLowerCase() === 'psd' && !formData.thumbnail) {
-      setError('Thumbnail image (PNG/JPEG) is required for editable PSDs.');
+    if (formData.file.size > MAX_FILE_SIZE) {
+      setError(t('admin.posters.error.fileTooLarge', { size: formatMegabytes(MAX_FILE_SIZE) }));
       setSaving(false);
       return;
     }
-
-    const MAX_FILE_SIZE = 50 * 1024 * 1024;
-    if (formData.file.size > MAX_FILE_SIZE || (formData.thumbnail && formData.thumbnail.size > MAX_FILE_SIZE)) {
-      setError(`File size exceeds maximum limit of ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
+    if (formData.thumbnail && formData.thumbnail.size > MAX_THUMBNAIL_SIZE) {
+      setError(t('admin.posters.error.thumbnailTooLarge', { size: formatMegabytes(MAX_THUMBNAIL_SIZE) }));
       setSaving(false);
       return;
     }
 
-    const formDataToSend = new FormData();
-    formDataToSend.append('file', formData.file);
-    if (formData.thumbnail) formDataToSend.append('thumbnail', formData.thumbnail);
-    formDataToSend.append('title', formData.title);
-    formDataToSend.append('category', formData.category);
-    formDataToSend.append('isEditable', formData.isEditable.toString());
-    formDataToSend.append('fontFamily', formData.fontFamily);
-
     try {
-      const interval = setInterval(() => {
-        setUploadProgress((prev) => {
-          if (prev >= 90) {
-            clearInterval(interval);
-            return prev;
-          }
-          return prev + 10;
-        });
-      }, 500);
-
-      const response = await fetch('/api/upload', {
+      const file = formData.file;
+      uploadStart.current = { time: 0, loaded: 0 };
+      const uploadId = await uploadInChunks(file, (progress) => {
+        // Measured from the first report, so chunks kept from an earlier attempt don't inflate the speed
+        if (!uploadStart.current.time) uploadStart.current = { time: Date.now(), loaded: progress.loaded };
+        setUploadProgress(progress);
+      });
+      setProcessing(true);
+
+      const formDataToSend = new FormData();
+      formDataToSend.append('uploadId', uploadId);
+      if (formData.thumbnail) formDataToSend.append('thumbnail', formData.thumbnail);
+      formDataToSend.append('title', formData.title);
+      formDataToSend.append('category', formData.category);
+      formDataToSend.append('isEditable', formData.isEditable.toString());
+      formDataToSend.append('fontFamily', formData.fontFamily);
+      formDataToSend.append('tags', formData.tags);
+      formDataToSend.append('description', formData.description);
+      formDataToSend.append('status', formData.status);
+      formDataToSend.append('publishAt', fromDateTimeInput(formData.publishAt));
+      formDataToSend.append('unpublishAt', fromDateTimeInput(formData.unpublishAt));
+      formDataToSend.append('occasionId', formData.occasionId);
+
+      const response = await adminFetch('/api/upload', {
         method: 'POST',
         body: formDataToSend,
       });
@@ -153,9 +319,8 @@ export default function AdminPosters() {
         throw new Error(result.error || 'Failed to upload file');
       }
 
-      clearInterval(interval);
-      setUploadProgress(100);
-      setFormData({ category: 'Festival', title: '', file: null, thumbnail: null, isEditable: false, fontFamily: 'Roboto' });
+      forgetUpload(file);
+      setFormData((prev) => ({ category: prev.category, title: '', file: null, thumbnail: null, isEditable: false, fontFamily: DEFAULT_FONT, tags: '', description: '', ...EMPTY_SCHEDULE, occasionId: '' }));
       (document.getElementById('file-input') as HTMLInputElement).value = '';
       if (document.getElementById('thumbnail-input')) {
         (document.getElementById('thumbnail-input') as HTMLInputElement).value = '';
@@ -164,6 +329,7 @@ export default function AdminPosters() {
       setError(error.message);
     } finally {
       setSaving(false);
+      setProcessing(false);
     }
   };
 
@@ -181,27 +347,43 @@ export default function AdminPosters() {
       document.body.removeChild(link);
       window.URL.revokeObjectURL(blobUrl);
     } catch (error: any) {
-      setError('Failed to download file: ' + error.message);
+      setError(t('admin.posters.error.download', { message: error.message }));
     }
   };
 
-  const handleDelete = async (id: number, filename: string) => {
-    if (!confirm('Are you sure you want to delete this poster?')) return;
+  const handleDelete = async (id: number) => {
+    if (!confirm(t('admin.posters.confirmDelete'))) return;
 
     try {
-      const { error: deleteError } = await supabase.from('posters').delete().eq('id', id);
-      if (deleteError) {
-        setError('Failed to delete poster: ' + deleteError.message);
-        return;
-      }
+      const response = await adminFetch('/api/delete', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      });
 
-      const path = filename.includes('psd/') ? filename : `thumbnails/${filename}`;
-      const { error: storageError } = await supabase.storage.from('posters').remove([path]);
-      if (storageError) {
-        setError('Failed to delete file from storage: ' + storageError.message);
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to delete poster');
+      } else if (result.warning) {
+        setError(result.warning);
       }
     } catch (error: any) {
-      setError('Failed to delete poster: ' + error.message);
+      setError(t('admin.posters.error.delete', { message: error.message }));
+    }
+  };
+
+  // Posters uploaded before variants existed; the realtime UPDATE refreshes the card
+  const handleGenerateVariants = async (id: number) => {
+    setGeneratingId(id);
+    setError(null);
+    try {
+      const response = await adminFetch(`/api/posters/${id}/variants`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to generate sizes');
+    } catch (error: any) {
+      setError(t('admin.posters.error.generateSizes', { message: error.message }));
+    } finally {
+      setGeneratingId(null);
     }
   };
 
@@ -210,43 +392,99 @@ export default function AdminPosters() {
     setEditFormData({
       title: poster.title,
       category: poster.category,
-      fontFamily: poster.font_family || 'Roboto',
+      fontFamily: poster.font_family || DEFAULT_FONT,
       isEditable: poster.is_editable,
+      tags: (poster.tags ?? []).join(', '),
+      description: poster.description ?? '',
+      status: poster.status ?? 'published',
+      publishAt: toDateTimeInput(poster.publish_at),
+      unpublishAt: toDateTimeInput(poster.unpublish_at),
+      occasionId: poster.occasion_id ? String(poster.occasion_id) : '',
+      translations: poster.translations ?? {},
     });
+    setEditTemplate(null);
+    setShowDesigner(false);
+  };
+
+  const handleTranslationChange = (locale: TranslatedLocale, field: 'title' | 'description', value: string) => {
+    setEditFormData((prev) => ({
+      ...prev,
+      translations: { ...prev.translations, [locale]: { ...prev.translations[locale], [field]: value } },
+    }));
+  };
+
+  const toggleDesigner = () => {
+    if (!editingPoster) return;
+    // Start from what the WishMe editor shows today, so admins refine rather than redraw
+    if (!editTemplate) setEditTemplate(resolveTemplate(editingPoster));
+    setShowDesigner((prev) => !prev);
   };
 
   const handleUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingPoster) return;
 
+    if (editTemplate) {
+      const { error: templateError } = validateTemplate(editTemplate);
+      if (templateError) {
+        setError(t('admin.posters.error.invalidZones', { message: templateError }));
+        return;
+      }
+    }
+
     try {
-      const { error } = await supabase
-        .from('posters')
-        .update({
+      const response = await adminFetch('/api/update', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: editingPoster.id,
           title: editFormData.title,
           category: editFormData.category,
-          font_family: editFormData.fontFamily,
-          is_editable: editFormData.isEditable,
-        })
-        .eq('id', editingPoster.id);
+          fontFamily: editFormData.fontFamily,
+          isEditable: editFormData.isEditable,
+          tags: editFormData.tags.split(','),
+          description: editFormData.description,
+          status: editFormData.status,
+          publishAt: fromDateTimeInput(editFormData.publishAt) || null,
+          unpublishAt: fromDateTimeInput(editFormData.unpublishAt) || null,
+          occasionId: editFormData.occasionId ? Number(editFormData.occasionId) : null,
+          translations: editFormData.translations,
+          ...(editTemplate ? { template: editTemplate } : {}),
+        }),
+      });
 
-      if (error) {
-        setError('Failed to update poster: ' + error.message);
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to update poster');
       } else {
-        setEditingPoster(null);
-        setEditFormData({ title: '', category: 'Festival', fontFamily: 'Roboto', isEditable: false });
+        closeEditModal();
       }
     } catch (error: any) {
-      setError('Failed to update poster: ' + error.message);
+      setError(t('admin.posters.error.update', { message: error.message }));
     }
   };
 
   const closeEditModal = () => {
     setEditingPoster(null);
-    setEditFormData({ title: '', category: 'Festival', fontFamily: 'Roboto', isEditable: false });
+    setEditFormData({ title: '', category: '', fontFamily: DEFAULT_FONT, isEditable: false, tags: '', description: '', ...EMPTY_SCHEDULE, occasionId: '', translations: {} });
+    setEditTemplate(null);
+    setShowDesigner(false);
   };
 
-  if (loading) {
+  const uploadPercent = uploadProgress ? Math.floor((uploadProgress.loaded / uploadProgress.total) * 100) : 0;
+  const elapsedSeconds = (Date.now() - uploadStart.current.time) / 1000;
+  const bytesPerSecond =
+    uploadProgress && elapsedSeconds > 1 ? (uploadProgress.loaded - uploadStart.current.loaded) / elapsedSeconds : 0;
+  const uploadSpeed = bytesPerSecond > 0
+    ? t('admin.posters.speed', {
+        speed: formatBytes(bytesPerSecond),
+        seconds: Math.ceil((uploadProgress!.total - uploadProgress!.loaded) / bytesPerSecond),
+      })
+    : t('admin.posters.measuringSpeed');
+
+  const shownError = error ?? (loadError && t(loadError.key, loadError.params));
+
+  if (!role || loading) {
     return (
       <div className="loading">
         <LucideLoader2 className="loading-spinner h-8 w-8" style={{ color: '#FFD700' }} />
@@ -256,218 +494,401 @@ export default function AdminPosters() {
 
   return (
     <div className="container">
-      <div className="content">
-        <div className="form-section">
-          <h2>✨ Admin Poster Dashboard</h2>
-          {error && <p className="error">{error}</p>}
-          <form onSubmit={handleSave} className="form">
-            <div className="form-group">
-              <label>Category</label>
-              <select name="category" value={formData.category} onChange={handleInputChange}>
-                <option value="Festival">Festival</option>
-                <option value="Birthday">Birthday</option>
-                <option value="Marriage">Marriage</option>
-              </select>
-            </div>
-            <div className="form-group">
-              <label>Poster Title</label>
-              <input
-                type="text"
-                name="title"
-                value={formData.title}
-                onChange={handleInputChange}
-                placeholder="e.g., Happy Diwali 2025"
-              />
-            </div>
-            <div className="form-group">
-              <label>Upload File (Image or PSD, max 50MB)</label>
-              <input
-                id="file-input"
-                type="file"
-                name="file"
-                accept="image/*,.psd"
-                onChange={handleInputChange}
-              />
-            </div>
-            <div className="form-group">
-              <label>Thumbnail Image (PNG/JPEG, required for PSDs, max 50MB)</label>
-              <input
-                id="thumbnail-input"
-                type="file"
-                name="thumbnail"
-                accept="image/png,image/jpeg"
-                onChange={handleInputChange}
-              />
-            </div>
-            <div className="form-group">
-              <label>
+      <div className={`content ${can(role, 'edit') ? '' : 'read-only'}`}>
+        <AdminBar user={user} role={role} onSignOut={signOut} />
+        {!can(role, 'edit') && shownError && <p className="error">{shownError}</p>}
+        {can(role, 'edit') && (
+          <div className="form-section">
+            <h2>{t('admin.posters.dashboard')}</h2>
+            {shownError && <p className="error">{shownError}</p>}
+            <form onSubmit={handleSave} className="form">
+              <div className="form-group">
+                <label>{t('admin.posters.category')}</label>
+                <select name="category" value={formData.category} onChange={handleInputChange}>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.name}>{category.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{t('admin.posters.title')}</label>
                 <input
-                  type="checkbox"
-                  name="isEditable"
-                  checked={formData.isEditable}
+                  type="text"
+                  name="title"
+                  value={formData.title}
                   onChange={handleInputChange}
+                  placeholder={t('admin.posters.titlePlaceholder')}
                 />
-                Editable by Users
-              </label>
-            </div>
-            <div className="form-group">
-              <label>Font Family (for text overlays)</label>
-              <select name="fontFamily" value={formData.fontFamily} onChange={handleInputChange}>
-                <option value="Roboto">Roboto</option>
-                <option value="Montserrat">Montserrat</option>
-                <option value="Open Sans">Open Sans</option>
-                <option value="Lato">Lato</option>
-              </select>
-            </div>
-            <button type="submit" disabled={saving} className="submit-button">
-              <LucideSave className="mr-2 h-4 w-4" />
-              {saving ? 'Saving...' : 'Save Poster'}
-            </button>
-            {saving && (
-              <div className="progress-container">
-                <div className="progress-header">
-                  <span className="progress-label">Uploading Poster...</span>
-                  <span className="progress-percentage">{uploadProgress}%</span>
-                </div>
-                <div className="progress-bar-wrapper">
-                  <div
-                    className="progress-bar-track pulse"
-                    style={{ width: `${uploadProgress}%` }}
-                  >
-                    <div className="progress-bar-fill"></div>
+              </div>
+              <div className="form-group">
+                <label>{t('admin.posters.tagsHint')}</label>
+                <input
+                  type="text"
+                  name="tags"
+                  value={formData.tags}
+                  onChange={handleInputChange}
+                  placeholder={t('admin.posters.tagsPlaceholder')}
+                />
+              </div>
+              <div className="form-group">
+                <label>{t('admin.posters.descriptionOptional')}</label>
+                <textarea
+                  name="description"
+                  value={formData.description}
+                  onChange={handleInputChange}
+                  rows={3}
+                />
+              </div>
+              <div className="form-group">
+                <label>{t('admin.posters.file', { size: formatMegabytes(MAX_FILE_SIZE) })}</label>
+                <input
+                  id="file-input"
+                  type="file"
+                  name="file"
+                  accept="image/*,.psd"
+                  onChange={handleInputChange}
+                />
+              </div>
+              <div className="form-group">
+                <label>{t('admin.posters.thumbnail', { size: formatMegabytes(MAX_THUMBNAIL_SIZE) })}</label>
+                <input
+                  id="thumbnail-input"
+                  type="file"
+                  name="thumbnail"
+                  accept="image/png,image/jpeg"
+                  onChange={handleInputChange}
+                />
+              </div>
+              <div className="form-group">
+                <label>
+                  <input
+                    type="checkbox"
+                    name="isEditable"
+                    checked={formData.isEditable}
+                    onChange={handleInputChange}
+                  />
+                  {t('admin.posters.editableByUsers')}
+                </label>
+              </div>
+              <div className="form-group">
+                <label>{t('admin.posters.occasion')}</label>
+                <select name="occasionId" value={formData.occasionId} onChange={handleInputChange}>
+                  <option value="">{t('admin.posters.noOccasion')}</option>
+                  {occasions.map((occasion) => (
+                    <option key={occasion.id} value={occasion.id}>
+                      {occasion.icon} {occasion.name}
+                      {!occasion.isActive && ` ${t('admin.posters.inactive')}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group schedule-fields">
+                <label>
+                  {t('admin.posters.status')}
+                  <select name="status" value={formData.status} onChange={handleInputChange}>
+                    {POSTER_STATUSES.map((status) => (
+                      <option key={status} value={status}>{t(`admin.posters.status.${status}`)}</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  {t('admin.posters.publishAt')}
+                  <input type="datetime-local" name="publishAt" value={formData.publishAt} onChange={handleInputChange} />
+                </label>
+                <label>
+                  {t('admin.posters.unpublishAt')}
+                  <input type="datetime-local" name="unpublishAt" value={formData.unpublishAt} onChange={handleInputChange} />
+                </label>
+              </div>
+              <div className="form-group">
+                <label>{t('admin.posters.fontForOverlays')}</label>
+                <select name="fontFamily" value={formData.fontFamily} onChange={handleInputChange}>
+                  <FontOptions value={formData.fontFamily} library={fonts} />
+                </select>
+              </div>
+              <button type="submit" disabled={saving} className="submit-button">
+                <LucideSave className="mr-2 h-4 w-4" />
+                {saving ? t('admin.posters.saving') : t('admin.posters.save')}
+              </button>
+              {saving && (
+                <div className="progress-container">
+                  <div className="progress-header">
+                    <span className="progress-label">{processing ? t('admin.posters.processing') : t('admin.posters.uploading')}</span>
+                    <span className="progress-percentage">{uploadPercent}%</span>
                   </div>
-                </div>
-                <div className="progress-steps">
-                  {[0, 25, 50, 75, 100].map((step) => (
+                  <div className="progress-bar-wrapper">
                     <div
-                      key={step}
-                      className={`progress-step ${
-                        uploadProgress >= step ? 'active' : ''
-                      } ${
-                        uploadProgress >= step && step === 100 ? 'complete' : ''
-                      }`}
-                    />
-                  ))}
-                </div>
-                <div className="progress-details">
-                  <span className="progress-speed">
-                    ⚡ {uploadProgress < 50 ? 'Processing...' : 'Finalizing...'}
-                  </span>
-                  <span className="progress-time">
-                    {uploadProgress < 100 ? 'Almost there...' : 'Complete!'}
-                  </span>
+                      className={`progress-bar-track ${processing ? 'pulse' : ''}`}
+                      style={{ width: `${uploadPercent}%` }}
+                    >
+                      <div className="progress-bar-fill"></div>
+                    </div>
+                  </div>
+                  <div className="progress-steps">
+                    {[0, 25, 50, 75, 100].map((step) => (
+                      <div
+                        key={step}
+                        className={`progress-step ${
+                          uploadPercent >= step ? 'active' : ''
+                        } ${
+                          uploadPercent >= step && step === 100 ? 'complete' : ''
+                        }`}
+                      />
+                    ))}
+                  </div>
+                  <div className="progress-details">
+                    <span className="progress-speed">
+                      ⚡{' '}
+                      {uploadProgress
+                        ? t('admin.posters.progress', {
+                            loaded: formatBytes(uploadProgress.loaded),
+                            total: formatBytes(uploadProgress.total),
+                          })
+                        : t('admin.posters.starting')}
+                    </span>
+                    <span className="progress-time">
+                      {processing ? t('admin.posters.savingPreviews') : uploadSpeed}
+                    </span>
+                  </div>
                 </div>
-              </div>
-            )}
-          </form>
-        </div>
+              )}
+            </form>
+          </div>
+        )}
 
         <div className="posters-section">
-          <h2>📸 Uploaded Posters</h2>
+          <h2>{t('admin.posters.uploaded')}</h2>
           <div className="posters-grid">
             {posters.length === 0 ? (
-              <p className="no-posters">No posters uploaded yet.</p>
+              <p className="no-posters">{t('admin.posters.none')}</p>
             ) : (
-              posters.map((poster) => (
-                <div key={poster.id} className="poster-card">
-                  <div className="poster-image-container">
-                    <Image
-                      src={poster.download_url || poster.psd_url || '/placeholder.png'}
-                      alt={poster.title}
-                      fill
-                      sizes="(max-width: 768px) 100vw, 33vw"
-                      className="poster-image"
-                      loading="lazy"
-                    />
-                    {poster.is_editable && (
-                      <span className="editable-badge">Editable</span>
-                    )}
-                  </div>
-                  <div className="poster-content">
-                    <h3 className="poster-title">{poster.title}</h3>
-                    <p className="poster-category">{poster.category}</p>
-                    <p className="poster-font">{poster.font_family || 'N/A'}</p>
-                    <div className="poster-actions">
-                      <button
-                        onClick={() => handleDownload(poster.download_url || poster.psd_url || '', poster.title)}
-                        className="download-button"
-                      >
-                        <LucideDownload className="mr-2 h-4 w-4" />
-                        Download
-                      </button>
-                      <button
-                        onClick={() => handleEdit(poster)}
-                        className="edit-button"
-                      >
-                        <LucideEdit className="mr-2 h-4 w-4" />
-                        Edit
-                      </button>
-                      <button
-                        onClick={() => handleDelete(poster.id, (poster.download_url || poster.psd_url || '').split('/').pop()!)}
-                        className="delete-button"
-                      >
-                        <LucideTrash className="mr-2 h-4 w-4" />
-                        Delete
-                      </button>
+              posters.map((poster) => {
+                const state = publishState(poster);
+                const label = publishLabel(poster, state, t, locale);
+                const occasion = occasions.find((o) => o.id === poster.occasion_id);
+                return (
+                  <div key={poster.id} className={`poster-card publish-${state}`}>
+                    <div className="poster-image-container">
+                      <PosterImage poster={poster} sizes="(max-width: 768px) 100vw, 33vw" className="poster-image" />
+                      {poster.is_editable && (
+                        <span className="editable-badge">{t('common.editable')}</span>
+                      )}
+                      {label && <span className={`publish-badge ${state}`}>{label}</span>}
+                    </div>
+                    <div className="poster-content">
+                      <h3 className="poster-title">{poster.title}</h3>
+                      <p className="poster-category">
+                        {poster.category}
+                        {occasion && ` · ${occasion.icon ?? ''} ${occasion.name}`}
+                      </p>
+                      <p className="poster-font">{poster.font_family || t('admin.posters.noFont')}</p>
+                      <p className="poster-variants">
+                        {poster.image_variants
+                          ? (Object.keys(VARIANTS) as VariantName[])
+                              .filter((name) => poster.image_variants![name])
+                              .map((name) => `${name} ${poster.image_variants![name]!.width}×${poster.image_variants![name]!.height}`)
+                              .join(' · ')
+                          : t('admin.posters.originalOnly')}
+                      </p>
+                      <div className="poster-actions">
+                        <button
+                          onClick={() => handleDownload(poster.download_url || poster.psd_url || '', poster.title)}
+                          className="download-button"
+                        >
+                          <LucideDownload className="mr-2 h-4 w-4" />
+                          {t('common.download')}
+                        </button>
+                        {can(role, 'edit') && (
+                          <button
+                            onClick={() => handleEdit(poster)}
+                            className="edit-button"
+                          >
+                            <LucideEdit className="mr-2 h-4 w-4" />
+                            {t('common.edit')}
+                          </button>
+                        )}
+                        {can(role, 'edit') && !poster.image_variants && (
+                          <button
+                            onClick={() => handleGenerateVariants(poster.id)}
+                            disabled={generatingId === poster.id}
+                            className="edit-button"
+                          >
+                            <LucideImages className="mr-2 h-4 w-4" />
+                            {generatingId === poster.id ? t('admin.posters.generating') : t('admin.posters.generateSizes')}
+                          </button>
+                        )}
+                        {can(role, 'delete') && (
+                          <button
+                            onClick={() => handleDelete(poster.id)}
+                            className="delete-button"
+                          >
+                            <LucideTrash className="mr-2 h-4 w-4" />
+                            {t('common.delete')}
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))
+                );
+              })
             )}
           </div>
+          {(pageCursors.length > 1 || nextCursor) && (
+            <div className="pagination">
+              <button onClick={goToPreviousPage} disabled={pageLoading || pageCursors.length === 1}>
+                <LucideChevronLeft className="h-4 w-4" />
+                {t('admin.posters.previous')}
+              </button>
+              <span>{t('admin.posters.page', { number: pageCursors.length })}</span>
+              <button onClick={goToNextPage} disabled={pageLoading || !nextCursor}>
+                {t('admin.posters.next')}
+                <LucideChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
       {editingPoster && (
         <div className="modal">
-          <div className="modal-content">
-            <h2>Edit Poster</h2>
+          <div className={`modal-content ${showDesigner ? 'designer-open' : ''}`}>
+            <h2>{t('admin.posters.editPoster')}</h2>
             <form onSubmit={handleUpdate} className="form">
-              <div className="form-group">
-                <label>Poster Title</label>
-                <input
-                  type="text"
-                  name="title"
-                  value={editFormData.title}
-                  onChange={handleEditInputChange}
-                  placeholder="e.g., Happy Diwali 2025"
-                />
-              </div>
-              <div className="form-group">
-                <label>Category</label>
-                <select name="category" value={editFormData.category} onChange={handleEditInputChange}>
-                  <option value="Festival">Festival</option>
-                  <option value="Birthday">Birthday</option>
-                  <option value="Marriage">Marriage</option>
-                </select>
-              </div>
-              <div className="form-group">
-                <label>Font Family</label>
-                <select name="fontFamily" value={editFormData.fontFamily} onChange={handleEditInputChange}>
-                  <option value="Roboto">Roboto</option>
-                  <option value="Montserrat">Montserrat</option>
-                  <option value="Open Sans">Open Sans</option>
-                  <option value="Lato">Lato</option>
-                </select>
-              </div>
-              <div className="form-group">
-                <label>
-                  <input
-                    type="checkbox"
-                    name="isEditable"
-                    checked={editFormData.isEditable}
-                    onChange={handleEditInputChange}
+              <div className={showDesigner ? 'designer-layout' : ''}>
+                <div>
+                  <div className="form-group">
+                    <label>{t('admin.posters.title')}</label>
+                    <input
+                      type="text"
+                      name="title"
+                      value={editFormData.title}
+                      onChange={handleEditInputChange}
+                      placeholder={t('admin.posters.titlePlaceholder')}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>{t('admin.posters.tags')}</label>
+                    <input
+                      type="text"
+                      name="tags"
+                      value={editFormData.tags}
+                      onChange={handleEditInputChange}
+                      placeholder={t('admin.posters.tagsPlaceholder')}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>{t('admin.posters.description')}</label>
+                    <textarea
+                      name="description"
+                      value={editFormData.description}
+                      onChange={handleEditInputChange}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>{t('admin.posters.category')}</label>
+                    <select name="category" value={editFormData.category} onChange={handleEditInputChange}>
+                      {/* Keep a deactivated category selectable for posters already in it */}
+                      {!categories.some((category) => category.name === editFormData.category) && (
+                        <option value={editFormData.category}>{editFormData.category}</option>
+                      )}
+                      {categories.map((category) => (
+                        <option key={category.id} value={category.name}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label>{t('admin.posters.occasion')}</label>
+                    <select name="occasionId" value={editFormData.occasionId} onChange={handleEditInputChange}>
+                      <option value="">{t('admin.posters.noOccasion')}</option>
+                      {occasions.map((occasion) => (
+                        <option key={occasion.id} value={occasion.id}>
+                          {occasion.icon} {occasion.name}
+                          {!occasion.isActive && ` ${t('admin.posters.inactive')}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="form-group schedule-fields">
+                    <label>
+                      {t('admin.posters.status')}
+                      <select name="status" value={editFormData.status} onChange={handleEditInputChange}>
+                        {POSTER_STATUSES.map((status) => (
+                          <option key={status} value={status}>{t(`admin.posters.status.${status}`)}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label>
+                      {t('admin.posters.publishAt')}
+                      <input type="datetime-local" name="publishAt" value={editFormData.publishAt} onChange={handleEditInputChange} />
+                    </label>
+                    <label>
+                      {t('admin.posters.unpublishAt')}
+                      <input type="datetime-local" name="unpublishAt" value={editFormData.unpublishAt} onChange={handleEditInputChange} />
+                    </label>
+                  </div>
+                  <div className="form-group translation-fields">
+                    <label>{t('admin.posters.translations')}</label>
+                    {TRANSLATED_LOCALES.map((code) => (
+                      <fieldset key={code} lang={code}>
+                        <legend>{LOCALE_NAMES[code]}</legend>
+                        <input
+                          type="text"
+                          value={editFormData.translations[code]?.title ?? ''}
+                          onChange={(e) => handleTranslationChange(code, 'title', e.target.value)}
+                          placeholder={t('admin.posters.translatedTitle', { language: LOCALE_NAMES[code] })}
+                          aria-label={t('admin.posters.translatedTitle', { language: LOCALE_NAMES[code] })}
+                        />
+                        <textarea
+                          value={editFormData.translations[code]?.description ?? ''}
+                          onChange={(e) => handleTranslationChange(code, 'description', e.target.value)}
+                          placeholder={t('admin.posters.translatedDescription', { language: LOCALE_NAMES[code] })}
+                          aria-label={t('admin.posters.translatedDescription', { language: LOCALE_NAMES[code] })}
+                          rows={2}
+                        />
+                      </fieldset>
+                    ))}
+                  </div>
+                  <div className="form-group">
+                    <label>{t('admin.posters.fontFamily')}</label>
+                    <select name="fontFamily" value={editFormData.fontFamily} onChange={handleEditInputChange}>
+                      <FontOptions value={editFormData.fontFamily} library={fonts} />
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label>
+                      <input
+                        type="checkbox"
+                        name="isEditable"
+                        checked={editFormData.isEditable}
+                        onChange={handleEditInputChange}
+                      />
+                      {t('admin.posters.editableByUsers')}
+                    </label>
+                  </div>
+                  <div className="form-group">
+                    <button type="button" className="designer-toggle" onClick={toggleDesigner}>
+                      <LucideLayoutTemplate className="h-4 w-4" />
+                      {showDesigner ? t('admin.posters.hideDesigner') : t('admin.posters.showDesigner')}
+                    </button>
+                  </div>
+                </div>
+                {showDesigner && editTemplate && (
+                  <ZoneDesigner
+                    imageUrl={editingPoster.download_url || editingPoster.psd_url || '/placeholder.png'}
+                    template={editTemplate}
+                    fonts={fonts}
+                    onChange={setEditTemplate}
                   />
-                  Editable by Users
-                </label>
+                )}
               </div>
               <div className="modal-actions">
                 <button type="submit" className="submit-button">
                   <LucideSave className="mr-2 h-4 w-4" />
-                  Update
+                  {t('admin.posters.update')}
                 </button>
                 <button type="button" onClick={closeEditModal} className="cancel-button">
-                  Cancel
+                  {t('common.cancel')}
                 </button>
               </div>
             </form>
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { LucideLoader2, LucideSearch, LucideWrench } from 'lucide-react';
+import { adminFetch } from '@/lib/adminFetch';
+import { can } from '@/lib/roles';
+import type { ReconcileReport } from '@/lib/reconcile';
+import { useI18n } from '@/components/I18nProvider';
+import AdminBar from '../AdminBar';
+import { useAdminSession } from '../useAdminSession';
+import '../posters/posters.css';
+import './storage.css';
+
+const formatSize = (size: number | null) => (size === null ? '—' : `${(size / 1024).toFixed(1)} KB`);
+
+export default function AdminStorage() {
+  const { user, role, signOut } = useAdminSession();
+  const { locale, t } = useI18n();
+  const [report, setReport] = useState<ReconcileReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [options, setOptions] = useState({ deleteOrphans: true, flagBroken: true });
+
+  const reconcile = async (dryRun: boolean) => {
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await adminFetch('/api/reconcile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun, ...options }),
+      });
+      const result = await response.json();
+      if (result.scannedFiles !== undefined) setReport(result);
+      if (!response.ok) throw new Error(result.error || 'Failed to reconcile storage');
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!report) return;
+    const actions = [
+      options.deleteOrphans && t('admin.storage.confirmDelete', { count: report.orphans.length }),
+      options.flagBroken && t('admin.storage.confirmFlag', { count: report.broken.length }),
+    ].filter(Boolean);
+    if (actions.length === 0 || !confirm(t('admin.storage.confirm', { actions: actions.join('\n') }))) return;
+    reconcile(false);
+  };
+
+  if (!role) {
+    return (
+      <div className="loading">
+        <LucideLoader2 className="loading-spinner h-8 w-8" style={{ color: '#FFD700' }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <div className="storage-check">
+        <AdminBar user={user} role={role} onSignOut={signOut} />
+        <div className="form-section">
+          <h2>{t('admin.storage.title')}</h2>
+          <p className="storage-hint">{t('admin.storage.hint')}</p>
+          {error && <p className="error">{error}</p>}
+          <div className="form">
+            <button onClick={() => reconcile(true)} disabled={running} className="submit-button">
+              <LucideSearch className="mr-2 h-4 w-4" />
+              {running ? t('admin.storage.working') : t('admin.storage.scan')}
+            </button>
+            {report && can(role, 'delete') && (
+              <>
+                <div className="form-group">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={options.deleteOrphans}
+                      onChange={(e) => setOptions((prev) => ({ ...prev, deleteOrphans: e.target.checked }))}
+                    />
+                    {t('admin.storage.deleteOrphans')}
+                  </label>
+                </div>
+                <div className="form-group">
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={options.flagBroken}
+                      onChange={(e) => setOptions((prev) => ({ ...prev, flagBroken: e.target.checked }))}
+                    />
+                    {t('admin.storage.flagBroken')}
+                  </label>
+                </div>
+                <button onClick={handleApply} disabled={running} className="delete-button">
+                  <LucideWrench className="mr-2 h-4 w-4" />
+                  {t('admin.storage.apply')}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {report && (
+          <>
+            <div className="form-section">
+              <h2>{t('admin.storage.summary')}</h2>
+              <p className="storage-summary">
+                {t('admin.storage.scanned', {
+                  files: report.scannedFiles,
+                  posters: report.scannedPosters,
+                  orphans: report.orphans.length,
+                  broken: report.broken.length,
+                })}
+              </p>
+              {!report.dryRun && (
+                <p className="storage-hint">
+                  {t('admin.storage.applied', {
+                    deleted: report.deletedOrphans,
+                    flagged: report.flaggedPosters,
+                    cleared: report.clearedPosters,
+                  })}
+                </p>
+              )}
+            </div>
+
+            <div className="form-section">
+              <h2>{t('admin.storage.orphans')}</h2>
+              {report.orphans.length === 0 ? (
+                <p className="no-posters">{t('admin.storage.noOrphans')}</p>
+              ) : (
+                <table className="storage-table">
+                  <thead>
+                    <tr>
+                      <th>{t('admin.storage.path')}</th>
+                      <th>{t('admin.storage.size')}</th>
+                      <th>{t('admin.storage.uploaded')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.orphans.map((file) => (
+                      <tr key={file.path}>
+                        <td>{file.path}</td>
+                        <td>{formatSize(file.size)}</td>
+                        <td>{file.createdAt ? new Date(file.createdAt).toLocaleString(locale) : '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="form-section">
+              <h2>{t('admin.storage.broken')}</h2>
+              {report.broken.length === 0 ? (
+                <p className="no-posters">{t('admin.storage.noBroken')}</p>
+              ) : (
+                <table className="storage-table">
+                  <thead>
+                    <tr>
+                      <th>{t('common.poster')}</th>
+                      <th>{t('admin.storage.missing')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.broken.map((poster) => (
+                      <tr key={poster.id} className="failed">
+                        <td>
+                          {poster.title} (#{poster.id})
+                        </td>
+                        <td>{poster.missingPaths.join(', ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
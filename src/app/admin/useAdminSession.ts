@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { getRole, type Role } from '@/lib/roles';
+
+// Guards an admin page: sends visitors without a dashboard role to /admin/login and
+// brings them back here afterwards. `role` stays null until the check has passed.
+export function useAdminSession() {
+  const router = useRouter();
+  const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+
+  useEffect(() => {
+    const redirectToLogin = () => {
+      router.replace(`/admin/login?next=${encodeURIComponent(window.location.pathname)}`);
+    };
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      const sessionRole = getRole(session?.user);
+      if (!session || !sessionRole) {
+        redirectToLogin();
+        return;
+      }
+      setUser(session.user);
+      setRole(sessionRole);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_OUT') redirectToLogin();
+    });
+
+    return () => subscription.unsubscribe();
+  }, [router]);
+
+  const signOut = () => supabase.auth.signOut();
+
+  return { user, role, signOut };
+}
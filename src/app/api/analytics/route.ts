@@ -0,0 +1,128 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import {
+  conversionRate,
+  type AnalyticsReport,
+  type CategoryStats,
+  type DailyStats,
+  type EventCounts,
+  type PosterStats,
+} from '@/lib/analytics';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+// A poster needs this many editor opens before a low save rate says anything
+const RARELY_SAVED_MIN_OPENS = 5;
+const RARELY_SAVED_MAX_RATE = 0.2;
+// Length of the top and rarely saved poster lists
+const POSTER_LIST_LIMIT = 10;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Postgres counts arrive as bigint, which PostgREST may send as strings
+const countsFromRow = (row: any): EventCounts => ({
+  downloads: Number(row?.downloads ?? 0),
+  customizedDownloads: Number(row?.customized_downloads ?? 0),
+  editorOpens: Number(row?.editor_opens ?? 0),
+});
+
+const posterFromRow = (row: any): PosterStats => {
+  const counts = countsFromRow(row);
+  return {
+    posterId: row.poster_id,
+    title: row.title,
+    category: row.category,
+    isEditable: row.is_editable,
+    ...counts,
+    conversionRate: conversionRate(counts),
+  };
+};
+
+// GET ?from=YYYY-MM-DD&to=YYYY-MM-DD, both inclusive UTC days; defaults to the last 30 days.
+export async function GET(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'view');
+    if (auth.response) return auth.response;
+
+    const { searchParams } = new URL(request.url);
+    const toParam = searchParams.get('to');
+    const fromParam = searchParams.get('from');
+    if ((toParam && !DATE.test(toParam)) || (fromParam && !DATE.test(fromParam))) {
+      return NextResponse.json({ error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const to = toParam ?? toDay(new Date());
+    const from = fromParam ?? toDay(new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS));
+    const start = Date.parse(from);
+    const end = Date.parse(to) + DAY_MS;
+    if (Number.isNaN(start) || Number.isNaN(end) || start >= end) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+    if (end - start > MAX_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json({ error: `Date range can span at most ${MAX_RANGE_DAYS} days` }, { status: 400 });
+    }
+
+    // Everything is aggregated and limited in SQL, so results stay whole however many
+    // posters there are
+    const range = { p_from: new Date(start).toISOString(), p_to: new Date(end).toISOString() };
+    const results = await Promise.all([
+      supabase.rpc('analytics_totals', range).single(),
+      supabase.rpc('analytics_category_stats', range),
+      supabase.rpc('analytics_top_posters', { ...range, p_limit: POSTER_LIST_LIMIT }),
+      supabase.rpc('analytics_rarely_saved', {
+        ...range,
+        p_min_opens: RARELY_SAVED_MIN_OPENS,
+        p_max_rate: RARELY_SAVED_MAX_RATE,
+        p_limit: POSTER_LIST_LIMIT,
+      }),
+      supabase.rpc('analytics_daily', range),
+    ]);
+
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      console.error('API Route: Analytics query error:', failed.error);
+      return NextResponse.json({ error: 'Failed to load analytics: ' + failed.error!.message }, { status: 400 });
+    }
+    const [totalsResult, categoryResult, topResult, rarelySavedResult, dailyResult] = results;
+
+    const categories: CategoryStats[] = (categoryResult.data ?? []).map((row: any) => ({
+      category: row.category,
+      ...countsFromRow(row),
+    }));
+
+    // Fill in quiet days so the chart shows them as gaps rather than skipping them
+    const dailyByDay = new Map<string, any>((dailyResult.data ?? []).map((row: any) => [row.day, row]));
+    const daily: DailyStats[] = [];
+    for (let time = start; time < end; time += DAY_MS) {
+      const day = toDay(new Date(time));
+      const row = dailyByDay.get(day);
+      daily.push({ day, ...countsFromRow(row) });
+    }
+
+    const totals = countsFromRow(totalsResult.data);
+
+    const report: AnalyticsReport = {
+      from,
+      to,
+      totals: { ...totals, conversionRate: conversionRate(totals) },
+      topPosters: (topResult.data ?? []).map(posterFromRow),
+      categories,
+      daily,
+      rarelySaved: (rarelySavedResult.data ?? []).map(posterFromRow),
+    };
+
+    return NextResponse.json(report, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to load analytics: ' + error.message }, { status: 500 });
+  }
+}
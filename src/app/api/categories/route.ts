@@ -0,0 +1,139 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { categoryFromRow, categoryToRow, validateCategory } from '@/lib/categories';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const COLUMNS = 'id, name, slug, sort_order, icon, is_active';
+
+// Postgres error codes surfaced as friendlier messages
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+// Active categories in display order. `?include=inactive` (dashboard users only) returns all.
+export async function GET(request: Request) {
+  try {
+    const includeInactive = new URL(request.url).searchParams.get('include') === 'inactive';
+    if (includeInactive) {
+      const auth = await requirePermission(request, 'view');
+      if (auth.response) return auth.response;
+    }
+
+    let query = supabase.from('categories').select(COLUMNS);
+    if (!includeInactive) query = query.eq('is_active', true);
+    const { data, error } = await query.order('sort_order').order('name');
+
+    if (error) {
+      console.error('API Route: Categories fetch error:', error);
+      return NextResponse.json({ error: 'Failed to load categories: ' + error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ categories: (data ?? []).map(categoryFromRow) }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to load categories: ' + error.message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { category, error: validationError } = validateCategory(await request.json());
+    if (!category) {
+      return NextResponse.json({ error: 'Invalid category: ' + validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.from('categories').insert([categoryToRow(category)]).select(COLUMNS).single();
+
+    if (error) {
+      console.error('API Route: Category insert error:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        return NextResponse.json({ error: 'A category with this name or slug already exists' }, { status: 409 });
+      }
+      return NextResponse.json({ error: 'Failed to create category: ' + error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ category: categoryFromRow(data) }, { status: 201 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to create category: ' + error.message }, { status: 500 });
+  }
+}
+
+// Renaming a category renames it on its posters too (posters_category_fkey cascades).
+export async function PUT(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { id, ...fields } = await request.json();
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Missing category id' }, { status: 400 });
+    }
+
+    const { category, error: validationError } = validateCategory(fields);
+    if (!category) {
+      return NextResponse.json({ error: 'Invalid category: ' + validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('categories')
+      .update(categoryToRow(category))
+      .eq('id', id)
+      .select(COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('API Route: Category update error:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        return NextResponse.json({ error: 'A category with this name or slug already exists' }, { status: 409 });
+      }
+      return NextResponse.json({ error: 'Failed to update category: ' + error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ category: categoryFromRow(data) }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to update category: ' + error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'delete');
+    if (auth.response) return auth.response;
+
+    const { id } = await request.json();
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Missing category id' }, { status: 400 });
+    }
+
+    const { error } = await supabase.from('categories').delete().eq('id', id);
+
+    if (error) {
+      console.error('API Route: Category delete error:', error);
+      if (error.code === FOREIGN_KEY_VIOLATION) {
+        return NextResponse.json(
+          { error: 'Posters still use this category. Move them or deactivate the category instead.' },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json({ error: 'Failed to delete category: ' + error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ message: 'Category deleted successfully' }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to delete category: ' + error.message }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -7,40 +8,65 @@ const supabase = createClient(
   { auth: { autoRefreshToken: false, persistSession: false } }
 );
 
+// Deletes a poster with everything it owns in storage: its own files (storage_paths) and
+// the photos of designs shared from it, whose rows go with the poster (on delete cascade).
 export async function DELETE(request: Request) {
   try {
-    const { id, filename } = await request.json();
+    const auth = await requirePermission(request, 'delete');
+    if (auth.response) return auth.response;
 
-    if (!id || !filename) {
-      console.error('API Route: Missing id or filename');
-      return NextResponse.json({ error: 'Missing id or filename' }, { status: 400 });
+    const { id } = await request.json();
+
+    if (!Number.isInteger(id)) {
+      console.error('API Route: Missing poster id');
+      return NextResponse.json({ error: 'Missing poster id' }, { status: 400 });
     }
 
-    // Delete from storage
-    const { error: storageError } = await supabase.storage
-      .from('posters')
-      .remove([filename]);
+    const { data: designs, error: designsError } = await supabase
+      .from('designs')
+      .select('photo_path')
+      .eq('poster_id', id)
+      .not('photo_path', 'is', null);
 
-    if (storageError) {
-      console.error('API Route: Storage delete error:', storageError);
-      return NextResponse.json({ error: 'Failed to delete file: ' + storageError.message }, { status: 400 });
+    if (designsError) {
+      console.error('API Route: Designs fetch error:', designsError);
+      return NextResponse.json({ error: 'Failed to delete poster: ' + designsError.message }, { status: 400 });
     }
 
-    // Delete from table
-    const { error: dbError } = await supabase
+    // Delete the row first: a poster whose files are gone would show up broken, while files
+    // left behind by a failed removal are invisible and can be cleaned up later
+    const { data: poster, error: dbError } = await supabase
       .from('posters')
       .delete()
-      .eq('id', id);
+      .eq('id', id)
+      .select('storage_paths')
+      .maybeSingle();
 
     if (dbError) {
       console.error('API Route: Database delete error:', dbError);
       return NextResponse.json({ error: 'Failed to delete poster: ' + dbError.message }, { status: 400 });
     }
+    if (!poster) {
+      return NextResponse.json({ error: 'Poster not found' }, { status: 404 });
+    }
+
+    const paths = [...poster.storage_paths, ...(designs ?? []).map((design) => design.photo_path as string)];
+    if (paths.length > 0) {
+      const { error: storageError } = await supabase.storage.from('posters').remove(paths);
+
+      if (storageError) {
+        console.error('API Route: Storage delete error, objects left behind:', paths, storageError);
+        return NextResponse.json(
+          { message: 'Poster deleted', warning: 'Some files could not be removed: ' + storageError.message },
+          { status: 200 }
+        );
+      }
+    }
 
-    console.log('API Route: Poster deleted successfully:', { id, filename });
+    console.log('API Route: Poster deleted successfully:', { id, paths });
     return NextResponse.json({ message: 'Poster deleted successfully' }, { status: 200 });
   } catch (error: any) {
     console.error('API Route: General error:', error);
     return NextResponse.json({ error: 'Delete failed: ' + error.message }, { status: 500 });
   }
-}
\ No newline at end of file
+}
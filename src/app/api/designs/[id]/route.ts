@@ -0,0 +1,43 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+
+    const { data: design, error } = await supabase
+      .from('designs')
+      .select('id, poster_id, parent_id, state, photo_path')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('API Route: Design lookup error:', error);
+      return NextResponse.json({ error: 'Failed to load design: ' + error.message }, { status: 400 });
+    }
+    if (!design) {
+      return NextResponse.json({ error: 'Design not found' }, { status: 404 });
+    }
+
+    const photoUrl = design.photo_path
+      ? supabase.storage.from('posters').getPublicUrl(design.photo_path).data.publicUrl
+      : null;
+
+    return NextResponse.json({
+      id: design.id,
+      posterId: design.poster_id,
+      parentId: design.parent_id,
+      state: design.state,
+      photoUrl,
+    });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to load design: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { randomInt } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { validateCustomization } from '@/lib/customization';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+const PHOTO_TYPES = ['image/png', 'image/jpeg'];
+const ID_ALPHABET = 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ID_LENGTH = 8;
+
+const generateId = () => Array.from({ length: ID_LENGTH }, () => ID_ALPHABET[randomInt(ID_ALPHABET.length)]).join('');
+
+// Stores a customization so it can be opened by anyone with the link. Designs are immutable;
+// sharing an edited copy of a shared design creates a new one with `parentId` set.
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const posterId = Number(formData.get('posterId'));
+    const stateJson = formData.get('state') as string | null;
+    const parentId = (formData.get('parentId') as string | null) || null;
+    const photo = formData.get('photo') as File | null;
+
+    if (!posterId || !stateJson) {
+      return NextResponse.json({ error: 'Missing posterId or state' }, { status: 400 });
+    }
+
+    let parsedState: unknown;
+    try {
+      parsedState = JSON.parse(stateJson);
+    } catch {
+      return NextResponse.json({ error: 'State is not valid JSON' }, { status: 400 });
+    }
+    const { state, error: stateError } = validateCustomization(parsedState);
+    if (!state) {
+      return NextResponse.json({ error: 'Invalid customization: ' + stateError }, { status: 400 });
+    }
+
+    if (photo && (photo.size > MAX_PHOTO_SIZE || !PHOTO_TYPES.includes(photo.type))) {
+      return NextResponse.json({ error: 'Photo must be a PNG or JPEG under 5MB' }, { status: 400 });
+    }
+
+    const { data: poster, error: posterError } = await supabase
+      .from('posters')
+      .select('id, is_editable')
+      .eq('id', posterId)
+      .single();
+
+    if (posterError || !poster) {
+      console.error('API Route: Design poster lookup error:', posterError);
+      return NextResponse.json({ error: 'Poster not found' }, { status: 404 });
+    }
+    if (!poster.is_editable) {
+      return NextResponse.json({ error: 'Poster is not editable' }, { status: 400 });
+    }
+
+    const id = generateId();
+
+    let photoPath: string | null = null;
+    if (photo) {
+      photoPath = `designs/${id}.${photo.type === 'image/png' ? 'png' : 'jpg'}`;
+      const { error: uploadError } = await supabase.storage
+        .from('posters')
+        .upload(photoPath, photo, { contentType: photo.type });
+
+      if (uploadError) {
+        console.error('API Route: Design photo upload error:', uploadError);
+        return NextResponse.json({ error: 'Failed to store photo: ' + uploadError.message }, { status: 400 });
+      }
+    }
+
+    const { error: dbError } = await supabase.from('designs').insert([
+      { id, poster_id: posterId, parent_id: parentId, state, photo_path: photoPath },
+    ]);
+
+    if (dbError) {
+      console.error('API Route: Design insert error:', dbError);
+      if (photoPath) await supabase.storage.from('posters').remove([photoPath]);
+      return NextResponse.json({ error: 'Failed to save design: ' + dbError.message }, { status: 400 });
+    }
+
+    console.log('API Route: Design shared:', { id, posterId, parentId });
+    return NextResponse.json({ id, url: `/users/wishme?design=${id}` }, { status: 201 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Share failed: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const DOWNLOAD_KINDS = ['plain', 'customized'];
+const MAX_SESSION_ID_LENGTH = 64;
+
+// Counts a poster download and logs it, atomically (see record_download in supabase/migrations).
+export async function POST(request: Request) {
+  try {
+    const { posterId, kind, sessionId } = await request.json();
+
+    if (!Number.isInteger(posterId) || !DOWNLOAD_KINDS.includes(kind)) {
+      return NextResponse.json({ error: 'Missing posterId or invalid kind' }, { status: 400 });
+    }
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || sessionId.length > MAX_SESSION_ID_LENGTH)) {
+      return NextResponse.json({ error: 'Invalid sessionId' }, { status: 400 });
+    }
+
+    const { data: downloadCount, error } = await supabase.rpc('record_download', {
+      p_poster_id: posterId,
+      p_kind: kind,
+      p_session_id: sessionId ?? null,
+    });
+
+    if (error) {
+      console.error('API Route: Record download error:', error);
+      return NextResponse.json({ error: 'Failed to record download: ' + error.message }, { status: 400 });
+    }
+    if (downloadCount === null) {
+      return NextResponse.json({ error: 'Poster not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ downloadCount }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to record download: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,169 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { contentTypeFor, type ImportResult } from '@/lib/bulkImport';
+import { getDriveSource, titleFromFileName, type DriveListing } from '@/lib/drive';
+import { DEFAULT_FONT, isAvailableFont } from '@/lib/fonts';
+import { uploadPoster } from '@/lib/posterUpload';
+import { MAX_FILE_SIZE, formatMegabytes } from '@/lib/uploads';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const MAX_FILES_PER_IMPORT = 50;
+
+const folderId = () => process.env.GOOGLE_DRIVE_FOLDER_ID ?? '';
+
+const importedIds = async (ids: string[]) => {
+  if (ids.length === 0) return new Set<string>();
+  const { data, error } = await supabase.from('posters').select('drive_file_id').in('drive_file_id', ids);
+  if (error) throw new Error('Failed to check imported files: ' + error.message);
+  return new Set((data ?? []).map((row) => row.drive_file_id as string));
+};
+
+// Images and PSDs in the configured folder (GOOGLE_DRIVE_FOLDER_ID), newest first
+export async function GET(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    if (!folderId() && !process.env.DRIVE_STUB_DIR) {
+      return NextResponse.json({ error: 'GOOGLE_DRIVE_FOLDER_ID is not configured' }, { status: 400 });
+    }
+
+    const [files, { data: categories, error: categoriesError }] = await Promise.all([
+      getDriveSource().listFiles(folderId()),
+      supabase.from('categories').select('name').eq('is_active', true),
+    ]);
+    if (categoriesError) {
+      console.error('API Route: Categories fetch error:', categoriesError);
+      return NextResponse.json({ error: 'Failed to load categories: ' + categoriesError.message }, { status: 400 });
+    }
+
+    const imported = await importedIds(files.map((file) => file.id));
+    const categoryNames = (categories ?? []).map((c) => c.name as string);
+    const matchCategory = (folder: string | undefined) =>
+      categoryNames.find((name) => name.toLowerCase() === folder?.trim().toLowerCase()) ?? null;
+
+    const listing: DriveListing[] = files
+      .map((file) => ({
+        ...file,
+        title: titleFromFileName(file.name),
+        category: matchCategory(file.folders[0]),
+        imported: imported.has(file.id),
+      }))
+      .sort((a, b) => (b.modifiedTime ?? '').localeCompare(a.modifiedTime ?? ''));
+
+    return NextResponse.json({ files: listing }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: Drive listing error:', error);
+    return NextResponse.json({ error: 'Failed to list Drive files: ' + error.message }, { status: 500 });
+  }
+}
+
+// POST { files: [{ id, title, category, isEditable?, fontFamily? }] }
+// Imports each file on its own through the upload pipeline; files imported before are skipped.
+// Names and sizes come from a fresh listing of the folder, so only its files are imported
+// and oversized ones are turned away before they are downloaded.
+export async function POST(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { files } = await request.json();
+    if (!Array.isArray(files) || files.length === 0) {
+      return NextResponse.json({ error: 'No files selected' }, { status: 400 });
+    }
+    if (files.length > MAX_FILES_PER_IMPORT) {
+      return NextResponse.json({ error: `Import at most ${MAX_FILES_PER_IMPORT} files at a time` }, { status: 400 });
+    }
+
+    if (!folderId() && !process.env.DRIVE_STUB_DIR) {
+      return NextResponse.json({ error: 'GOOGLE_DRIVE_FOLDER_ID is not configured' }, { status: 400 });
+    }
+
+    const drive = getDriveSource();
+    const [listing, imported, { data: fonts, error: fontsError }] = await Promise.all([
+      drive.listFiles(folderId()),
+      importedIds(files.map((file: any) => String(file?.id))),
+      supabase.from('fonts').select('name').eq('is_active', true),
+    ]);
+    if (fontsError) {
+      console.error('API Route: Fonts fetch error:', fontsError);
+      return NextResponse.json({ error: 'Failed to load fonts: ' + fontsError.message }, { status: 400 });
+    }
+    const driveFiles = new Map(listing.map((file) => [file.id, file]));
+    const results: ImportResult[] = [];
+
+    for (const [index, selection] of files.entries()) {
+      const title = typeof selection?.title === 'string' ? selection.title.trim() : '';
+      const result = (fields: Partial<ImportResult>) => results.push({ row: index + 1, title, ok: false, ...fields });
+
+      try {
+        const id = typeof selection?.id === 'string' ? selection.id : '';
+        const driveFile = driveFiles.get(id);
+        const contentType = driveFile && contentTypeFor(driveFile.name);
+        if (!driveFile || !contentType) {
+          result({ error: 'Not an image or PSD in the Drive folder' });
+          continue;
+        }
+        if (imported.has(id)) {
+          result({ skipped: true, error: 'Already imported' });
+          continue;
+        }
+        if (driveFile.size !== null && driveFile.size > MAX_FILE_SIZE) {
+          result({ error: `File exceeds maximum limit of ${formatMegabytes(MAX_FILE_SIZE)}` });
+          continue;
+        }
+        const fontFamily = typeof selection.fontFamily === 'string' ? selection.fontFamily : DEFAULT_FONT;
+        if (!isAvailableFont(fontFamily, fonts ?? [])) {
+          result({ error: `Unknown font: ${fontFamily}` });
+          continue;
+        }
+
+        const data = await drive.download(id);
+        // Drive doesn't report a size for every file
+        if (data.length > MAX_FILE_SIZE) {
+          result({ error: `File exceeds maximum limit of ${formatMegabytes(MAX_FILE_SIZE)}` });
+          continue;
+        }
+
+        const { poster, error } = await uploadPoster(supabase, {
+          file: { name: driveFile.name, type: contentType, data },
+          thumbnail: null,
+          title,
+          category: typeof selection.category === 'string' ? selection.category : '',
+          isEditable: selection.isEditable === true,
+          fontFamily,
+          tags: '',
+          description: null,
+          template: null,
+          driveFileId: id,
+        });
+
+        if (poster) {
+          imported.add(id);
+          result({ ok: true, downloadLink: poster.downloadLink });
+        } else {
+          result({ error });
+        }
+      } catch (rowError: any) {
+        console.error(`API Route: Drive import file ${index + 1} error:`, rowError);
+        result({ error: 'Import failed: ' + rowError.message });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.ok).length;
+    const skipped = results.filter((r) => r.skipped).length;
+    return NextResponse.json(
+      { results, imported: succeeded, skipped, failed: results.length - succeeded - skipped },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('API Route: Drive import error:', error);
+    return NextResponse.json({ error: 'Drive import failed: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const EDITOR_EVENT_KINDS = ['open'];
+const MAX_SESSION_ID_LENGTH = 64;
+
+// Logs WishMe editor usage for the admin analytics page. Downloads are logged by /api/downloads.
+export async function POST(request: Request) {
+  try {
+    const { posterId, kind, sessionId } = await request.json();
+
+    if (!Number.isInteger(posterId) || !EDITOR_EVENT_KINDS.includes(kind)) {
+      return NextResponse.json({ error: 'Missing posterId or invalid kind' }, { status: 400 });
+    }
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || sessionId.length > MAX_SESSION_ID_LENGTH)) {
+      return NextResponse.json({ error: 'Invalid sessionId' }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('editor_events')
+      .insert([{ poster_id: posterId, kind, session_id: sessionId ?? null }]);
+
+    if (error) {
+      console.error('API Route: Editor event insert error:', error);
+      return NextResponse.json({ error: 'Failed to record event: ' + error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ message: 'Event recorded' }, { status: 201 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to record event: ' + error.message }, { status: 500 });
+  }
+}
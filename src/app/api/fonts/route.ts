@@ -0,0 +1,186 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { slugify } from '@/lib/categories';
+import {
+  detectFontFormat,
+  FONT_FILE_TYPES,
+  fontFromRow,
+  MAX_FONT_SIZE,
+  validateFontDetails,
+  validateFontName,
+} from '@/lib/fonts';
+import { isRenderableFont } from '@/lib/render';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const COLUMNS = 'id, name, scripts, format, file_url, is_active';
+
+// Postgres error code surfaced as a friendlier message
+const UNIQUE_VIOLATION = '23505';
+
+// Active fonts by name. `?include=inactive` (dashboard users only) returns all.
+export async function GET(request: Request) {
+  try {
+    const includeInactive = new URL(request.url).searchParams.get('include') === 'inactive';
+    if (includeInactive) {
+      const auth = await requirePermission(request, 'view');
+      if (auth.response) return auth.response;
+    }
+
+    let query = supabase.from('fonts').select(COLUMNS);
+    if (!includeInactive) query = query.eq('is_active', true);
+    const { data, error } = await query.order('name');
+
+    if (error) {
+      console.error('API Route: Fonts fetch error:', error);
+      return NextResponse.json({ error: 'Failed to load fonts: ' + error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ fonts: (data ?? []).map(fontFromRow) }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to load fonts: ' + error.message }, { status: 500 });
+  }
+}
+
+// Multipart upload: `file` (TTF, OTF or WOFF2), `name`, and `scripts` as a comma-separated list
+export async function POST(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const scripts = ((formData.get('scripts') as string | null) ?? '').split(',').filter(Boolean);
+
+    const { name, error: nameError } = validateFontName(formData.get('name'));
+    if (!name) return NextResponse.json({ error: 'Invalid font: ' + nameError }, { status: 400 });
+    const { details, error: detailsError } = validateFontDetails({ scripts: scripts.length ? scripts : undefined });
+    if (!details) return NextResponse.json({ error: 'Invalid font: ' + detailsError }, { status: 400 });
+
+    if (!file || !file.size) return NextResponse.json({ error: 'Missing font file' }, { status: 400 });
+    if (file.size > MAX_FONT_SIZE) {
+      return NextResponse.json({ error: 'Font files must be under 10MB' }, { status: 400 });
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const format = detectFontFormat(data);
+    if (!format) {
+      return NextResponse.json({ error: 'File is not a TTF, OTF or WOFF2 font' }, { status: 400 });
+    }
+    // Exports are drawn on the server, so a font it can't read would silently fall back there
+    if (!isRenderableFont(data)) {
+      return NextResponse.json({ error: 'This font file could not be read by the poster renderer' }, { status: 400 });
+    }
+
+    const { extension, contentType } = FONT_FILE_TYPES[format];
+    const filePath = `fonts/${slugify(name)}-${Date.now()}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from('posters')
+      .upload(filePath, data, { contentType, cacheControl: '31536000' });
+
+    if (uploadError) {
+      console.error('API Route: Font upload error:', uploadError);
+      return NextResponse.json({ error: 'Failed to store font: ' + uploadError.message }, { status: 400 });
+    }
+
+    const fileUrl = supabase.storage.from('posters').getPublicUrl(filePath).data.publicUrl;
+    const { data: row, error } = await supabase
+      .from('fonts')
+      .insert([
+        { name, scripts: details.scripts, format, file_path: filePath, file_url: fileUrl, is_active: details.isActive },
+      ])
+      .select(COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('API Route: Font insert error:', error);
+      await supabase.storage.from('posters').remove([filePath]);
+      if (error.code === UNIQUE_VIOLATION) {
+        return NextResponse.json({ error: 'A font with this name already exists' }, { status: 409 });
+      }
+      return NextResponse.json({ error: 'Failed to create font: ' + error.message }, { status: 400 });
+    }
+
+    console.log('API Route: Font uploaded:', { name, format, filePath });
+    return NextResponse.json({ font: fontFromRow(row) }, { status: 201 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to create font: ' + error.message }, { status: 500 });
+  }
+}
+
+// Updates scripts and the active flag. The name stays fixed, as posters and saved designs
+// refer to the font by it.
+export async function PUT(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { id, ...fields } = await request.json();
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Missing font id' }, { status: 400 });
+    }
+
+    const { details, error: validationError } = validateFontDetails(fields);
+    if (!details) {
+      return NextResponse.json({ error: 'Invalid font: ' + validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('fonts')
+      .update({ scripts: details.scripts, is_active: details.isActive })
+      .eq('id', id)
+      .select(COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('API Route: Font update error:', error);
+      return NextResponse.json({ error: 'Failed to update font: ' + error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Font not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ font: fontFromRow(data) }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to update font: ' + error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'delete');
+    if (auth.response) return auth.response;
+
+    const { id } = await request.json();
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Missing font id' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.from('fonts').delete().eq('id', id).select('file_path').maybeSingle();
+
+    if (error) {
+      console.error('API Route: Font delete error:', error);
+      return NextResponse.json({ error: 'Failed to delete font: ' + error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Font not found' }, { status: 404 });
+    }
+
+    // Text using the font falls back to the default font from here on
+    const { error: storageError } = await supabase.storage.from('posters').remove([data.file_path]);
+    if (storageError) console.error('API Route: Font file delete error:', storageError);
+
+    return NextResponse.json({ message: 'Font deleted successfully' }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to delete font: ' + error.message }, { status: 500 });
+  }
+}
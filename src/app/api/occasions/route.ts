@@ -0,0 +1,132 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { occasionFromRow, occasionToRow, validateOccasion } from '@/lib/occasions';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const COLUMNS = 'id, name, slug, icon, starts_on, ends_on, recurs_yearly, is_active';
+
+// Postgres error code surfaced as a friendlier message
+const UNIQUE_VIOLATION = '23505';
+
+// Active occasions by date. `?include=inactive` (dashboard users only) returns all.
+export async function GET(request: Request) {
+  try {
+    const includeInactive = new URL(request.url).searchParams.get('include') === 'inactive';
+    if (includeInactive) {
+      const auth = await requirePermission(request, 'view');
+      if (auth.response) return auth.response;
+    }
+
+    let query = supabase.from('occasions').select(COLUMNS);
+    if (!includeInactive) query = query.eq('is_active', true);
+    const { data, error } = await query.order('starts_on').order('name');
+
+    if (error) {
+      console.error('API Route: Occasions fetch error:', error);
+      return NextResponse.json({ error: 'Failed to load occasions: ' + error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ occasions: (data ?? []).map(occasionFromRow) }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to load occasions: ' + error.message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { occasion, error: validationError } = validateOccasion(await request.json());
+    if (!occasion) {
+      return NextResponse.json({ error: 'Invalid occasion: ' + validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.from('occasions').insert([occasionToRow(occasion)]).select(COLUMNS).single();
+
+    if (error) {
+      console.error('API Route: Occasion insert error:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        return NextResponse.json({ error: 'An occasion with this slug already exists' }, { status: 409 });
+      }
+      return NextResponse.json({ error: 'Failed to create occasion: ' + error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ occasion: occasionFromRow(data) }, { status: 201 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to create occasion: ' + error.message }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { id, ...fields } = await request.json();
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Missing occasion id' }, { status: 400 });
+    }
+
+    const { occasion, error: validationError } = validateOccasion(fields);
+    if (!occasion) {
+      return NextResponse.json({ error: 'Invalid occasion: ' + validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('occasions')
+      .update(occasionToRow(occasion))
+      .eq('id', id)
+      .select(COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('API Route: Occasion update error:', error);
+      if (error.code === UNIQUE_VIOLATION) {
+        return NextResponse.json({ error: 'An occasion with this slug already exists' }, { status: 409 });
+      }
+      return NextResponse.json({ error: 'Failed to update occasion: ' + error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Occasion not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ occasion: occasionFromRow(data) }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to update occasion: ' + error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'delete');
+    if (auth.response) return auth.response;
+
+    const { id } = await request.json();
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Missing occasion id' }, { status: 400 });
+    }
+
+    // Linked posters stay, unlinked (posters.occasion_id is set to null)
+    const { error } = await supabase.from('occasions').delete().eq('id', id);
+
+    if (error) {
+      console.error('API Route: Occasion delete error:', error);
+      return NextResponse.json({ error: 'Failed to delete occasion: ' + error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ message: 'Occasion deleted successfully' }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to delete occasion: ' + error.message }, { status: 500 });
+  }
+}
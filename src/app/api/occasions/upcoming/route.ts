@@ -0,0 +1,77 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { isCalendarDate, nextOccurrence, occasionFromRow, type UpcomingOccasion } from '@/lib/occasions';
+import { liveFilters } from '@/lib/publishing';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const OCCASION_COLUMNS = 'id, name, slug, icon, starts_on, ends_on, recurs_yearly, is_active';
+const POSTER_COLUMNS =
+  'id, title, category, download_url, psd_url, font_family, is_editable, created_at, download_count, psd_metadata, template, tags, description, image_variants, occasion_id, translations';
+// How far ahead the banner looks; further occasions aren't "upcoming" yet
+const WINDOW_DAYS = 45;
+const DEFAULT_LIMIT = 3;
+const MAX_LIMIT = 6;
+const POSTERS_PER_OCCASION = 8;
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+
+// GET ?from=<YYYY-MM-DD>&limit=<n>
+// The next occasions from `from` (the visitor's local date; defaults to today in UTC),
+// soonest first, each with its most downloaded live posters. Occasions without any live
+// posters are left out, since the banner would have nothing to show for them.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') || new Date().toISOString().slice(0, 10);
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    if (!isCalendarDate(from)) {
+      return NextResponse.json({ error: 'From must be a YYYY-MM-DD date' }, { status: 400 });
+    }
+
+    const { data: rows, error } = await supabase.from('occasions').select(OCCASION_COLUMNS).eq('is_active', true);
+
+    if (error) {
+      console.error('API Route: Occasions fetch error:', error);
+      return NextResponse.json({ error: 'Failed to load occasions: ' + error.message }, { status: 400 });
+    }
+
+    const until = addDays(from, WINDOW_DAYS);
+    const candidates = (rows ?? [])
+      .map(occasionFromRow)
+      .map((occasion) => ({ occasion, next: nextOccurrence(occasion, from) }))
+      .filter(({ next }) => next && next.startsOn <= until)
+      .sort((a, b) => a.next!.startsOn.localeCompare(b.next!.startsOn));
+
+    const upcoming: UpcomingOccasion[] = [];
+    for (const { occasion, next } of candidates) {
+      if (upcoming.length >= limit) break;
+
+      let query = supabase.from('posters').select(POSTER_COLUMNS).eq('occasion_id', occasion.id).eq('status', 'published');
+      for (const filter of liveFilters()) query = query.or(filter);
+      const { data: posters, error: postersError } = await query
+        .order('download_count', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(POSTERS_PER_OCCASION);
+
+      if (postersError) {
+        console.error('API Route: Occasion posters error:', postersError);
+        return NextResponse.json({ error: 'Failed to load posters: ' + postersError.message }, { status: 400 });
+      }
+      if (!posters?.length) continue;
+
+      upcoming.push({ ...occasion, nextStartsOn: next!.startsOn, nextEndsOn: next!.endsOn, posters });
+    }
+
+    return NextResponse.json({ occasions: upcoming }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to load upcoming occasions: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { liveFilters } from '@/lib/publishing';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const COLUMNS =
+  'id, title, category, download_url, psd_url, font_family, is_editable, created_at, download_count, psd_metadata, template, tags, description, image_variants, status, publish_at, unpublish_at, occasion_id, translations';
+
+// A single poster, for links (shared designs, drafts) to posters not on a loaded page.
+// Like /api/posters, it finds posters outside their publishing window only with `include=all`.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const id = Number((await params).id);
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Invalid poster id' }, { status: 400 });
+    }
+
+    const includeAll = new URL(request.url).searchParams.get('include') === 'all';
+    if (includeAll) {
+      const auth = await requirePermission(request, 'view');
+      if (auth.response) return auth.response;
+    }
+
+    let query = supabase.from('posters').select(COLUMNS).eq('id', id);
+    if (!includeAll) {
+      query = query.eq('status', 'published');
+      for (const filter of liveFilters()) query = query.or(filter);
+    }
+    const { data: poster, error } = await query.maybeSingle();
+
+    if (error) {
+      console.error('API Route: Poster lookup error:', error);
+      return NextResponse.json({ error: 'Failed to load poster: ' + error.message }, { status: 400 });
+    }
+    if (!poster) {
+      return NextResponse.json({ error: 'Poster not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ poster }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to load poster: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { storeVariants } from '@/lib/posterUpload';
+import { renderVariants } from '@/lib/render';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+// (Re)generates a poster's image variants from its preview image, for posters uploaded
+// before variants existed. Replaces any previous variants.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const id = Number((await params).id);
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Invalid poster id' }, { status: 400 });
+    }
+
+    const { data: poster, error } = await supabase
+      .from('posters')
+      .select('id, download_url, storage_paths')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('API Route: Poster lookup error:', error);
+      return NextResponse.json({ error: 'Failed to load poster: ' + error.message }, { status: 400 });
+    }
+    if (!poster) {
+      return NextResponse.json({ error: 'Poster not found' }, { status: 404 });
+    }
+    if (!poster.download_url) {
+      return NextResponse.json({ error: 'Poster has no preview image to render variants from' }, { status: 400 });
+    }
+
+    const source = await fetch(poster.download_url);
+    if (!source.ok) {
+      return NextResponse.json({ error: `Could not fetch preview image: HTTP ${source.status}` }, { status: 400 });
+    }
+
+    let rendered;
+    try {
+      rendered = await renderVariants(Buffer.from(await source.arrayBuffer()));
+    } catch (renderError: any) {
+      console.error('Variant render error:', renderError);
+      return NextResponse.json({ error: 'Could not read image: ' + renderError.message }, { status: 400 });
+    }
+
+    const newPaths: string[] = [];
+    const discard = async (paths: string[]) => {
+      if (paths.length === 0) return;
+      const { error: removeError } = await supabase.storage.from('posters').remove(paths);
+      if (removeError) console.error('API Route: Variant cleanup error, objects left in storage:', paths, removeError);
+    };
+
+    const { imageVariants, error: storeError } = await storeVariants(supabase, `${id}-${Date.now()}`, rendered, newPaths);
+    if (!imageVariants) {
+      await discard(newPaths);
+      return NextResponse.json({ error: storeError }, { status: 400 });
+    }
+
+    const storagePaths: string[] = poster.storage_paths ?? [];
+    const oldVariantPaths = storagePaths.filter((path) => path.startsWith('variants/'));
+    const { error: updateError } = await supabase
+      .from('posters')
+      .update({
+        image_variants: imageVariants,
+        storage_paths: [...storagePaths.filter((path) => !path.startsWith('variants/')), ...newPaths],
+      })
+      .eq('id', id);
+
+    if (updateError) {
+      console.error('API Route: Poster update error:', updateError);
+      await discard(newPaths);
+      return NextResponse.json({ error: 'Failed to save variants: ' + updateError.message }, { status: 400 });
+    }
+
+    await discard(oldVariantPaths);
+    return NextResponse.json({ imageVariants }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to generate variants: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { liveFilters } from '@/lib/publishing';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const COLUMNS =
+  'id, title, category, download_url, psd_url, font_family, is_editable, created_at, download_count, psd_metadata, template, tags, description, image_variants, status, publish_at, unpublish_at, occasion_id, translations';
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+
+// Each sort is keyed on one column, then `id` to break ties, so a cursor of
+// [last value, last id] picks up exactly where the previous page ended.
+const SORT_COLUMNS = {
+  relevance: 'rank',
+  latest: 'created_at',
+  popular: 'download_count',
+} as const;
+
+type Sort = keyof typeof SORT_COLUMNS;
+
+const encodeCursor = (value: unknown, id: number) => Buffer.from(JSON.stringify([value, id])).toString('base64url');
+
+const decodeCursor = (cursor: string): [string | number, number] | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const [value, id] = parsed;
+    if (!Array.isArray(parsed) || !['string', 'number'].includes(typeof value) || !Number.isInteger(id)) return null;
+    return [value, id];
+  } catch {
+    return null;
+  }
+};
+
+// GET ?q=<text>&category=<name>&sort=relevance|latest|popular&cursor=<nextCursor>&limit=<n>&include=all
+// With `q`, runs full-text search over title, tags, description and their translations
+// (see search_posters); `relevance` is the default sort then and is only available then.
+// Only posters inside their publishing window are listed; `include=all` lists drafts,
+// scheduled, expired and archived posters too, for signed-in admins.
+// Returns { posters, nextCursor }, where nextCursor is null on the last page.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const q = searchParams.get('q')?.trim() ?? '';
+    const category = searchParams.get('category') || null;
+    const sort = (searchParams.get('sort') || (q ? 'relevance' : 'latest')) as Sort;
+    const cursorParam = searchParams.get('cursor');
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const includeAll = searchParams.get('include') === 'all';
+
+    if (includeAll) {
+      const auth = await requirePermission(request, 'view');
+      if (auth.response) return auth.response;
+    }
+
+    if (q.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ error: `Search text must be at most ${MAX_QUERY_LENGTH} characters` }, { status: 400 });
+    }
+    if (!(sort in SORT_COLUMNS) || (sort === 'relevance' && !q)) {
+      return NextResponse.json({ error: 'Sort must be latest or popular, or relevance when searching' }, { status: 400 });
+    }
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const column = SORT_COLUMNS[sort];
+    let query = q
+      ? supabase.rpc('search_posters', { p_query: q }).select(`${COLUMNS}, rank`)
+      : supabase.from('posters').select(COLUMNS);
+
+    if (category) query = query.eq('category', category);
+    if (!includeAll) {
+      query = query.eq('status', 'published');
+      for (const filter of liveFilters()) query = query.or(filter);
+    }
+    if (cursor) {
+      // Quoted, since timestamps contain characters PostgREST treats as syntax
+      const value = JSON.stringify(cursor[0]);
+      query = query.or(`${column}.lt.${value},and(${column}.eq.${value},id.lt.${cursor[1]})`);
+    }
+
+    // One extra row tells whether another page follows
+    const { data, error } = await query
+      .order(column, { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (error) {
+      console.error('API Route: Posters query error:', error);
+      return NextResponse.json({ error: 'Failed to load posters: ' + error.message }, { status: 400 });
+    }
+
+    const rows = (data ?? []) as any[];
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = rows.length > limit ? encodeCursor(last[column], last.id) : null;
+
+    return NextResponse.json({ posters: page, nextCursor }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to load posters: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,160 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import {
+  POSTER_FOLDERS,
+  storagePathFromUrl,
+  type BrokenPoster,
+  type OrphanedFile,
+  type ReconcileReport,
+} from '@/lib/reconcile';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const PAGE_SIZE = 1000;
+const REMOVE_BATCH_SIZE = 100;
+// Younger files may belong to an upload still in progress, whose row isn't inserted yet
+const ORPHAN_MIN_AGE_MS = 60 * 60 * 1000;
+
+// The columns of a `posters` row the check reads
+interface PosterFilesRow {
+  id: number;
+  title: string;
+  download_url: string | null;
+  psd_url: string | null;
+  artwork_url: string | null;
+  storage_paths: string[] | null;
+  missing_files: string[] | null;
+}
+
+const listFolder = async (folder: string): Promise<OrphanedFile[]> => {
+  const files: OrphanedFile[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from('posters')
+      .list(folder, { limit: PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+    if (error) throw new Error(`Listing ${folder}/ failed: ${error.message}`);
+
+    // Entries without an id are subfolders
+    for (const item of data) {
+      if (!item.id) continue;
+      files.push({ path: `${folder}/${item.name}`, size: item.metadata?.size ?? null, createdAt: item.created_at ?? null });
+    }
+    if (data.length < PAGE_SIZE) return files;
+  }
+};
+
+const listPosters = async () => {
+  const posters: PosterFilesRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('posters')
+      .select('id, title, download_url, psd_url, artwork_url, storage_paths, missing_files')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error('Loading posters failed: ' + error.message);
+
+    posters.push(...data);
+    if (data.length < PAGE_SIZE) return posters;
+  }
+};
+
+// Everything a row points at in the scanned folders, from its recorded paths and its URLs
+const referencedPaths = (poster: PosterFilesRow): string[] =>
+  [
+    ...new Set<string>([
+      ...(poster.storage_paths ?? []),
+      storagePathFromUrl(poster.download_url),
+      storagePathFromUrl(poster.psd_url),
+      storagePathFromUrl(poster.artwork_url),
+    ].filter((path): path is string => !!path)),
+  ].filter((path) => POSTER_FOLDERS.some((folder) => path.startsWith(`${folder}/`)));
+
+// POST { dryRun = true, deleteOrphans = false, flagBroken = false }
+// Compares the objects under POSTER_FOLDERS with the posters table and reports files
+// no poster references (orphans) and posters referencing files that are gone (broken).
+// Nothing changes unless dryRun is false; then orphans are deleted and broken posters get
+// `missing_files` set as requested. Changing anything needs the delete permission.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body.dryRun !== false;
+    const deleteOrphans = body.deleteOrphans === true;
+    const flagBroken = body.flagBroken === true;
+
+    const auth = await requirePermission(request, dryRun ? 'view' : 'delete');
+    if (auth.response) return auth.response;
+
+    const files = (await Promise.all(POSTER_FOLDERS.map(listFolder))).flat();
+    const posters = await listPosters();
+
+    const stored = new Set(files.map((file) => file.path));
+    const referenced = new Set(posters.flatMap(referencedPaths));
+    const cutoff = Date.now() - ORPHAN_MIN_AGE_MS;
+
+    const orphans = files.filter(
+      (file) => !referenced.has(file.path) && (!file.createdAt || Date.parse(file.createdAt) < cutoff)
+    );
+    const broken: BrokenPoster[] = posters
+      .map((poster) => ({
+        id: poster.id,
+        title: poster.title,
+        missingPaths: referencedPaths(poster).filter((path) => !stored.has(path)),
+      }))
+      .filter((poster) => poster.missingPaths.length > 0);
+
+    const report: ReconcileReport = {
+      dryRun,
+      scannedFiles: files.length,
+      scannedPosters: posters.length,
+      orphans,
+      broken,
+      deletedOrphans: 0,
+      flaggedPosters: 0,
+      clearedPosters: 0,
+    };
+
+    if (!dryRun && deleteOrphans) {
+      for (let i = 0; i < orphans.length; i += REMOVE_BATCH_SIZE) {
+        const batch = orphans.slice(i, i + REMOVE_BATCH_SIZE).map((file) => file.path);
+        const { error } = await supabase.storage.from('posters').remove(batch);
+        if (error) {
+          console.error('API Route: Orphan delete error:', error);
+          return NextResponse.json(
+            { ...report, error: `Deleted ${report.deletedOrphans} orphans, then failed: ${error.message}` },
+            { status: 500 }
+          );
+        }
+        report.deletedOrphans += batch.length;
+      }
+    }
+
+    if (!dryRun && flagBroken) {
+      const brokenIds = new Set(broken.map((poster) => poster.id));
+      const cleared = posters.filter((poster) => !!poster.missing_files?.length && !brokenIds.has(poster.id));
+      const updates = [
+        ...broken.map((poster) => ({ id: poster.id, missingFiles: poster.missingPaths })),
+        ...cleared.map((poster) => ({ id: poster.id, missingFiles: [] as string[] })),
+      ];
+
+      for (const { id, missingFiles } of updates) {
+        const { error } = await supabase.from('posters').update({ missing_files: missingFiles }).eq('id', id);
+        if (error) {
+          console.error('API Route: Poster flag error:', error);
+          return NextResponse.json({ ...report, error: `Flagging poster ${id} failed: ${error.message}` }, { status: 500 });
+        }
+      }
+      report.flaggedPosters = broken.length;
+      report.clearedPosters = cleared.length;
+    }
+
+    return NextResponse.json(report, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Reconciliation failed: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { validateCustomization } from '@/lib/customization';
+import { registerFonts, renderCustomization } from '@/lib/render';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+const PHOTO_TYPES = ['image/png', 'image/jpeg'];
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const posterId = Number(formData.get('posterId'));
+    const stateJson = formData.get('state') as string | null;
+    const photo = formData.get('photo') as File | null;
+
+    if (!posterId || !stateJson) {
+      return NextResponse.json({ error: 'Missing posterId or state' }, { status: 400 });
+    }
+
+    let parsedState: unknown;
+    try {
+      parsedState = JSON.parse(stateJson);
+    } catch {
+      return NextResponse.json({ error: 'State is not valid JSON' }, { status: 400 });
+    }
+    const { state, error: stateError } = validateCustomization(parsedState);
+    if (!state) {
+      return NextResponse.json({ error: 'Invalid customization: ' + stateError }, { status: 400 });
+    }
+
+    if (photo && (photo.size > MAX_PHOTO_SIZE || !PHOTO_TYPES.includes(photo.type))) {
+      return NextResponse.json({ error: 'Photo must be a PNG or JPEG under 5MB' }, { status: 400 });
+    }
+
+    const { data: poster, error: dbError } = await supabase
+      .from('posters')
+      .select('id, title, download_url, artwork_url, is_editable')
+      .eq('id', posterId)
+      .single();
+
+    if (dbError || !poster) {
+      console.error('Render: Poster lookup error:', dbError);
+      return NextResponse.json({ error: 'Poster not found' }, { status: 404 });
+    }
+    if (!poster.is_editable) {
+      return NextResponse.json({ error: 'Poster is not editable' }, { status: 400 });
+    }
+
+    // artwork_url holds the full-size image (or the composite rendered from the PSD). Posters
+    // stored before it existed fall back to download_url.
+    const artworkUrl = poster.artwork_url || poster.download_url;
+    const artworkResponse = await fetch(artworkUrl);
+    if (!artworkResponse.ok) {
+      console.error('Render: Artwork fetch failed:', artworkResponse.status, artworkUrl);
+      return NextResponse.json({ error: 'Failed to load poster artwork' }, { status: 502 });
+    }
+    const artwork = Buffer.from(await artworkResponse.arrayBuffer());
+    const photoBuffer = photo ? Buffer.from(await photo.arrayBuffer()) : null;
+
+    // Library fonts the layers use, inactive ones included so older designs still export
+    // in the font they were made with. Other families are system fonts.
+    const families = [...new Set(state.texts.map((layer) => layer.fontFamily))];
+    const { data: fonts, error: fontsError } = await supabase.from('fonts').select('name, file_url').in('name', families);
+    if (fontsError) {
+      console.error('Render: Font lookup error:', fontsError);
+      return NextResponse.json({ error: 'Failed to load fonts: ' + fontsError.message }, { status: 400 });
+    }
+    try {
+      await registerFonts((fonts ?? []).map((font) => ({ name: font.name, url: font.file_url })));
+    } catch (error: any) {
+      console.error('Render: Font load failed:', error);
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+
+    const png = await renderCustomization(artwork, state, photoBuffer);
+
+    return new NextResponse(new Uint8Array(png), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(poster.title)}-customized.png"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('Render error:', error);
+    return NextResponse.json({ error: 'Render failed: ' + error.message }, { status: 500 });
+  }
+}
@@ -1,5 +1,10 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { validateTemplate, type PosterTemplate } from '@/lib/template';
+import { MAX_DESCRIPTION_LENGTH, normalizeTags } from '@/lib/tags';
+import { validateSchedule, type PosterStatus } from '@/lib/publishing';
+import { validateTranslations, type PosterTranslations } from '@/lib/i18n';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -9,16 +14,116 @@ const supabase = createClient(
 
 export async function PUT(request: Request) {
   try {
-    const { id, title, category } = await request.json();
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const {
+      id,
+      title,
+      category,
+      fontFamily,
+      isEditable,
+      template,
+      tags,
+      description,
+      status,
+      publishAt,
+      unpublishAt,
+      occasionId,
+      translations,
+    } = await request.json();
 
     if (!id || !title || !category) {
       console.error('API Route: Missing id, title, or category');
       return NextResponse.json({ error: 'Missing id, title, or category' }, { status: 400 });
     }
 
+    // Inactive categories are fine here: the poster may already be in one
+    const { data: categoryRow, error: categoryError } = await supabase
+      .from('categories')
+      .select('id')
+      .eq('name', category)
+      .maybeSingle();
+
+    if (categoryError || !categoryRow) {
+      return NextResponse.json({ error: 'Unknown category: ' + category }, { status: 400 });
+    }
+
+    const updates: {
+      title: string;
+      category: string;
+      font_family?: string;
+      is_editable?: boolean;
+      template?: PosterTemplate | null;
+      tags?: string[];
+      description?: string | null;
+      status?: PosterStatus;
+      publish_at?: string | null;
+      unpublish_at?: string | null;
+      occasion_id?: number | null;
+      translations?: PosterTranslations;
+    } = { title, category };
+    if (typeof fontFamily === 'string') updates.font_family = fontFamily;
+    if (typeof isEditable === 'boolean') updates.is_editable = isEditable;
+
+    if (tags !== undefined) {
+      const result = normalizeTags(tags);
+      if (!result.tags) {
+        return NextResponse.json({ error: 'Invalid tags: ' + result.error }, { status: 400 });
+      }
+      updates.tags = result.tags;
+    }
+    if (description !== undefined) {
+      if (description !== null && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+        return NextResponse.json({ error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters` }, { status: 400 });
+      }
+      updates.description = description?.trim() || null;
+    }
+
+    // Replaces every translation; omit it to leave them alone
+    if (translations !== undefined) {
+      const result = validateTranslations(translations);
+      if (!result.translations) {
+        return NextResponse.json({ error: 'Invalid translations: ' + result.error }, { status: 400 });
+      }
+      updates.translations = result.translations;
+    }
+
+    // null unlinks the poster from its occasion
+    if (occasionId !== undefined) {
+      if (occasionId !== null && !Number.isInteger(occasionId)) {
+        return NextResponse.json({ error: 'Invalid occasion' }, { status: 400 });
+      }
+      updates.occasion_id = occasionId;
+    }
+
+    // The schedule fields are replaced together, so the window is checked as a whole;
+    // omit all three to leave the stored schedule alone
+    if (status !== undefined || publishAt !== undefined || unpublishAt !== undefined) {
+      const result = validateSchedule({ status, publishAt, unpublishAt });
+      if (!result.schedule) {
+        return NextResponse.json({ error: 'Invalid schedule: ' + result.error }, { status: 400 });
+      }
+      Object.assign(updates, result.schedule);
+    }
+
+    // `template` is optional: omit it to leave the stored one alone, send null to clear it
+    if (template !== undefined) {
+      if (template === null) {
+        updates.template = null;
+      } else {
+        const result = validateTemplate(template);
+        if (!result.template) {
+          console.error('API Route: Invalid template:', result.error);
+          return NextResponse.json({ error: 'Invalid template: ' + result.error }, { status: 400 });
+        }
+        updates.template = result.template;
+      }
+    }
+
     const { error: dbError } = await supabase
       .from('posters')
-      .update({ title, category })
+      .update(updates)
       .eq('id', id);
 
     if (dbError) {
@@ -26,7 +131,7 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: 'Failed to update poster: ' + dbError.message }, { status: 400 });
     }
 
-    console.log('API Route: Poster updated successfully:', { id, title, category });
+    console.log('API Route: Poster updated successfully:', { id, title, category, template: updates.template !== undefined });
     return NextResponse.json({ message: 'Poster updated successfully' }, { status: 200 });
   } catch (error: any) {
     console.error('API Route: General error:', error);
@@ -0,0 +1,163 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { contentTypeFor, parseManifest, validateManifestRow, type ImportResult } from '@/lib/bulkImport';
+import { uploadPoster, type UploadFile } from '@/lib/posterUpload';
+import { assembleUpload, discardUpload } from '@/lib/uploadSessions';
+import { MAX_FILE_SIZE, formatMegabytes } from '@/lib/uploads';
+import { readZip, type ZipEntry } from '@/lib/zip';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const MANIFEST_NAMES = ['manifest.csv', 'manifest.json'];
+
+const baseName = (path: string) => path.split('/').pop()!.toLowerCase();
+
+// Finder and macOS archive metadata, never poster files
+const isJunk = (path: string) => path.startsWith('__MACOSX/') || baseName(path).startsWith('.');
+
+// POST multipart: `uploadId`, a finished chunked upload (see /api/uploads) of the ZIP of
+// posters and thumbnails, and optionally `manifest` (.csv or .json); without one,
+// manifest.csv or manifest.json inside the archive is used. The archive is held in memory,
+// so it has the same MAX_FILE_SIZE limit as a single poster file.
+// Files named in the manifest are matched by path, or by file name when that is unique.
+// Every row is imported on its own; returns { results, imported, failed }.
+export async function POST(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const formData = await request.formData();
+    const uploadId = formData.get('uploadId') as string | null;
+    const manifestFile = formData.get('manifest') as File | null;
+
+    if (!uploadId) {
+      return NextResponse.json({ error: 'Missing archive' }, { status: 400 });
+    }
+    // Kept until the import runs, so a bad manifest can be fixed without sending the archive again
+    const { file: archive, session: uploadSession, error: uploadError } = await assembleUpload(
+      supabase,
+      uploadId,
+      auth.user!.id
+    );
+    if (!archive) {
+      return NextResponse.json({ error: uploadError }, { status: 400 });
+    }
+
+    let entries: ZipEntry[];
+    try {
+      entries = readZip(archive.data).filter((entry) => !isJunk(entry.name));
+    } catch (zipError: any) {
+      return NextResponse.json({ error: 'Could not read archive: ' + zipError.message }, { status: 400 });
+    }
+
+    let manifestName: string;
+    let manifestText: string;
+    if (manifestFile) {
+      manifestName = manifestFile.name;
+      manifestText = await manifestFile.text();
+    } else {
+      const entry = entries.find((e) => MANIFEST_NAMES.includes(baseName(e.name)));
+      if (!entry) {
+        return NextResponse.json(
+          { error: 'No manifest: upload one or include manifest.csv or manifest.json in the archive' },
+          { status: 400 }
+        );
+      }
+      manifestName = entry.name;
+      manifestText = entry.read().toString('utf8');
+    }
+
+    const { records, error: manifestError } = parseManifest(
+      manifestText,
+      manifestName.toLowerCase().endsWith('.json') ? 'json' : 'csv'
+    );
+    if (!records) {
+      return NextResponse.json({ error: 'Invalid manifest: ' + manifestError }, { status: 400 });
+    }
+
+    const { data: fonts, error: fontsError } = await supabase.from('fonts').select('name').eq('is_active', true);
+    if (fontsError) {
+      console.error('API Route: Fonts fetch error:', fontsError);
+      return NextResponse.json({ error: 'Failed to load fonts: ' + fontsError.message }, { status: 400 });
+    }
+
+    const findFile = (name: string): { file?: UploadFile; error?: string } => {
+      const path = name.replace(/\\/g, '/').replace(/^\.?\//, '');
+      let entry = entries.find((e) => e.name === path);
+      if (!entry) {
+        const matches = entries.filter((e) => baseName(e.name) === baseName(path));
+        if (matches.length > 1) return { error: `${name} matches several files in the archive; use its full path` };
+        entry = matches[0];
+      }
+      if (!entry) return { error: `${name} is not in the archive` };
+      if (entry.size > MAX_FILE_SIZE) {
+        return { error: `${name} exceeds maximum limit of ${formatMegabytes(MAX_FILE_SIZE)}` };
+      }
+      return { file: { name: entry.name.split('/').pop()!, type: contentTypeFor(entry.name)!, data: entry.read() } };
+    };
+
+    // One row at a time, so only a single poster's files are decompressed at once
+    const results: ImportResult[] = [];
+    for (const [index, record] of records.entries()) {
+      const title = typeof record.title === 'string' ? record.title : '';
+      const fail = (error: string) => results.push({ row: index + 1, title, ok: false, error });
+
+      try {
+        const { row, error: rowError } = validateManifestRow(record, fonts ?? []);
+        if (!row) {
+          fail(rowError!);
+          continue;
+        }
+
+        const { file, error: fileError } = findFile(row.file);
+        if (!file) {
+          fail(fileError!);
+          continue;
+        }
+        let thumbnail: UploadFile | null = null;
+        if (row.thumbnail) {
+          const found = findFile(row.thumbnail);
+          if (!found.file) {
+            fail(found.error!);
+            continue;
+          }
+          thumbnail = found.file;
+        }
+
+        const { poster, error } = await uploadPoster(supabase, {
+          file,
+          thumbnail,
+          title: row.title,
+          category: row.category,
+          isEditable: row.editable,
+          fontFamily: row.font,
+          tags: row.tags,
+          description: row.description,
+          template: null,
+        });
+
+        if (!poster) {
+          fail(error!);
+        } else {
+          results.push({ row: index + 1, title: row.title, ok: true, downloadLink: poster.downloadLink });
+        }
+      } catch (rowError: any) {
+        console.error(`API Route: Bulk import row ${index + 1} error:`, rowError);
+        fail('Import failed: ' + rowError.message);
+      }
+    }
+
+    await discardUpload(supabase, uploadSession);
+
+    const imported = results.filter((r) => r.ok).length;
+    return NextResponse.json({ results, imported, failed: results.length - imported }, { status: 200 });
+  } catch (error: any) {
+    console.error('Bulk import error:', error);
+    return NextResponse.json({ error: 'Bulk import failed: ' + error.message }, { status: 500 });
+  }
+}
@@ -1,5 +1,10 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { uploadPoster, type UploadFile } from '@/lib/posterUpload';
+import { validateSchedule } from '@/lib/publishing';
+import { assembleUpload, discardUpload } from '@/lib/uploadSessions';
+import { validateTemplate, type PosterTemplate } from '@/lib/template';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -7,89 +12,96 @@ const supabase = createClient(
   { auth: { autoRefreshToken: false, persistSession: false } }
 );
 
+// Multipart form with the poster fields. The poster file comes either as `file` or, for
+// large files, as the `uploadId` of a finished chunked upload (see /api/uploads).
+// `status`, `publishAt` and `unpublishAt` schedule it; by default it is published at once.
+// `occasionId` links it to an occasion for WishMe's Upcoming banner.
 export async function POST(request: Request) {
   try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
     const formData = await request.formData();
-    const file = formData.get('file') as File;
+    const file = formData.get('file') as File | null;
+    const uploadId = formData.get('uploadId') as string | null;
     const thumbnail = formData.get('thumbnail') as File | null;
     const title = formData.get('title') as string;
     const category = formData.get('category') as string;
     const isEditable = formData.get('isEditable') === 'true';
     const fontFamily = formData.get('fontFamily') as string;
+    const templateJson = formData.get('template') as string | null;
+    const description = ((formData.get('description') as string | null) ?? '').trim() || null;
+    const occasionId = formData.get('occasionId') ? Number(formData.get('occasionId')) : null;
 
-    if (!file || !title || !category) {
+    if ((!file && !uploadId) || !title || !category) {
       return NextResponse.json({ error: 'Missing file, title, or category' }, { status: 400 });
     }
 
-    // Validate file size (50MB)
-    const MAX_FILE_SIZE = 50 * 1024 * 1024;
-    if (file.size > MAX_FILE_SIZE || (thumbnail && thumbnail.size > MAX_FILE_SIZE)) {
-      return NextResponse.json(
-        { error: `File size exceeds maximum limit of ${MAX_FILE_SIZE / (1024 * 1024)}MB` },
-        { status: 400 }
-      );
+    if (occasionId !== null && !Number.isInteger(occasionId)) {
+      return NextResponse.json({ error: 'Invalid occasion' }, { status: 400 });
     }
 
-    const fileExt = file.name.split('.').pop()?.toLowerCase();
-    const isPsd = fileExt === 'psd';
-    const fileName = `${Date.now()}-${title.replace(/\s+/g, '-')}.${fileExt}`;
-    const uploadPath = isPsd ? `psd/${fileName}` : `thumbnails/${fileName}`;
-
-    // Upload main file
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    const { error: uploadError } = await supabase.storage
-      .from('posters')
-      .upload(uploadPath, buffer, { contentType: file.type, upsert: true });
-
-    if (uploadError) {
-      console.error('Storage error:', uploadError);
-      return NextResponse.json({ error: 'Upload failed: ' + uploadError.message }, { status: 400 });
+    const { schedule, error: scheduleError } = validateSchedule({
+      status: formData.get('status') ?? undefined,
+      publishAt: formData.get('publishAt'),
+      unpublishAt: formData.get('unpublishAt'),
+    });
+    if (!schedule) {
+      return NextResponse.json({ error: 'Invalid schedule: ' + scheduleError }, { status: 400 });
     }
 
-    const { data: { publicUrl } } = supabase.storage.from('posters').getPublicUrl(uploadPath);
-
-    // Upload thumbnail if provided
-    let thumbnailUrl = '';
-    if (thumbnail) {
-      const thumbnailName = `${Date.now()}-${title.replace(/\s+/g, '-')}-thumb.png`;
-      const thumbnailPath = `thumbnails/${thumbnailName}`;
-      const thumbnailBuffer = Buffer.from(await thumbnail.arrayBuffer());
-      const { error: thumbnailError } = await supabase.storage
-        .from('posters')
-        .upload(thumbnailPath, thumbnailBuffer, { contentType: thumbnail.type, upsert: true });
+    let template: PosterTemplate | null = null;
+    if (templateJson) {
+      let parsedTemplate: unknown;
+      try {
+        parsedTemplate = JSON.parse(templateJson);
+      } catch {
+        return NextResponse.json({ error: 'Template is not valid JSON' }, { status: 400 });
+      }
+      const result = validateTemplate(parsedTemplate);
+      if (!result.template) {
+        return NextResponse.json({ error: 'Invalid template: ' + result.error }, { status: 400 });
+      }
+      template = result.template;
+    }
 
-      if (thumbnailError) {
-        console.error('Thumbnail upload error:', thumbnailError);
-        return NextResponse.json({ error: 'Thumbnail upload failed: ' + thumbnailError.message }, { status: 400 });
+    let posterFile: UploadFile;
+    let uploadSession = null;
+    if (uploadId) {
+      const assembled = await assembleUpload(supabase, uploadId, auth.user!.id);
+      if (!assembled.file) {
+        return NextResponse.json({ error: assembled.error }, { status: 400 });
       }
-      thumbnailUrl = supabase.storage.from('posters').getPublicUrl(thumbnailPath).data.publicUrl;
+      posterFile = assembled.file;
+      uploadSession = assembled.session;
+    } else {
+      posterFile = { name: file!.name, type: file!.type, data: Buffer.from(await file!.arrayBuffer()) };
     }
 
-    // Insert into database
-    const { error: dbError } = await supabase.from('posters').insert([
-      {
-        title,
-        category,
-        download_url: isPsd ? thumbnailUrl : publicUrl,
-        psd_url: isPsd ? publicUrl : null,
-        font_family: fontFamily,
-        is_editable: isEditable,
-        created_at: new Date().toISOString(),
-      },
-    ]);
+    const { poster, error } = await uploadPoster(supabase, {
+      file: posterFile,
+      thumbnail: thumbnail
+        ? { name: thumbnail.name, type: thumbnail.type, data: Buffer.from(await thumbnail.arrayBuffer()) }
+        : null,
+      title,
+      category,
+      isEditable,
+      fontFamily,
+      tags: formData.get('tags'),
+      description,
+      template,
+      schedule,
+      occasionId,
+    });
 
-    if (dbError) {
-      console.error('Database error:', dbError);
-      return NextResponse.json({ error: 'Database insert failed: ' + dbError.message }, { status: 400 });
+    if (!poster) {
+      return NextResponse.json({ error }, { status: 400 });
     }
+    if (uploadSession) await discardUpload(supabase, uploadSession);
 
-    return NextResponse.json(
-      { downloadLink: isPsd ? thumbnailUrl : publicUrl, title, category, isEditable, fontFamily },
-      { status: 200 }
-    );
+    return NextResponse.json(poster, { status: 200 });
   } catch (error: any) {
     console.error('Upload error:', error);
     return NextResponse.json({ error: 'Upload failed: ' + error.message }, { status: 500 });
   }
-}
\ No newline at end of file
+}
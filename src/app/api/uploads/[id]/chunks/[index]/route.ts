@@ -0,0 +1,71 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { chunkPath, UPLOADS_BUCKET } from '@/lib/uploadSessions';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+// PUT with the raw chunk bytes as the body. Re-sending a chunk overwrites it, so a client
+// that lost the response can simply retry. Returns { received }.
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string; index: string }> }) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { id, index: indexParam } = await params;
+    const index = Number(indexParam);
+
+    const { data: session, error } = await supabase
+      .from('upload_sessions')
+      .select('id, size, chunk_size, chunk_count')
+      .eq('id', id)
+      .eq('created_by', auth.user!.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('API Route: Upload session lookup error:', error);
+      return NextResponse.json({ error: 'Failed to store chunk: ' + error.message }, { status: 400 });
+    }
+    if (!session) {
+      return NextResponse.json({ error: 'Upload not found or expired' }, { status: 404 });
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= session.chunk_count) {
+      return NextResponse.json({ error: 'Invalid chunk index' }, { status: 400 });
+    }
+
+    const chunk = Buffer.from(await request.arrayBuffer());
+    // Every chunk is full-size except the last, which holds the remainder
+    const expected = index === session.chunk_count - 1 ? session.size - index * session.chunk_size : session.chunk_size;
+    if (chunk.length !== expected) {
+      return NextResponse.json({ error: `Chunk ${index} is ${chunk.length} bytes, expected ${expected}` }, { status: 400 });
+    }
+
+    const { error: storageError } = await supabase.storage
+      .from(UPLOADS_BUCKET)
+      .upload(chunkPath(id, index), chunk, { contentType: 'application/octet-stream', upsert: true });
+
+    if (storageError) {
+      console.error('API Route: Chunk storage error:', storageError);
+      return NextResponse.json({ error: 'Failed to store chunk: ' + storageError.message }, { status: 502 });
+    }
+
+    const { data: received, error: markError } = await supabase.rpc('mark_chunk_received', {
+      p_session_id: id,
+      p_index: index,
+    });
+
+    if (markError || !received) {
+      console.error('API Route: Chunk record error:', markError);
+      return NextResponse.json({ error: 'Failed to record chunk: ' + (markError?.message ?? 'upload expired') }, { status: 502 });
+    }
+
+    return NextResponse.json({ received }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to store chunk: ' + error.message }, { status: 500 });
+  }
+}
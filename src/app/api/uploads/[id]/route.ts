@@ -0,0 +1,58 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { discardUpload, SESSION_COLUMNS, statusFromRow } from '@/lib/uploadSessions';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const findSession = (id: string, userId: string) =>
+  supabase.from('upload_sessions').select(SESSION_COLUMNS).eq('id', id).eq('created_by', userId).maybeSingle();
+
+// Which chunks the server has, so an interrupted upload resumes with the missing ones
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { data, error } = await findSession((await params).id, auth.user!.id);
+    if (error) {
+      console.error('API Route: Upload session lookup error:', error);
+      return NextResponse.json({ error: 'Failed to load upload: ' + error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Upload not found or expired' }, { status: 404 });
+    }
+
+    return NextResponse.json(statusFromRow(data), { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to load upload: ' + error.message }, { status: 500 });
+  }
+}
+
+// Abandons an upload and removes its chunks
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { data, error } = await findSession((await params).id, auth.user!.id);
+    if (error) {
+      console.error('API Route: Upload session lookup error:', error);
+      return NextResponse.json({ error: 'Failed to cancel upload: ' + error.message }, { status: 400 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Upload not found or expired' }, { status: 404 });
+    }
+
+    await discardUpload(supabase, data);
+    return NextResponse.json({ message: 'Upload cancelled' }, { status: 200 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to cancel upload: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { purgeExpiredUploads, SESSION_COLUMNS, statusFromRow } from '@/lib/uploadSessions';
+import { CHUNK_SIZE, MAX_FILE_SIZE, formatMegabytes } from '@/lib/uploads';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+// POST { fileName, contentType, size } starts a chunked upload. The client then PUTs each
+// chunk to /api/uploads/<uploadId>/chunks/<index> and passes uploadId to /api/upload.
+export async function POST(request: Request) {
+  try {
+    const auth = await requirePermission(request, 'edit');
+    if (auth.response) return auth.response;
+
+    const { fileName, contentType, size } = await request.json();
+    if (typeof fileName !== 'string' || !fileName || !Number.isInteger(size) || size <= 0) {
+      return NextResponse.json({ error: 'Missing file name or size' }, { status: 400 });
+    }
+    if (size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File size exceeds maximum limit of ${formatMegabytes(MAX_FILE_SIZE)}` },
+        { status: 400 }
+      );
+    }
+
+    // Piggybacks cleanup of abandoned uploads on new ones rather than a scheduled job
+    await purgeExpiredUploads(supabase);
+
+    const { data, error } = await supabase
+      .from('upload_sessions')
+      .insert([
+        {
+          file_name: fileName,
+          content_type: typeof contentType === 'string' && contentType ? contentType : 'application/octet-stream',
+          size,
+          chunk_size: CHUNK_SIZE,
+          chunk_count: Math.ceil(size / CHUNK_SIZE),
+          created_by: auth.user!.id,
+        },
+      ])
+      .select(SESSION_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('API Route: Upload session insert error:', error);
+      return NextResponse.json({ error: 'Failed to start upload: ' + error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(statusFromRow(data), { status: 201 });
+  } catch (error: any) {
+    console.error('API Route: General error:', error);
+    return NextResponse.json({ error: 'Failed to start upload: ' + error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+// Customization drafts, kept in the browser's IndexedDB so they survive a refresh.
+// IndexedDB stores the uploaded photo as a File directly, which localStorage cannot.
+
+const DB_NAME = 'wishme';
+const DB_VERSION = 1;
+const STORE = 'drafts';
+
+export interface Draft<S> {
+  posterId: number;
+  posterTitle: string;
+  // Thumbnail for the "My drafts" list, which can't rely on the poster being loaded
+  posterImageUrl?: string | null;
+  // Editor state without the photo, which is stored alongside as `image`
+  state: S;
+  image: File | null;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'posterId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveDraft = async <S>(draft: Draft<S>) => {
+  await run('readwrite', (store) => store.put(draft));
+};
+
+export const loadDraft = async <S>(posterId: number): Promise<Draft<S> | null> =>
+  (await run('readonly', (store) => store.get(posterId))) ?? null;
+
+export const deleteDraft = async (posterId: number) => {
+  await run('readwrite', (store) => store.delete(posterId));
+};
+
+// Newest first, for the "My drafts" list
+export const listDrafts = async <S>(): Promise<Draft<S>[]> => {
+  const drafts: Draft<S>[] = await run('readonly', (store) => store.getAll());
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+};
@@ -1,32 +1,155 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Image from 'next/image';
-import { supabase } from '@/lib/supabase';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, User, Download, Sun, Moon, Sparkles, ChevronRight, ChevronLeft, LucideEdit, ChevronUp, ChevronDown } from 'lucide-react';
-import html2canvas from 'html2canvas';
+import { Search, User, Download, Sun, Moon, Sparkles, ChevronRight, ChevronLeft, LucideEdit, ChevronUp, ChevronDown, Copy, Trash2, Plus, Undo2, Redo2, Share2 } from 'lucide-react';
+import type { PsdMetadata } from '@/lib/psdMetadata';
+import { DEFAULT_TEMPLATE, resolveTemplate, type PhotoMask, type PosterTemplate } from '@/lib/template';
+import { ROUNDED_MASK_RADIUS, type CustomizationState, type TextLayerState } from '@/lib/customization';
+import { useEditHistory, type SetOptions } from './useEditHistory';
+import { deleteDraft, listDrafts, loadDraft, saveDraft, type Draft } from './drafts';
+import { getAnonymousSessionId } from '@/lib/anonymousSession';
+import type { ImageVariants } from '@/lib/variants';
+import PosterImage from '@/components/PosterImage';
+import type { Category } from '@/lib/categories';
+import { localDate, occasionCountdown, type UpcomingOccasion } from '@/lib/occasions';
+import { localizedTitle, type MessageKey, type PosterTranslations, type TranslatableMessage } from '@/lib/i18n';
+import { DEFAULT_FONT, isAvailableFont, LOCALE_SCRIPTS, type Font } from '@/lib/fonts';
+import { loadFontFamilies } from '@/lib/fontFaces';
+import { useI18n } from '@/components/I18nProvider';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import FontOptions from '@/components/FontOptions';
 import './wishme.css';
 
 interface Poster {
   id: number;
   title: string;
-  category: 'Festival' | 'Birthday' | 'Marriage';
+  category: string;
   download_url: string;
   psd_url?: string;
   font_family?: string;
   is_editable: boolean;
   created_at: string;
   download_count: number;
+  psd_metadata?: PsdMetadata | null;
+  template?: PosterTemplate | null;
+  tags?: string[];
+  description?: string | null;
+  image_variants?: ImageVariants | null;
+  translations?: PosterTranslations | null;
 }
 
+// A text layer in the editor; `label` names it in the layer list and is not exported.
+interface EditorTextLayer extends TextLayerState {
+  label: string;
+}
+
+// Fits the template into the 400x280 preview the same way `object-fit: contain` fits the artwork.
+function getPreviewFit(template: PosterTemplate) {
+  const scale = Math.min(400 / template.width, 280 / template.height);
+  return {
+    scale,
+    offsetX: (400 - template.width * scale) / 2,
+    offsetY: (280 - template.height * scale) / 2,
+  };
+}
+
+// Starting editor state for a template, converted from template units to preview pixels.
+// Every text slot becomes a text layer; users may add more on top.
+function createEditState(template: PosterTemplate) {
+  const { scale, offsetX, offsetY } = getPreviewFit(template);
+  const texts: EditorTextLayer[] = template.textSlots.map((slot) => ({
+    id: slot.id,
+    label: slot.label,
+    text: slot.defaultText,
+    color: slot.color,
+    fontSize: Math.round(slot.fontSize * scale),
+    fontFamily: slot.fontFamily,
+    fontStyle: 'normal',
+    fontWeight: 'normal',
+    rotation: 0,
+    position: { x: offsetX + slot.bounds.x * scale, y: offsetY + slot.bounds.y * scale },
+  }));
+  const photoSlot = template.photoSlots[0];
+
+  return {
+    texts,
+    selectedTextId: texts[0]?.id ?? null as string | null,
+    image: null as File | null,
+    imagePosition: photoSlot
+      ? { x: offsetX + photoSlot.bounds.x * scale, y: offsetY + photoSlot.bounds.y * scale }
+      : { x: 0, y: 0 },
+    imageRotation: 0,
+    imageSize: photoSlot
+      ? { width: photoSlot.bounds.width * scale, height: photoSlot.bounds.height * scale }
+      : { width: 100, height: 100 },
+  };
+}
+
+type EditState = ReturnType<typeof createEditState>;
+// Drafts keep the photo next to the settings rather than inside them
+type DraftState = Omit<EditState, 'image'>;
+
+const restoreDraft = (draft: Draft<DraftState>): EditState => ({ ...draft.state, image: draft.image });
+
+// Editor state for a shared design. Shared state carries no layer labels, so they are renumbered.
+function editStateFromCustomization(
+  template: PosterTemplate,
+  customization: CustomizationState,
+  image: File | null,
+  numberedLabel: (number: number) => string
+): EditState {
+  const base = createEditState(template);
+  const texts: EditorTextLayer[] = customization.texts.map((layer, index) => ({ ...layer, label: numberedLabel(index + 1) }));
+  const { photo } = customization;
+
+  return {
+    ...base,
+    texts,
+    selectedTextId: texts[0]?.id ?? null,
+    image,
+    ...(photo && { imagePosition: photo.position, imageSize: photo.size, imageRotation: photo.rotation }),
+  };
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const PAGE_SIZE = 24;
+
+const newLayerId = () => `text-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// A poster's template. Posters without zones of their own get the default layout in the
+// poster's font, when it's one the editor can show.
+function posterTemplate(poster: Poster, fonts: Font[]) {
+  const template = resolveTemplate(poster);
+  const font = poster.font_family;
+  if (template !== DEFAULT_TEMPLATE || !font || !isAvailableFont(font, fonts)) return template;
+  return { ...template, textSlots: template.textSlots.map((slot) => ({ ...slot, fontFamily: font })) };
+}
+
+const MASK_RADIUS: { [mask in PhotoMask]: string } = {
+  rectangle: '0',
+  rounded: `${ROUNDED_MASK_RADIUS}px`,
+  circle: '50%',
+};
+
+// The default template's slot labels, shown in the visitor's language. Labels admins give
+// their own templates are shown as written.
+const DEFAULT_SLOT_LABELS: { [label: string]: MessageKey } = {
+  'Your Name': 'editor.yourName',
+  'Your Photo': 'editor.yourPhoto',
+};
+
 function CategoryScroll({
+  categories: categoryList,
   selectedCategory,
   setSelectedCategory,
 }: {
+  categories: Category[];
   selectedCategory: string;
   setSelectedCategory: (category: string) => void;
 }) {
+  const { t } = useI18n();
   const [isDesktop, setIsDesktop] = useState(true);
   const [categorySetIndex, setCategorySetIndex] = useState(0);
 
@@ -49,9 +172,10 @@ function CategoryScroll({
     };
   }, []);
 
-  const categories = ['All', 'Festival', 'Birthday', 'Marriage'];
+  const categories = ['All', ...categoryList.map((category) => category.name)];
+  const icons = new Map(categoryList.map((category) => [category.name, category.icon]));
   const categoriesPerSet = 3;
-  const totalSets = Math.ceil(categories.slice(1).length / categoriesPerSet);
+  const totalSets = Math.max(1, Math.ceil(categories.slice(1).length / categoriesPerSet));
   const currentCategories = isDesktop
     ? categories
     : categories.slice(1).slice(categorySetIndex * categoriesPerSet, (categorySetIndex + 1) * categoriesPerSet);
@@ -72,7 +196,7 @@ function CategoryScroll({
           onClick={handlePrevSet}
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          aria-label="Show previous category set"
+          aria-label={t('wishme.previousCategories')}
           suppressHydrationWarning
         >
           <ChevronLeft size={16} aria-hidden="true" />
@@ -94,10 +218,11 @@ function CategoryScroll({
               onClick={() => setSelectedCategory(category)}
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
-              aria-label={`Filter by ${category}`}
+              aria-label={t('wishme.filterBy', { category: category === 'All' ? t('wishme.allCategories') : category })}
               suppressHydrationWarning
             >
-              {category}
+              {icons.get(category) && <span className="category-icon" aria-hidden="true">{icons.get(category)}</span>}
+              {category === 'All' ? t('wishme.allCategories') : category}
             </motion.button>
           ))}
         </motion.div>
@@ -108,7 +233,7 @@ function CategoryScroll({
           onClick={handleNextSet}
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          aria-label="Show next category set"
+          aria-label={t('wishme.nextCategories')}
           suppressHydrationWarning
         >
           <ChevronRight size={16} aria-hidden="true" />
@@ -118,86 +243,318 @@ function CategoryScroll({
   );
 }
 
+// The next festivals and occasions, each with a countdown and its posters. Picking a
+// poster opens it in the editor, or downloads it when it isn't editable.
+function UpcomingOccasions({
+  occasions,
+  countdowns,
+  onSelect,
+}: {
+  occasions: UpcomingOccasion<Poster>[];
+  countdowns: { [key: number]: number };
+  onSelect: (poster: Poster) => void;
+}) {
+  const { locale, t } = useI18n();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="upcoming">
+      {occasions.map((occasion) => {
+        const countdown = occasionCountdown(occasion.nextStartsOn, occasion.nextEndsOn, now);
+        return (
+          <div key={occasion.id} className="upcoming-occasion">
+            <div className="upcoming-header">
+              <h3>
+                {occasion.icon && <span aria-hidden="true">{occasion.icon} </span>}
+                {occasion.name}
+              </h3>
+              <span className="upcoming-countdown">{t(`countdown.${countdown.key}`, countdown)}</span>
+            </div>
+            <div className="upcoming-posters">
+              {occasion.posters.map((poster) => (
+                <motion.button
+                  key={poster.id}
+                  className="upcoming-poster"
+                  onClick={() => onSelect(poster)}
+                  disabled={!!countdowns[poster.id]}
+                  whileHover={{ scale: 1.03 }}
+                  whileTap={{ scale: 0.97 }}
+                  aria-label={t(poster.is_editable ? 'wishme.editTitle' : 'wishme.downloadTitle', {
+                    title: localizedTitle(poster, locale),
+                  })}
+                  suppressHydrationWarning
+                >
+                  <span className="upcoming-poster-image">
+                    <PosterImage poster={poster} sizes="160px" className="poster-image" />
+                  </span>
+                  <span className="upcoming-poster-title">
+                    {countdowns[poster.id]
+                      ? t('wishme.downloadStartsIn', { seconds: countdowns[poster.id] })
+                      : localizedTitle(poster, locale)}
+                  </span>
+                </motion.button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function UserDashboard() {
+  const { locale, t } = useI18n();
   const [posters, setPosters] = useState<Poster[]>([]);
-  const [filteredPosters, setFilteredPosters] = useState<Poster[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingOccasion<Poster>[]>([]);
+  const [fonts, setFonts] = useState<Font[]>([]);
+  // The banner opens on upcoming occasions, and falls back to categories when there are none
+  const [bannerView, setBannerView] = useState<'upcoming' | 'categories'>('upcoming');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
   const [sortBy, setSortBy] = useState<'latest' | 'popular'>('latest');
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [countdowns, setCountdowns] = useState<{ [key: number]: number }>({});
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<TranslatableMessage | null>(null);
   const [editingPoster, setEditingPoster] = useState<Poster | null>(null);
-  const [editFormData, setEditFormData] = useState({
-    name: '',
-    image: null as File | null,
-    textColor: '#FFFFFF',
-    imagePosition: { x: 50, y: 180 },
-    textPosition: { x: 200, y: 240 },
-    fontSize: 24,
-    fontFamily: 'Arial',
-    fontStyle: 'normal',
-    fontWeight: 'normal',
-    textRotation: 0,
-    imageRotation: 0,
-    imageSize: { width: 100, height: 100 },
-  });
+  const {
+    state: editFormData,
+    set: setEditFormData,
+    beginGesture,
+    undo,
+    redo,
+    reset: resetEditFormData,
+    canUndo,
+    canRedo,
+  } = useEditHistory(() => createEditState(DEFAULT_TEMPLATE));
   const [zoomLevel, setZoomLevel] = useState(1);
-  const canvasRef = useRef<HTMLDivElement>(null);
-  const textRef = useRef<HTMLDivElement>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [drafts, setDrafts] = useState<Draft<DraftState>[]>([]);
+  const [pendingDraft, setPendingDraft] = useState<Draft<DraftState> | null>(null);
+  // The state the editor opened with; drafts are only written once it changes
+  const openedState = useRef<EditState | null>(null);
+  const openedPosterId = useRef<number | null>(null);
+  // The shared design the editor was opened from, recorded as the parent of any re-share
+  const sharedDesignId = useRef<string | null>(null);
+  const sharedDesignLoaded = useRef(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const textRefs = useRef<{ [layerId: string]: HTMLDivElement | null }>({});
   const imageRef = useRef<HTMLDivElement>(null);
   const previewRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const template = editingPoster ? resolveTemplate(editingPoster) : DEFAULT_TEMPLATE;
+  const previewFit = getPreviewFit(template);
 
   useEffect(() => {
-    const fetchPosters = async () => {
+    const fetchCategories = async () => {
       try {
-        const { data, error } = await supabase
-          .from('posters')
-          .select('id, title, category, download_url, psd_url, font_family, is_editable, created_at, download_count')
-          .order('created_at', { ascending: false });
-
-        if (error) {
-          console.error('Error fetching posters:', error);
-          setErrorMessage('Failed to load posters. Please try again later.');
-          return;
-        }
+        const response = await fetch('/api/categories');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load categories');
+        setCategories(result.categories);
+      } catch (err) {
+        console.error('Error fetching categories:', err);
+      }
+    };
 
-        setPosters(data || []);
-        setFilteredPosters(data || []);
+    fetchCategories();
+  }, []);
+
+  useEffect(() => {
+    const fetchUpcoming = async () => {
+      try {
+        const response = await fetch(`/api/occasions/upcoming?from=${localDate()}`);
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load upcoming occasions');
+        setUpcoming(result.occasions);
       } catch (err) {
-        console.error('Unexpected error fetching posters:', err);
-        setErrorMessage('An unexpected error occurred. Please try again.');
-      } finally {
-        setLoading(false);
+        console.error('Error fetching upcoming occasions:', err);
       }
     };
 
-    fetchPosters();
+    fetchUpcoming();
   }, []);
 
   useEffect(() => {
-    let result = [...posters];
+    const fetchFonts = async () => {
+      try {
+        const response = await fetch('/api/fonts');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load fonts');
+        setFonts(result.fonts);
+      } catch (err) {
+        console.error('Error fetching fonts:', err);
+      }
+    };
 
-    if (searchQuery) {
-      result = result.filter(poster =>
-        poster.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        poster.category.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
+    fetchFonts();
+  }, []);
 
-    if (selectedCategory !== 'All') {
-      result = result.filter(poster => poster.category === selectedCategory);
-    }
+  // Library fonts are fetched once a text layer uses them
+  useEffect(() => {
+    loadFontFamilies(fonts, editFormData.texts.map((layer) => layer.fontFamily));
+  }, [fonts, editFormData.texts]);
 
-    if (sortBy === 'popular') {
-      result.sort((a, b) => (b.download_count || 0) - (a.download_count || 0));
-    } else {
-      result.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  // One object URL per uploaded photo, released once the photo is replaced or removed
+  const imageUrl = useMemo(() => (editFormData.image ? URL.createObjectURL(editFormData.image) : null), [editFormData.image]);
+  useEffect(() => {
+    if (!imageUrl) return;
+    return () => URL.revokeObjectURL(imageUrl);
+  }, [imageUrl]);
+
+  // Fonts covering the current language's script are offered first
+  const script = LOCALE_SCRIPTS[locale];
+  const pickerFonts = [...fonts].sort((a, b) => Number(b.scripts.includes(script)) - Number(a.scripts.includes(script)));
+
+  useEffect(() => {
+    listDrafts<DraftState>()
+      .then(setDrafts)
+      .catch((err) => console.error('Error loading drafts:', err));
+  }, []);
+
+  // Autosave the open customization shortly after each change
+  useEffect(() => {
+    if (!editingPoster || editFormData === openedState.current) return;
+    const timer = setTimeout(() => persistDraft(editingPoster, editFormData), 500);
+    return () => clearTimeout(timer);
+  }, [editingPoster, editFormData]);
+
+  useEffect(() => {
+    if (!editingPoster) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editingPoster, undo, redo]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const postersUrl = useCallback((cursor: string | null) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (debouncedQuery) params.set('q', debouncedQuery);
+    if (selectedCategory !== 'All') params.set('category', selectedCategory);
+    // Search results come best match first
+    params.set('sort', debouncedQuery ? 'relevance' : sortBy);
+    if (cursor) params.set('cursor', cursor);
+    return `/api/posters?${params}`;
+  }, [debouncedQuery, selectedCategory, sortBy]);
+
+  // Search, category and sort all run on the server; changing any of them starts over at page one
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchFirstPage = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(postersUrl(null), { signal: controller.signal });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || 'Failed to load posters');
+        setPosters(result.posters);
+        setNextCursor(result.nextCursor);
+        setLoading(false);
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+        console.error('Error fetching posters:', err);
+        setErrorMessage({ key: 'wishme.error.loadPosters' });
+        setLoading(false);
+      }
+    };
+
+    fetchFirstPage();
+    return () => controller.abort();
+  }, [postersUrl]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore || loading) return;
+
+    setLoadingMore(true);
+    try {
+      const response = await fetch(postersUrl(nextCursor));
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to load posters');
+      setPosters(prev => [...prev, ...result.posters.filter((p: Poster) => !prev.some(existing => existing.id === p.id))]);
+      setNextCursor(result.nextCursor);
+    } catch (err) {
+      console.error('Error fetching more posters:', err);
+      setErrorMessage({ key: 'wishme.error.loadMore' });
+    } finally {
+      setLoadingMore(false);
     }
+  };
+
+  // Loads the next page when the end of the gallery scrolls into view
+  const loadMoreRef = useRef(loadMore);
+  loadMoreRef.current = loadMore;
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
 
-    setFilteredPosters(result);
-  }, [searchQuery, selectedCategory, sortBy, posters]);
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMoreRef.current();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loading]);
+
+  // From the loaded pages if it's there, otherwise from the server
+  const getPoster = useCallback(async (id: number): Promise<Poster | null> => {
+    const loaded = posters.find((p) => p.id === id);
+    if (loaded) return loaded;
+
+    const response = await fetch(`/api/posters/${id}`);
+    if (response.status === 404) return null;
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'Failed to load poster');
+    return result.poster;
+  }, [posters]);
+
+  // Counts a download server-side and shows the new total. A failure here is logged
+  // but never blocks the download itself.
+  const recordDownload = async (posterId: number, kind: 'plain' | 'customized') => {
+    try {
+      const response = await fetch('/api/downloads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ posterId, kind, sessionId: getAnonymousSessionId() }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to record download');
+
+      const updateCount = (poster: Poster) =>
+        poster.id === posterId ? { ...poster, download_count: result.downloadCount } : poster;
+      setPosters(prev => prev.map(updateCount));
+    } catch (error) {
+      console.error('Error recording download:', error);
+    }
+  };
 
   const handleDownload = async (id: number, url: string, title: string) => {
     try {
@@ -215,44 +572,7 @@ export default function UserDashboard() {
 
       await new Promise(resolve => setTimeout(resolve, 5000));
 
-      const { data: posterData, error: fetchError } = await supabase
-        .from('posters')
-        .select('download_count')
-        .eq('id', id)
-        .single();
-
-      if (fetchError) {
-        console.error('Error fetching download count:', fetchError);
-        setErrorMessage('Failed to update download count.');
-        return;
-      }
-
-      const newCount = (posterData.download_count || 0) + 1;
-      const { error: updateError } = await supabase
-        .from('posters')
-        .update({ download_count: newCount })
-        .eq('id', id);
-
-      if (updateError) {
-        console.error('Error updating download count:', updateError);
-        setErrorMessage('Failed to update download count.');
-        return;
-      }
-
-      setPosters(prev =>
-        prev.map(poster =>
-          poster.id === id
-            ? { ...poster, download_count: newCount }
-            : poster
-        )
-      );
-      setFilteredPosters(prev =>
-        prev.map(poster =>
-          poster.id === id
-            ? { ...poster, download_count: newCount }
-            : poster
-        )
-      );
+      await recordDownload(id, 'plain');
 
       const response = await fetch(url, { mode: 'cors' });
       if (!response.ok) throw new Error('Failed to fetch image');
@@ -267,7 +587,7 @@ export default function UserDashboard() {
       window.URL.revokeObjectURL(blobUrl);
     } catch (error) {
       console.error('Download error:', error);
-      setErrorMessage('Failed to download the poster. Please try again.');
+      setErrorMessage({ key: 'wishme.error.download' });
     } finally {
       setCountdowns(prev => {
         const newCountdowns = { ...prev };
@@ -282,7 +602,7 @@ export default function UserDashboard() {
     if (name === 'image') {
       const file = files && files[0];
       if (file && file.size > 5 * 1024 * 1024) {
-        setErrorMessage('Uploaded image exceeds 5MB limit.');
+        setErrorMessage({ key: 'wishme.error.imageTooLarge' });
         return;
       }
       setEditFormData((prev) => ({
@@ -290,41 +610,253 @@ export default function UserDashboard() {
         image: file?.type === 'image/png' ? file : null,
       }));
     } else {
-      setEditFormData((prev) => ({ ...prev, [name]: value }));
+      updateSelectedText(() => ({ [name]: value }), { coalesce: `${name}:${editFormData.selectedTextId}` });
     }
   };
 
-  const handleTextDrag = (_e: any, info: { delta: { x: number; y: number } }) => {
+  // Applies a change to the selected text layer.
+  const updateSelectedText = (update: (layer: EditorTextLayer) => Partial<EditorTextLayer>, options?: SetOptions) => {
+    setEditFormData((prev) => ({
+      ...prev,
+      texts: prev.texts.map((layer) => (layer.id === prev.selectedTextId ? { ...layer, ...update(layer) } : layer)),
+    }), options);
+  };
+
+  const selectText = (layerId: string) => {
+    setEditFormData((prev) => (prev.selectedTextId === layerId ? prev : { ...prev, selectedTextId: layerId }), { transient: true });
+  };
+
+  const handleLayerTextChange = (layerId: string, value: string) => {
+    setEditFormData((prev) => ({
+      ...prev,
+      selectedTextId: layerId,
+      texts: prev.texts.map((layer) => (layer.id === layerId ? { ...layer, text: value } : layer)),
+    }), { coalesce: `text:${layerId}` });
+  };
+
+  const slotLabel = (label: string) => (DEFAULT_SLOT_LABELS[label] ? t(DEFAULT_SLOT_LABELS[label]) : label);
+
+  const handleAddText = () => {
+    setEditFormData((prev) => {
+      // New layers take the look of the selected one, so a matching line is one click away
+      const base = prev.texts.find((layer) => layer.id === prev.selectedTextId);
+      const layer: EditorTextLayer = {
+        id: newLayerId(),
+        label: t('editor.textLayer', { number: prev.texts.length + 1 }),
+        text: t('editor.newText'),
+        color: base?.color ?? '#FFFFFF',
+        fontSize: base?.fontSize ?? 24,
+        fontFamily: base?.fontFamily ?? DEFAULT_FONT,
+        fontStyle: base?.fontStyle ?? 'normal',
+        fontWeight: base?.fontWeight ?? 'normal',
+        rotation: 0,
+        position: { x: (artworkBounds.minX + artworkBounds.maxX) / 2 - 40, y: (artworkBounds.minY + artworkBounds.maxY) / 2 },
+      };
+      return { ...prev, texts: [...prev.texts, layer], selectedTextId: layer.id };
+    });
+  };
+
+  const handleDuplicateText = (layerId: string) => {
+    setEditFormData((prev) => {
+      const source = prev.texts.find((layer) => layer.id === layerId);
+      if (!source) return prev;
+      const copy: EditorTextLayer = {
+        ...source,
+        id: newLayerId(),
+        label: t('editor.layerCopy', { label: slotLabel(source.label) }),
+        position: {
+          x: Math.min(source.position.x + 10, artworkBounds.maxX - 10),
+          y: Math.min(source.position.y + 10, artworkBounds.maxY - 10),
+        },
+      };
+      const index = prev.texts.indexOf(source);
+      return {
+        ...prev,
+        texts: [...prev.texts.slice(0, index + 1), copy, ...prev.texts.slice(index + 1)],
+        selectedTextId: copy.id,
+      };
+    });
+  };
+
+  const handleDeleteText = (layerId: string) => {
     setEditFormData((prev) => {
-      const scaledWidth = (textRef.current?.offsetWidth || 0) * zoomLevel;
-      const scaledHeight = (textRef.current?.offsetHeight || 0) * zoomLevel;
-      const newX = Math.max(0, Math.min(400 - scaledWidth, prev.textPosition.x + info.delta.x / zoomLevel));
-      const newY = Math.max(0, Math.min(280 - scaledHeight, prev.textPosition.y + info.delta.y / zoomLevel));
+      const texts = prev.texts.filter((layer) => layer.id !== layerId);
       return {
         ...prev,
-        textPosition: { x: newX, y: newY },
+        texts,
+        selectedTextId: prev.selectedTextId === layerId ? texts[texts.length - 1]?.id ?? null : prev.selectedTextId,
       };
     });
   };
 
+  // Shows `poster` in the editor with `state`, without counting an editor open
+  const showEditor = useCallback((poster: Poster, state: EditState) => {
+    openedState.current = state;
+    openedPosterId.current = poster.id;
+    sharedDesignId.current = null;
+    setShareUrl(null);
+    resetEditFormData(state);
+    setEditingPoster(poster);
+  }, [resetEditFormData]);
+
+  const openEditor = useCallback((poster: Poster, state: EditState) => {
+    // Fire and forget: analytics must never hold up the editor
+    fetch('/api/events', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ posterId: poster.id, kind: 'open', sessionId: getAnonymousSessionId() }),
+    }).catch((err) => console.error('Error recording editor open:', err));
+
+    showEditor(poster, state);
+  }, [showEditor]);
+
+  // Opens /users/wishme?design=<id> in the editor
+  useEffect(() => {
+    if (sharedDesignLoaded.current) return;
+    sharedDesignLoaded.current = true;
+
+    const designId = new URLSearchParams(window.location.search).get('design');
+    if (!designId) return;
+
+    const openSharedDesign = async () => {
+      try {
+        const response = await fetch(`/api/designs/${encodeURIComponent(designId)}`);
+        const design = await response.json();
+        if (!response.ok) throw new Error(design.error || 'Design not found');
+
+        const poster = await getPoster(design.posterId);
+        if (!poster) throw new Error('The poster for this design is no longer available');
+
+        let image: File | null = null;
+        if (design.photoUrl) {
+          const photoResponse = await fetch(design.photoUrl);
+          if (!photoResponse.ok) throw new Error('Failed to load the design photo');
+          const blob = await photoResponse.blob();
+          image = new File([blob], 'photo', { type: blob.type });
+        }
+
+        openEditor(
+          poster,
+          editStateFromCustomization(resolveTemplate(poster), design.state, image, (number) => t('editor.textLayer', { number }))
+        );
+        sharedDesignId.current = design.id;
+      } catch (err) {
+        console.error('Error opening shared design:', err);
+        setErrorMessage({ key: 'wishme.error.openSharedDesign', params: { message: (err as Error).message } });
+      }
+    };
+
+    openSharedDesign();
+  }, [getPoster, openEditor, t]);
+
+  const handleUpcomingSelect = (poster: Poster) => {
+    if (poster.is_editable) handleEditOpen(poster);
+    else handleDownload(poster.id, poster.download_url || poster.psd_url || '', poster.title);
+  };
+
+  const handleEditOpen = async (poster: Poster) => {
+    console.log('Edit button clicked for poster:', poster);
+    setPendingDraft(null);
+    openEditor(poster, createEditState(posterTemplate(poster, fonts)));
+
+    try {
+      const draft = await loadDraft<DraftState>(poster.id);
+      // The user may have closed or switched posters while the draft loaded
+      if (draft && openedPosterId.current === poster.id) setPendingDraft(draft);
+    } catch (err) {
+      console.error('Error loading draft:', err);
+    }
+  };
+
+  const persistDraft = async (poster: Poster, state: EditState) => {
+    const { image, ...settings } = state;
+    const draft: Draft<DraftState> = {
+      posterId: poster.id,
+      posterTitle: poster.title,
+      posterImageUrl: poster.download_url || poster.psd_url || null,
+      state: settings,
+      image,
+      updatedAt: Date.now(),
+    };
+
+    try {
+      await saveDraft(draft);
+      setDrafts((prev) => [draft, ...prev.filter((d) => d.posterId !== poster.id)]);
+      // Saving replaced whatever the resume prompt offered
+      setPendingDraft((prev) => (prev?.posterId === poster.id ? null : prev));
+    } catch (err) {
+      console.error('Error saving draft:', err);
+    }
+  };
+
+  const handleResumeDraft = async (draft: Draft<DraftState>) => {
+    try {
+      const poster = await getPoster(draft.posterId);
+      if (!poster) {
+        setErrorMessage({ key: 'wishme.error.posterUnavailable' });
+        return;
+      }
+      setPendingDraft(null);
+      // Resuming from the prompt swaps the state of a poster already opened, and counted
+      if (openedPosterId.current === poster.id) showEditor(poster, restoreDraft(draft));
+      else openEditor(poster, restoreDraft(draft));
+    } catch (err) {
+      console.error('Error resuming draft:', err);
+      setErrorMessage({ key: 'wishme.error.openDraft', params: { message: (err as Error).message } });
+    }
+  };
+
+  const handleDeleteDraft = async (posterId: number) => {
+    try {
+      await deleteDraft(posterId);
+      setDrafts((prev) => prev.filter((d) => d.posterId !== posterId));
+      setPendingDraft((prev) => (prev?.posterId === posterId ? null : prev));
+    } catch (err) {
+      console.error('Error deleting draft:', err);
+      setErrorMessage({ key: 'wishme.error.deleteDraft' });
+    }
+  };
+
+  // Items may move anywhere on the artwork, which is the template area fitted into the preview
+  const artworkBounds = {
+    minX: previewFit.offsetX,
+    minY: previewFit.offsetY,
+    maxX: previewFit.offsetX + template.width * previewFit.scale,
+    maxY: previewFit.offsetY + template.height * previewFit.scale,
+  };
+
+  const handleTextDrag = (layerId: string) => (_e: any, info: { delta: { x: number; y: number } }) => {
+    setEditFormData((prev) => {
+      const scaledWidth = (textRefs.current[layerId]?.offsetWidth || 0) * zoomLevel;
+      const scaledHeight = (textRefs.current[layerId]?.offsetHeight || 0) * zoomLevel;
+      return {
+        ...prev,
+        selectedTextId: layerId,
+        texts: prev.texts.map((layer) => {
+          if (layer.id !== layerId) return layer;
+          const newX = Math.max(artworkBounds.minX, Math.min(artworkBounds.maxX - scaledWidth, layer.position.x + info.delta.x / zoomLevel));
+          const newY = Math.max(artworkBounds.minY, Math.min(artworkBounds.maxY - scaledHeight, layer.position.y + info.delta.y / zoomLevel));
+          return { ...layer, position: { x: newX, y: newY } };
+        }),
+      };
+    }, { transient: true });
+  };
+
   const handleImageDrag = (_e: any, info: { delta: { x: number; y: number } }) => {
     setEditFormData((prev) => {
       const scaledWidth = prev.imageSize.width * zoomLevel;
       const scaledHeight = prev.imageSize.height * zoomLevel;
-      const newX = Math.max(0, Math.min(400 - scaledWidth, prev.imagePosition.x + info.delta.x / zoomLevel));
-      const newY = Math.max(0, Math.min(280 - scaledHeight, prev.imagePosition.y + info.delta.y / zoomLevel));
+      const newX = Math.max(artworkBounds.minX, Math.min(artworkBounds.maxX - scaledWidth, prev.imagePosition.x + info.delta.x / zoomLevel));
+      const newY = Math.max(artworkBounds.minY, Math.min(artworkBounds.maxY - scaledHeight, prev.imagePosition.y + info.delta.y / zoomLevel));
       return {
         ...prev,
         imagePosition: { x: newX, y: newY },
       };
-    });
+    }, { transient: true });
   };
 
   const handleFontSizeChange = (delta: number) => {
-    setEditFormData((prev) => ({
-      ...prev,
-      fontSize: Math.max(10, prev.fontSize + delta),
-    }));
+    updateSelectedText((layer) => ({ fontSize: Math.max(10, layer.fontSize + delta) }));
   };
 
   const handleImageSizeChange = (deltaWidth: number, deltaHeight: number) => {
@@ -338,10 +870,11 @@ export default function UserDashboard() {
   };
 
   const handleRotationChange = (type: 'text' | 'image', delta: number) => {
-    setEditFormData((prev) => ({
-      ...prev,
-      [type === 'text' ? 'textRotation' : 'imageRotation']: (prev[type === 'text' ? 'textRotation' : 'imageRotation'] + delta) % 360,
-    }));
+    if (type === 'text') {
+      updateSelectedText((layer) => ({ rotation: (layer.rotation + delta) % 360 }));
+    } else {
+      setEditFormData((prev) => ({ ...prev, imageRotation: (prev.imageRotation + delta) % 360 }));
+    }
   };
 
   const handleResizeStart = (e: React.MouseEvent | React.TouchEvent, handle: 'bottom-right' | 'top-left') => {
@@ -350,6 +883,7 @@ export default function UserDashboard() {
     const startY = 'touches' in e ? e.touches[0].clientY : e.clientY;
     const startWidth = editFormData.imageSize.width;
     const startHeight = editFormData.imageSize.height;
+    beginGesture();
 
     const handleResizeMove = (moveEvent: MouseEvent | TouchEvent) => {
       const clientX = 'touches' in moveEvent ? moveEvent.touches[0].clientX : moveEvent.clientX;
@@ -373,20 +907,20 @@ export default function UserDashboard() {
         const aspectRatio = startWidth / startHeight;
         newHeight = newWidth / aspectRatio;
 
-        // Ensure image stays within preview bounds
+        // Ensure image stays within the artwork
         const scaledWidth = newWidth * zoomLevel;
         const scaledHeight = newHeight * zoomLevel;
-        const maxX = 400 - scaledWidth;
-        const maxY = 280 - scaledHeight;
-        const newX = Math.max(0, Math.min(maxX, prev.imagePosition.x));
-        const newY = Math.max(0, Math.min(maxY, prev.imagePosition.y));
+        const maxX = artworkBounds.maxX - scaledWidth;
+        const maxY = artworkBounds.maxY - scaledHeight;
+        const newX = Math.max(artworkBounds.minX, Math.min(maxX, prev.imagePosition.x));
+        const newY = Math.max(artworkBounds.minY, Math.min(maxY, prev.imagePosition.y));
 
         return {
           ...prev,
           imageSize: { width: newWidth, height: newHeight },
           imagePosition: { x: newX, y: newY },
         };
-      });
+      }, { transient: true });
     };
 
     const handleResizeEnd = () => {
@@ -409,6 +943,7 @@ export default function UserDashboard() {
 
     const centerX = rect.left + rect.width / 2;
     const centerY = rect.top + rect.height / 2;
+    beginGesture();
 
     const handleRotateMove = (moveEvent: MouseEvent | TouchEvent) => {
       const clientX = 'touches' in moveEvent ? moveEvent.touches[0].clientX : moveEvent.clientX;
@@ -418,7 +953,7 @@ export default function UserDashboard() {
       setEditFormData((prev) => ({
         ...prev,
         imageRotation: angle,
-      }));
+      }), { transient: true });
     };
 
     const handleRotateEnd = () => {
@@ -447,94 +982,122 @@ export default function UserDashboard() {
     }
   };
 
+  // The editor state in the shape /api/render composites at the artwork's full resolution
+  const buildCustomization = (): CustomizationState => ({
+    stage: { width: 400, height: 280 },
+    texts: editFormData.texts
+      .filter((layer) => layer.text)
+      .map((layer) => ({
+        id: layer.id,
+        text: layer.text,
+        color: layer.color,
+        fontSize: layer.fontSize,
+        fontFamily: layer.fontFamily,
+        fontStyle: layer.fontStyle,
+        fontWeight: layer.fontWeight,
+        rotation: layer.rotation,
+        position: layer.position,
+      })),
+    photo: editFormData.image
+      ? {
+          position: editFormData.imagePosition,
+          size: editFormData.imageSize,
+          rotation: editFormData.imageRotation,
+          mask: template.photoSlots[0]?.mask ?? 'rectangle',
+        }
+      : null,
+  });
+
   const handleEditSave = async () => {
-    if (!canvasRef.current || typeof window === 'undefined') {
-      console.error('Canvas ref is null or not in browser environment');
-      setErrorMessage('Cannot save: Canvas not found');
-      return;
-    }
+    if (!editingPoster) return;
 
+    setIsRendering(true);
     try {
       console.log('Saving customized poster');
-      const canvas = await html2canvas(canvasRef.current, {
-        useCORS: true,
-        scale: 2, // Increase resolution for better quality
-        backgroundColor: null,
-      });
+      const body = new FormData();
+      body.append('posterId', editingPoster.id.toString());
+      body.append('state', JSON.stringify(buildCustomization()));
+      if (editFormData.image) body.append('photo', editFormData.image);
+
+      const response = await fetch('/api/render', { method: 'POST', body });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Render failed');
+      }
+
+      const blob = await response.blob();
+      const blobUrl = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
-      link.href = canvas.toDataURL('image/png', 1.0);
+      link.href = blobUrl;
       link.download = `${editingPoster!.title}-customized.png`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      window.URL.revokeObjectURL(blobUrl);
 
-      const { error } = await supabase
-        .from('posters')
-        .update({ download_count: (editingPoster!.download_count || 0) + 1 })
-        .eq('id', editingPoster!.id);
-
-      if (error) {
-        console.error('Failed to update download count:', error);
-        setErrorMessage('Failed to update download count.');
-      } else {
-        setPosters(prev =>
-          prev.map(poster =>
-            poster.id === editingPoster!.id
-              ? { ...poster, download_count: (poster.download_count || 0) + 1 }
-              : poster
-          )
-        );
-        setFilteredPosters(prev =>
-          prev.map(poster =>
-            poster.id === editingPoster!.id
-              ? { ...poster, download_count: (poster.download_count || 0) + 1 }
-              : poster
-          )
-        );
-      }
+      await recordDownload(editingPoster.id, 'customized');
 
-      setEditingPoster(null);
-      setEditFormData({
-        name: '',
-        image: null,
-        textColor: '#FFFFFF',
-        imagePosition: { x: 50, y: 180 },
-        textPosition: { x: 200, y: 240 },
-        fontSize: 24,
-        fontFamily: 'Arial',
-        fontStyle: 'normal',
-        fontWeight: 'normal',
-        textRotation: 0,
-        imageRotation: 0,
-        imageSize: { width: 100, height: 100 },
-      });
-      setZoomLevel(1);
+      if (editFormData !== openedState.current) persistDraft(editingPoster, editFormData);
+      closeEditor();
     } catch (error) {
       console.error('Error saving customized poster:', error);
-      setErrorMessage('Failed to save customized poster: ' + (error as Error).message);
+      setErrorMessage({ key: 'wishme.error.saveCustomized', params: { message: (error as Error).message } });
+    } finally {
+      setIsRendering(false);
     }
   };
 
-  const closeEditModal = () => {
-    console.log('Closing edit modal');
+  const handleShare = async () => {
+    if (!editingPoster) return;
+
+    setIsSharing(true);
+    try {
+      const body = new FormData();
+      body.append('posterId', editingPoster.id.toString());
+      body.append('state', JSON.stringify(buildCustomization()));
+      if (editFormData.image) body.append('photo', editFormData.image);
+      if (sharedDesignId.current) body.append('parentId', sharedDesignId.current);
+
+      const response = await fetch('/api/designs', { method: 'POST', body });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Share failed');
+
+      const url = new URL(result.url, window.location.origin).toString();
+      setShareUrl(url);
+      try {
+        await navigator.clipboard.writeText(url);
+      } catch {
+        // The link is shown in the editor either way
+      }
+    } catch (error) {
+      console.error('Error sharing design:', error);
+      setErrorMessage({ key: 'wishme.error.share', params: { message: (error as Error).message } });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const closeEditor = () => {
+    openedState.current = null;
+    openedPosterId.current = null;
+    sharedDesignId.current = null;
+    setShareUrl(null);
     setEditingPoster(null);
-    setEditFormData({
-      name: '',
-      image: null,
-      textColor: '#FFFFFF',
-      imagePosition: { x: 50, y: 180 },
-      textPosition: { x: 200, y: 240 },
-      fontSize: 24,
-      fontFamily: 'Arial',
-      fontStyle: 'normal',
-      fontWeight: 'normal',
-      textRotation: 0,
-      imageRotation: 0,
-      imageSize: { width: 100, height: 100 },
-    });
+    setPendingDraft(null);
+    resetEditFormData(createEditState(DEFAULT_TEMPLATE));
     setZoomLevel(1);
   };
 
+  const closeEditModal = () => {
+    console.log('Closing edit modal');
+    // Keep the last few hundred milliseconds of work the autosave has not caught yet
+    if (editingPoster && editFormData !== openedState.current) persistDraft(editingPoster, editFormData);
+    closeEditor();
+  };
+
+  const activeText = editFormData.texts.find((layer) => layer.id === editFormData.selectedTextId) ?? null;
+  const showUpcoming = bannerView === 'upcoming' && upcoming.length > 0;
+
   const toggleDarkMode = () => {
     setIsDarkMode(!isDarkMode);
     document.documentElement.classList.toggle('dark');
@@ -550,15 +1113,16 @@ export default function UserDashboard() {
               initial={{ opacity: 0, x: -20 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ duration: 0.5 }}
-              aria-label="WishMe Logo"
+              aria-label={t('wishme.logo')}
             >
               WishMe <Sparkles className="logo-icon" aria-hidden="true" />
             </motion.h1>
           </div>
           <div className="header-actions">
+            <LocaleSwitcher className="locale-switcher" />
             <button
               className="profile-btn"
-              aria-label="User Profile"
+              aria-label={t('wishme.profile')}
               suppressHydrationWarning
             >
               <User size={20} />
@@ -566,7 +1130,7 @@ export default function UserDashboard() {
             <button
               className="mode-toggle"
               onClick={toggleDarkMode}
-              aria-label={isDarkMode ? 'Switch to light mode' : 'Switch to dark mode'}
+              aria-label={isDarkMode ? t('wishme.lightMode') : t('wishme.darkMode')}
               suppressHydrationWarning
             >
               {isDarkMode ? <Sun size={20} /> : <Moon size={20} />}
@@ -578,10 +1142,10 @@ export default function UserDashboard() {
             <Search className="search-icon" size={20} aria-hidden="true" />
             <input
               type="text"
-              placeholder="Search by name or category..."
+              placeholder={t('wishme.searchPlaceholder')}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              aria-label="Search posters"
+              aria-label={t('wishme.searchLabel')}
               suppressHydrationWarning
             />
           </div>
@@ -591,12 +1155,12 @@ export default function UserDashboard() {
             value={selectedCategory}
             onChange={(e) => setSelectedCategory(e.target.value)}
             className="filter-select"
-            aria-label="Select category"
+            aria-label={t('wishme.selectCategory')}
             suppressHydrationWarning
           >
-            {['All', 'Festival', 'Birthday', 'Marriage'].map(category => (
+            {['All', ...categories.map(category => category.name)].map(category => (
               <option key={category} value={category}>
-                {category}
+                {category === 'All' ? t('wishme.allCategories') : category}
               </option>
             ))}
           </select>
@@ -604,21 +1168,50 @@ export default function UserDashboard() {
             value={sortBy}
             onChange={(e) => setSortBy(e.target.value as 'latest' | 'popular')}
             className="sort-select"
-            aria-label="Sort posters"
+            aria-label={t('wishme.sortLabel')}
+            disabled={!!debouncedQuery}
+            title={debouncedQuery ? t('wishme.sortedByRelevance') : undefined}
             suppressHydrationWarning
           >
-            <option value="latest">Latest</option>
-            <option value="popular">Most Popular</option>
+            <option value="latest">{t('wishme.sortLatest')}</option>
+            <option value="popular">{t('wishme.sortPopular')}</option>
           </select>
         </div>
       </header>
 
-      <section className="banner" aria-label="Category selection">
+      <section className="banner" aria-label={showUpcoming ? t('wishme.upcomingLabel') : t('wishme.categoryLabel')}>
         <div className="banner-content">
-          <CategoryScroll
-            selectedCategory={selectedCategory}
-            setSelectedCategory={setSelectedCategory}
-          />
+          {upcoming.length > 0 && (
+            <div className="banner-tabs" role="tablist">
+              <button
+                role="tab"
+                aria-selected={showUpcoming}
+                className={showUpcoming ? 'active' : ''}
+                onClick={() => setBannerView('upcoming')}
+                suppressHydrationWarning
+              >
+                {t('wishme.upcoming')}
+              </button>
+              <button
+                role="tab"
+                aria-selected={!showUpcoming}
+                className={showUpcoming ? '' : 'active'}
+                onClick={() => setBannerView('categories')}
+                suppressHydrationWarning
+              >
+                {t('wishme.categories')}
+              </button>
+            </div>
+          )}
+          {showUpcoming ? (
+            <UpcomingOccasions occasions={upcoming} countdowns={countdowns} onSelect={handleUpcomingSelect} />
+          ) : (
+            <CategoryScroll
+              categories={categories}
+              selectedCategory={selectedCategory}
+              setSelectedCategory={setSelectedCategory}
+            />
+          )}
         </div>
       </section>
 
@@ -630,10 +1223,10 @@ export default function UserDashboard() {
           exit={{ opacity: 0, y: -10 }}
           role="alert"
         >
-          {errorMessage}
+          {t(errorMessage.key, errorMessage.params)}
           <button
             onClick={() => setErrorMessage(null)}
-            aria-label="Dismiss error"
+            aria-label={t('wishme.dismissError')}
             className="error-close"
           >
             ×
@@ -641,7 +1234,41 @@ export default function UserDashboard() {
         </motion.div>
       )}
 
-      <section className="posters-section" aria-label="Poster gallery">
+      {drafts.length > 0 && (
+        <section className="drafts-section" aria-label={t('wishme.myDrafts')}>
+          <h3>{t('wishme.myDrafts')}</h3>
+          <div className="drafts-list">
+            {drafts.map((draft) => (
+              <div key={draft.posterId} className="draft-card">
+                {draft.posterImageUrl && (
+                  <Image
+                    src={draft.posterImageUrl}
+                    alt={draft.posterTitle}
+                    width={64}
+                    height={64}
+                    className="draft-thumbnail"
+                  />
+                )}
+                <div className="draft-info">
+                  <h4>{draft.posterTitle}</h4>
+                  <span>{t('wishme.editedAt', { time: new Date(draft.updatedAt).toLocaleString(locale) })}</span>
+                </div>
+                <div className="draft-actions">
+                  <button onClick={() => handleResumeDraft(draft)} aria-label={t('wishme.resumeTitle', { title: draft.posterTitle })}>
+                    <LucideEdit size={16} aria-hidden="true" />
+                    <span>{t('wishme.resume')}</span>
+                  </button>
+                  <button onClick={() => handleDeleteDraft(draft.posterId)} aria-label={t('wishme.deleteDraft', { title: draft.posterTitle })}>
+                    <Trash2 size={16} aria-hidden="true" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="posters-section" aria-label={t('wishme.gallery')}>
         <AnimatePresence>
           {loading ? (
             <div className="skeleton-grid">
@@ -656,7 +1283,7 @@ export default function UserDashboard() {
               animate={{ opacity: 1 }}
               transition={{ duration: 0.5 }}
             >
-              {filteredPosters.map(poster => (
+              {posters.map((poster, index) => (
                 <motion.div
                   key={poster.id}
                   className="poster-card"
@@ -665,25 +1292,21 @@ export default function UserDashboard() {
                   exit={{ opacity: 0 }}
                   transition={{ duration: 0.3 }}
                   role="article"
-                  aria-label={`Poster: ${poster.title}`}
+                  aria-label={t('wishme.posterLabel', { title: localizedTitle(poster, locale) })}
                 >
                   <div className="poster-image-container">
-                    <Image
-                      src={poster.download_url || poster.psd_url || '/placeholder.png'}
-                      alt={poster.title}
-                      fill
+                    <PosterImage
+                      poster={poster}
                       sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
                       className="poster-image"
-                      {...(filteredPosters.indexOf(poster) < 3
-                        ? { priority: true }
-                        : { loading: 'lazy' })}
+                      priority={index < 3}
                     />
                     {poster.is_editable && (
-                      <span className="editable-badge">Editable</span>
+                      <span className="editable-badge">{t('common.editable')}</span>
                     )}
                   </div>
                   <div className="poster-info">
-                    <h4>{poster.title}</h4>
+                    <h4>{localizedTitle(poster, locale)}</h4>
                     <div className="poster-meta">
                       <span className="poster-category">{poster.category}</span>
                       <span className="download-count">
@@ -698,18 +1321,22 @@ export default function UserDashboard() {
                         whileTap={{ scale: countdowns[poster.id] ? 1 : 0.95 }}
                         onClick={() => handleDownload(poster.id, poster.download_url || poster.psd_url || '', poster.title)}
                         disabled={!!countdowns[poster.id]}
-                        aria-label={countdowns[poster.id] ? `Downloading ${poster.title} in ${countdowns[poster.id]} seconds` : `Download ${poster.title}`}
+                        aria-label={
+                          countdowns[poster.id]
+                            ? t('wishme.downloadingIn', { title: localizedTitle(poster, locale), seconds: countdowns[poster.id] })
+                            : t('wishme.downloadTitle', { title: localizedTitle(poster, locale) })
+                        }
                         suppressHydrationWarning
                       >
                         {countdowns[poster.id] ? (
                           <>
                             <span className="loading-spinner" aria-hidden="true" />
-                            <span>Download starts in {countdowns[poster.id]}s</span>
+                            <span>{t('wishme.downloadStartsIn', { seconds: countdowns[poster.id] })}</span>
                           </>
                         ) : (
                           <>
                             <Download className="download-icon" size={18} aria-hidden="true" />
-                            <span>Download</span>
+                            <span>{t('common.download')}</span>
                           </>
                         )}
                       </motion.button>
@@ -718,15 +1345,12 @@ export default function UserDashboard() {
                           className="edit-btn"
                           whileHover={{ scale: 1.05 }}
                           whileTap={{ scale: 0.95 }}
-                          onClick={() => {
-                            console.log('Edit button clicked for poster:', poster);
-                            setEditingPoster(poster);
-                          }}
-                          aria-label={`Edit ${poster.title}`}
+                          onClick={() => handleEditOpen(poster)}
+                          aria-label={t('wishme.editTitle', { title: localizedTitle(poster, locale) })}
                           suppressHydrationWarning
                         >
                           <LucideEdit size={18} aria-hidden="true" />
-                          <span>Edit</span>
+                          <span>{t('common.edit')}</span>
                         </motion.button>
                       )}
                     </div>
@@ -736,6 +1360,12 @@ export default function UserDashboard() {
             </motion.div>
           )}
         </AnimatePresence>
+        {!loading && (
+          <div ref={sentinelRef} className="load-more" aria-live="polite">
+            {loadingMore && <span className="loading-spinner" aria-hidden="true" />}
+            {!nextCursor && posters.length === 0 && <span>{t('wishme.noPosters')}</span>}
+          </div>
+        )}
       </section>
 
       <AnimatePresence>
@@ -748,48 +1378,59 @@ export default function UserDashboard() {
             transition={{ duration: 0.3 }}
           >
             <div className="modal-content">
-              <h2>Customize Poster</h2>
+              <h2>{t('editor.title')}</h2>
+              {pendingDraft && (
+                <div className="draft-prompt" role="status">
+                  <span>{t('editor.draftFound', { time: new Date(pendingDraft.updatedAt).toLocaleString(locale) })}</span>
+                  <button onClick={() => handleResumeDraft(pendingDraft)}>{t('editor.resumeDraft')}</button>
+                  <button onClick={() => handleDeleteDraft(pendingDraft.posterId)}>{t('editor.startOver')}</button>
+                </div>
+              )}
               <div className="form-wrapper">
-                <div className="preview-container" ref={canvasRef}>
+                <div className="preview-container">
                   <div ref={previewRef} className="preview-content">
                     <Image
-                      src={editingPoster.download_url || editingPoster.psd_url || '/placeholder.png'}
-                      alt="Base Poster"
+                      src={editingPoster.image_variants?.medium?.webp || editingPoster.download_url || editingPoster.psd_url || '/placeholder.png'}
+                      alt={t('editor.basePoster')}
                       width={400}
                       height={280}
                       className="preview-base"
                       style={{ transform: `scale(${zoomLevel})`, transformOrigin: 'center' }}
                     />
-                    {editFormData.name && (
+                    {editFormData.texts.map((layer) => layer.text && (
                       <motion.div
-                        ref={textRef}
+                        key={layer.id}
+                        ref={(el) => { textRefs.current[layer.id] = el; }}
                         drag
                         dragMomentum={false}
-                        onDrag={handleTextDrag}
-                        className="draggable-item draggable-text"
+                        onDragStart={beginGesture}
+                        onDrag={handleTextDrag(layer.id)}
+                        onPointerDown={() => selectText(layer.id)}
+                        className={`draggable-item draggable-text ${layer.id === editFormData.selectedTextId ? 'selected' : ''}`}
                         style={{
                           position: 'absolute',
-                          left: editFormData.textPosition.x,
-                          top: editFormData.textPosition.y,
-                          color: editFormData.textColor,
-                          fontSize: editFormData.fontSize,
-                          fontFamily: editFormData.fontFamily,
-                          fontStyle: editFormData.fontStyle,
-                          fontWeight: editFormData.fontWeight,
-                          transform: `rotate(${editFormData.textRotation}deg) scale(${zoomLevel})`,
+                          left: layer.position.x,
+                          top: layer.position.y,
+                          color: layer.color,
+                          fontSize: layer.fontSize,
+                          fontFamily: layer.fontFamily,
+                          fontStyle: layer.fontStyle,
+                          fontWeight: layer.fontWeight,
+                          transform: `rotate(${layer.rotation}deg) scale(${zoomLevel})`,
                           textShadow: '0 0 4px rgba(0, 0, 0, 0.3)',
-                          whiteSpace: 'nowrap',
+                          whiteSpace: 'pre',
                           zIndex: 10,
                         }}
                       >
-                        {editFormData.name}
+                        {layer.text}
                       </motion.div>
-                    )}
+                    ))}
                     {editFormData.image && (
                       <motion.div
                         ref={imageRef}
                         drag
                         dragMomentum={false}
+                        onDragStart={beginGesture}
                         onDrag={handleImageDrag}
                         className="draggable-item draggable-image"
                         style={{
@@ -802,13 +1443,14 @@ export default function UserDashboard() {
                       >
                         <div className="image-wrapper">
                           <img
-                            src={URL.createObjectURL(editFormData.image)}
-                            alt="User Image"
+                            src={imageUrl ?? undefined}
+                            alt={t('editor.userImage')}
                             style={{
                               width: `${editFormData.imageSize.width}px`,
                               height: `${editFormData.imageSize.height}px`,
+                              objectFit: 'cover',
                               border: '2px solid var(--gold-primary)',
-                              borderRadius: 'var(--radius-sm)',
+                              borderRadius: MASK_RADIUS[template.photoSlots[0]?.mask ?? 'rectangle'],
                               boxShadow: 'var(--shadow-md)',
                             }}
                           />
@@ -832,116 +1474,141 @@ export default function UserDashboard() {
                     )}
                   </div>
                   <div className="scroll-controls">
-                    <button onClick={() => handleScrollPreview('up')} aria-label="Scroll up">
+                    <button onClick={() => handleScrollPreview('up')} aria-label={t('editor.scrollUp')}>
                       <ChevronUp size={20} />
                     </button>
-                    <button onClick={() => handleScrollPreview('down')} aria-label="Scroll down">
+                    <button onClick={() => handleScrollPreview('down')} aria-label={t('editor.scrollDown')}>
                       <ChevronDown size={20} />
                     </button>
                   </div>
+                  <div className="history-controls">
+                    <button onClick={undo} disabled={!canUndo} aria-label={t('editor.undo')} title={t('editor.undoHint')}>
+                      <Undo2 size={18} />
+                    </button>
+                    <button onClick={redo} disabled={!canRedo} aria-label={t('editor.redo')} title={t('editor.redoHint')}>
+                      <Redo2 size={18} />
+                    </button>
+                  </div>
                   <div className="zoom-controls">
-                    <button onClick={() => handleZoom(-0.1)} aria-label="Zoom out">-</button>
+                    <button onClick={() => handleZoom(-0.1)} aria-label={t('editor.zoomOut')}>-</button>
                     <span>{(zoomLevel * 100).toFixed(0)}%</span>
-                    <button onClick={() => handleZoom(0.1)} aria-label="Zoom in">+</button>
+                    <button onClick={() => handleZoom(0.1)} aria-label={t('editor.zoomIn')}>+</button>
                   </div>
                 </div>
                 <div>
                   <div className="form-group">
-                    <label>Your Name</label>
-                    <input
-                      type="text"
-                      name="name"
-                      value={editFormData.name}
-                      onChange={handleEditInputChange}
-                      placeholder="Enter your name"
-                      maxLength={50}
-                    />
-                  </div>
-                  <div className="form-group">
-                    <label>Text Color</label>
-                    <input
-                      type="color"
-                      name="textColor"
-                      value={editFormData.textColor}
-                      onChange={handleEditInputChange}
-                    />
-                  </div>
-                  <div className="form-group">
-                    <label>Font Family</label>
-                    <select
-                      name="fontFamily"
-                      value={editFormData.fontFamily}
-                      onChange={handleEditInputChange}
-                    >
-                      <option value="Arial">Arial</option>
-                      <option value="Georgia">Georgia</option>
-                      <option value="Times New Roman">Times New Roman</option>
-                      <option value="Verdana">Verdana</option>
-                      <option value="Courier New">Courier New</option>
-                      <option value="Impact">Impact</option>
-                      <option value="Roboto">Roboto</option>
-                      <option value="Montserrat">Montserrat</option>
-                      <option value="Poppins">Poppins</option>
-                    </select>
-                  </div>
-                  <div className="form-group">
-                    <label>Font Style</label>
-                    <select
-                      name="fontStyle"
-                      value={editFormData.fontStyle}
-                      onChange={handleEditInputChange}
-                    >
-                      <option value="normal">Normal</option>
-                      <option value="italic">Italic</option>
-                    </select>
-                  </div>
-                  <div className="form-group">
-                    <label>Font Weight</label>
-                    <select
-                      name="fontWeight"
-                      value={editFormData.fontWeight}
-                      onChange={handleEditInputChange}
-                    >
-                      <option value="normal">Normal</option>
-                      <option value="bold">Bold</option>
-                    </select>
-                  </div>
-                  <div className="form-group">
-                    <label>Font Size</label>
-                    <div className="control-buttons">
-                      <button onClick={() => handleFontSizeChange(-2)}>-</button>
-                      <span>{editFormData.fontSize}px</span>
-                      <button onClick={() => handleFontSizeChange(2)}>+</button>
+                    <label>{t('editor.textLayers')}</label>
+                    <div className="text-layer-list">
+                      {editFormData.texts.map((layer) => (
+                        <div
+                          key={layer.id}
+                          className={`text-layer-row ${layer.id === editFormData.selectedTextId ? 'selected' : ''}`}
+                        >
+                          <input
+                            type="text"
+                            value={layer.text}
+                            onChange={(e) => handleLayerTextChange(layer.id, e.target.value)}
+                            onFocus={() => selectText(layer.id)}
+                            placeholder={slotLabel(layer.label)}
+                            aria-label={slotLabel(layer.label)}
+                            maxLength={100}
+                          />
+                          <button onClick={() => handleDuplicateText(layer.id)} aria-label={t('editor.duplicateLayer', { label: slotLabel(layer.label) })}>
+                            <Copy size={16} />
+                          </button>
+                          <button onClick={() => handleDeleteText(layer.id)} aria-label={t('editor.deleteLayer', { label: slotLabel(layer.label) })}>
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      ))}
                     </div>
+                    <button className="add-text-button" onClick={handleAddText}>
+                      <Plus size={16} /> {t('editor.addText')}
+                    </button>
                   </div>
-                  <div className="form-group">
-                    <label>Text Rotation</label>
-                    <div className="control-buttons">
-                      <button onClick={() => handleRotationChange('text', -15)}>-</button>
-                      <span>{editFormData.textRotation}°</span>
-                      <button onClick={() => handleRotationChange('text', 15)}>+</button>
+                  {activeText && (
+                    <>
+                      <div className="form-group">
+                        <label>{t('editor.textColor')}</label>
+                        <input
+                          type="color"
+                          name="color"
+                          value={activeText.color}
+                          onChange={handleEditInputChange}
+                        />
+                      </div>
+                      <div className="form-group">
+                        <label>{t('editor.fontFamily')}</label>
+                        <select
+                          name="fontFamily"
+                          value={activeText.fontFamily}
+                          onChange={handleEditInputChange}
+                        >
+                          <FontOptions value={activeText.fontFamily} library={pickerFonts} />
+                        </select>
+                      </div>
+                      <div className="form-group">
+                        <label>{t('editor.fontStyle')}</label>
+                        <select
+                          name="fontStyle"
+                          value={activeText.fontStyle}
+                          onChange={handleEditInputChange}
+                        >
+                          <option value="normal">{t('editor.normal')}</option>
+                          <option value="italic">{t('editor.italic')}</option>
+                        </select>
+                      </div>
+                      <div className="form-group">
+                        <label>{t('editor.fontWeight')}</label>
+                        <select
+                          name="fontWeight"
+                          value={activeText.fontWeight}
+                          onChange={handleEditInputChange}
+                        >
+                          <option value="normal">{t('editor.normal')}</option>
+                          <option value="bold">{t('editor.bold')}</option>
+                        </select>
+                      </div>
+                      <div className="form-group">
+                        <label>{t('editor.fontSize')}</label>
+                        <div className="control-buttons">
+                          <button onClick={() => handleFontSizeChange(-2)}>-</button>
+                          <span>{activeText.fontSize}px</span>
+                          <button onClick={() => handleFontSizeChange(2)}>+</button>
+                        </div>
+                      </div>
+                      <div className="form-group">
+                        <label>{t('editor.textRotation')}</label>
+                        <div className="control-buttons">
+                          <button onClick={() => handleRotationChange('text', -15)}>-</button>
+                          <span>{activeText.rotation}°</span>
+                          <button onClick={() => handleRotationChange('text', 15)}>+</button>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                  {template.photoSlots.length > 0 && (
+                    <div className="form-group">
+                      <label>{t('editor.photoHint', { label: slotLabel(template.photoSlots[0].label) })}</label>
+                      <input
+                        type="file"
+                        name="image"
+                        accept="image/png"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file && file.size > 5 * 1024 * 1024) {
+                            setErrorMessage({ key: 'wishme.error.imageTooLarge' });
+                            return;
+                          }
+                          handleEditInputChange(e);
+                        }}
+                      />
                     </div>
-                  </div>
-                  <div className="form-group">
-                    <label>Upload Image (PNG only, max 5MB, optional)</label>
-                    <input
-                      type="file"
-                      name="image"
-                      accept="image/png"
-                      onChange={(e) => {
-                        const file = e.target.files?.[0];
-                        if (file && file.size > 5 * 1024 * 1024) {
-                          setErrorMessage('Uploaded image exceeds 5MB limit.');
-                          return;
-                        }
-                        handleEditInputChange(e);
-                      }}
-                    />
-                  </div>
+                  )}
                   {editFormData.image && (
                     <>
                       <div className="form-group">
-                        <label>Image Size</label>
+                        <label>{t('editor.imageSize')}</label>
                         <div className="control-buttons">
                           <button onClick={() => handleImageSizeChange(-10, -10)}>-</button>
                           <span>{editFormData.imageSize.width}x{editFormData.imageSize.height}</span>
@@ -949,7 +1616,7 @@ export default function UserDashboard() {
                         </div>
                       </div>
                       <div className="form-group">
-                        <label>Image Rotation</label>
+                        <label>{t('editor.imageRotation')}</label>
                         <div className="control-buttons">
                           <button onClick={() => handleRotationChange('image', -15)}>-</button>
                           <span>{editFormData.imageRotation}°</span>
@@ -960,16 +1627,27 @@ export default function UserDashboard() {
                   )}
                 </div>
               </div>
+              {shareUrl && (
+                <div className="share-result" role="status">
+                  <span>{t('editor.shareHint')}</span>
+                  <input type="text" value={shareUrl} readOnly onFocus={(e) => e.target.select()} aria-label={t('editor.shareLink')} />
+                </div>
+              )}
               <div className="modal-actions">
                 <button
                   className="submit-button"
                   onClick={handleEditSave}
+                  disabled={isRendering}
                 >
                   <Download size={18} aria-hidden="true" />
-                  Download Customized Poster
+                  {isRendering ? t('editor.rendering') : t('editor.downloadCustomized')}
+                </button>
+                <button className="share-button" onClick={handleShare} disabled={isSharing}>
+                  <Share2 size={18} aria-hidden="true" />
+                  {isSharing ? t('editor.sharing') : t('editor.share')}
                 </button>
                 <button className="cancel-button" onClick={closeEditModal}>
-                  Cancel
+                  {t('common.cancel')}
                 </button>
               </div>
             </div>
@@ -981,15 +1659,15 @@ export default function UserDashboard() {
         className="wish-generator"
         whileHover={{ scale: 1.1 }}
         whileTap={{ scale: 0.95 }}
-        aria-label="Open Wish Generator"
+        aria-label={t('wishme.openWishGenerator')}
         suppressHydrationWarning
       >
         <Sparkles size={20} aria-hidden="true" />
-        <span>Wish Generator</span>
+        <span>{t('wishme.wishGenerator')}</span>
       </motion.button>
 
       <footer className="footer" role="contentinfo">
-        <p>© 2025 WishMe • Made with 💖 by Vardhan Raju</p>
+        <p>{t('wishme.footer')}</p>
       </footer>
     </div>
   );
@@ -0,0 +1,96 @@
+import { useCallback, useRef, useState } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface SetOptions {
+  // Consecutive changes with the same key share one step (typing into a field, sliding a color picker).
+  coalesce?: string;
+  // Update without adding a step: selection changes, and moves inside a gesture.
+  transient?: boolean;
+}
+
+// Editor state with an undo/redo stack. Every `set` is one step unless it is transient or
+// coalesced; a drag or resize calls `beginGesture` once and then sets transiently, so the
+// whole gesture undoes in one go.
+export function useEditHistory<T>(initial: () => T) {
+  const [history, setHistory] = useState<History<T>>(() => ({ past: [], present: initial(), future: [] }));
+  // Mirrors `history` so several sets in one event build on each other, not on a stale render
+  const historyRef = useRef(history);
+  const lastCoalesceKey = useRef<string | null>(null);
+  const gestureStart = useRef<T | null>(null);
+
+  const commit = useCallback((next: History<T>) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const set = useCallback((update: T | ((prev: T) => T), options: SetOptions = {}) => {
+    const { past, present, future } = historyRef.current;
+    const next = typeof update === 'function' ? (update as (prev: T) => T)(present) : update;
+    if (next === present) return;
+
+    if (options.transient) {
+      // The first real move of a gesture is what makes it a step
+      if (gestureStart.current !== null) {
+        commit({ past: [...past, gestureStart.current].slice(-MAX_HISTORY), present: next, future: [] });
+        gestureStart.current = null;
+        lastCoalesceKey.current = null;
+      } else {
+        commit({ past, present: next, future });
+      }
+      return;
+    }
+
+    if (options.coalesce && options.coalesce === lastCoalesceKey.current) {
+      commit({ past, present: next, future: [] });
+      return;
+    }
+
+    lastCoalesceKey.current = options.coalesce ?? null;
+    commit({ past: [...past, present].slice(-MAX_HISTORY), present: next, future: [] });
+  }, [commit]);
+
+  const beginGesture = useCallback(() => {
+    gestureStart.current = historyRef.current.present;
+  }, []);
+
+  const undo = useCallback(() => {
+    const { past, present, future } = historyRef.current;
+    if (past.length === 0) return;
+    lastCoalesceKey.current = null;
+    gestureStart.current = null;
+    commit({ past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] });
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    const { past, present, future } = historyRef.current;
+    if (future.length === 0) return;
+    lastCoalesceKey.current = null;
+    gestureStart.current = null;
+    commit({ past: [...past, present], present: future[0], future: future.slice(1) });
+  }, [commit]);
+
+  // Starts over with no history, e.g. when a different poster is opened
+  const reset = useCallback((next: T) => {
+    lastCoalesceKey.current = null;
+    gestureStart.current = null;
+    commit({ past: [], present: next, future: [] });
+  }, [commit]);
+
+  return {
+    state: history.present,
+    set,
+    beginGesture,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { isAvailableFont, SYSTEM_FONTS, type Font } from '@/lib/fonts';
+import { useI18n } from './I18nProvider';
+
+// The <option>s of a font picker: system fonts, then library fonts in the order given.
+// `value` is listed first when it's neither, e.g. a font since deleted from the library.
+export default function FontOptions({ value, library }: { value: string; library: Font[] }) {
+  const { t } = useI18n();
+
+  return (
+    <>
+      {!isAvailableFont(value, library) && <option value={value}>{value}</option>}
+      <optgroup label={t('common.systemFonts')}>
+        {SYSTEM_FONTS.map((font) => (
+          <option key={font} value={font}>
+            {font}
+          </option>
+        ))}
+      </optgroup>
+      {library.length > 0 && (
+        <optgroup label={t('common.libraryFonts')}>
+          {library.map((font) => (
+            <option key={font.id} value={font.name}>
+              {font.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_LOCALE, isLocale, translate, type Locale, type Messages, type Translate } from '@/lib/i18n';
+import en from '@/lib/messages/en';
+import hi from '@/lib/messages/hi';
+import mr from '@/lib/messages/mr';
+import ta from '@/lib/messages/ta';
+
+const STORAGE_KEY = 'wishme-locale';
+const DICTIONARIES: Record<Locale, Messages> = { en, hi, ta, mr };
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// The visitor's saved choice, else the first browser language we have
+const initialLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage can be disabled; fall back to the browser languages
+  }
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+// Holds the UI language for the whole app. The server always renders English; the stored
+// or browser language is applied after hydration so both renders match.
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(initialLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Not remembered across visits, but still applied for this one
+    }
+  }, []);
+
+  const t = useCallback<Translate>(
+    (key, params) => translate(DICTIONARIES[locale], key, params),
+    [locale]
+  );
+
+  const value = useMemo(() => ({ locale, setLocale, t }), [locale, setLocale, t]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside I18nProvider');
+  return context;
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { LOCALES, LOCALE_NAMES, isLocale } from '@/lib/i18n';
+import { useI18n } from './I18nProvider';
+
+// Picks the UI language; the choice is remembered in this browser
+export default function LocaleSwitcher({ className }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+      className={className}
+      aria-label={t('common.language')}
+    >
+      {LOCALES.map((code) => (
+        <option key={code} value={code} lang={code}>
+          {LOCALE_NAMES[code]}
+        </option>
+      ))}
+    </select>
+  );
+}
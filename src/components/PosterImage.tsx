@@ -0,0 +1,49 @@
+import Image from 'next/image';
+import { variantSrcSet, type ImageVariants } from '@/lib/variants';
+
+interface PosterImageProps {
+  poster: { title: string; download_url: string; psd_url?: string; image_variants?: ImageVariants | null };
+  // Displayed width, as for next/image; picks the smallest rendition that covers it
+  sizes: string;
+  className?: string;
+  priority?: boolean;
+}
+
+// A poster filling its (positioned) container. Serves the renditions generated at upload,
+// WebP with a JPEG fallback; posters without them go through next/image as before.
+export default function PosterImage({ poster, sizes, className, priority }: PosterImageProps) {
+  const variants = poster.image_variants;
+  const fallback = variants?.card ?? variants?.medium ?? variants?.full;
+
+  if (!variants || !fallback) {
+    return (
+      <Image
+        src={poster.download_url || poster.psd_url || '/placeholder.png'}
+        alt={poster.title}
+        fill
+        sizes={sizes}
+        className={className}
+        {...(priority ? { priority: true } : { loading: 'lazy' })}
+      />
+    );
+  }
+
+  return (
+    <picture>
+      <source type="image/webp" srcSet={variantSrcSet(variants, 'webp')} sizes={sizes} />
+      {/* Renditions are already sized and compressed, so next/image's optimizer would only re-encode them */}
+      <img
+        src={fallback.jpeg}
+        srcSet={variantSrcSet(variants, 'jpeg')}
+        sizes={sizes}
+        alt={poster.title}
+        width={fallback.width}
+        height={fallback.height}
+        className={className}
+        style={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }}
+        loading={priority ? 'eager' : 'lazy'}
+        fetchPriority={priority ? 'high' : undefined}
+      />
+    </picture>
+  );
+}
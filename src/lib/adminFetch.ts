@@ -0,0 +1,15 @@
+import { supabase } from './supabase';
+
+// The signed-in user's access token, for admin requests that can't go through adminFetch
+export async function getAccessToken() {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ?? null;
+}
+
+// fetch() for admin API routes, sending the signed-in user's access token.
+export async function adminFetch(input: string, init: RequestInit = {}) {
+  const token = await getAccessToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,41 @@
+// Shapes of the admin analytics report served by /api/analytics.
+
+export interface EventCounts {
+  downloads: number;
+  customizedDownloads: number;
+  editorOpens: number;
+}
+
+export interface PosterStats extends EventCounts {
+  posterId: number;
+  title: string;
+  category: string;
+  isEditable: boolean;
+  // Customized downloads per editor open; null when the editor was never opened
+  conversionRate: number | null;
+}
+
+export interface CategoryStats extends EventCounts {
+  category: string;
+}
+
+export interface DailyStats extends EventCounts {
+  // YYYY-MM-DD, UTC
+  day: string;
+}
+
+export interface AnalyticsReport {
+  from: string;
+  to: string;
+  totals: EventCounts & { conversionRate: number | null };
+  // The most downloaded posters, most first
+  topPosters: PosterStats[];
+  categories: CategoryStats[];
+  // Every day in the range, including days without events
+  daily: DailyStats[];
+  // Editable posters opened often but rarely downloaded after customizing
+  rarelySaved: PosterStats[];
+}
+
+export const conversionRate = ({ customizedDownloads, editorOpens }: EventCounts) =>
+  editorOpens > 0 ? customizedDownloads / editorOpens : null;
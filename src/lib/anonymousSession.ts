@@ -0,0 +1,20 @@
+const STORAGE_KEY = 'wishme-session-id';
+
+let fallbackId: string | null = null;
+
+// A random id for this browser, used to tell visitors apart in download and usage logs
+// without knowing who they are.
+export function getAnonymousSessionId(): string {
+  try {
+    let id = localStorage.getItem(STORAGE_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(STORAGE_KEY, id);
+    }
+    return id;
+  } catch {
+    // Storage can be disabled (private mode, blocked cookies); keep one id for this page load
+    fallbackId ??= crypto.randomUUID();
+    return fallbackId;
+  }
+}
@@ -0,0 +1,35 @@
+import { createClient, type User } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { can, getRole, type Permission, type Role } from './roles';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+// Checks the `Authorization: Bearer <access token>` header of an admin API request.
+// On failure `response` is the 401/403 to return as-is.
+export async function requirePermission(
+  request: Request,
+  permission: Permission
+): Promise<{ user?: User; role?: Role; response?: NextResponse }> {
+  const header = request.headers.get('authorization');
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  if (!token) {
+    return { response: NextResponse.json({ error: 'Sign in required' }, { status: 401 }) };
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    return { response: NextResponse.json({ error: 'Session expired, please sign in again' }, { status: 401 }) };
+  }
+
+  const role = getRole(user);
+  if (!can(role, permission)) {
+    console.error('Auth: Permission denied:', { userId: user.id, role, permission });
+    return { response: NextResponse.json({ error: 'You do not have permission to do this' }, { status: 403 }) };
+  }
+
+  return { user, role: role! };
+}
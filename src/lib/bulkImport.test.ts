@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_MANIFEST_ROWS, parseManifest, validateManifestRow } from './bulkImport';
+
+describe('parseManifest', () => {
+  it('reads quoted CSV fields with commas, doubled quotes and line breaks', () => {
+    const csv =
+      '\uFEFFFile,Title,Category,Tags\r\n' +
+      'lamps.png,"Diwali ""Gold"" Lamps",Diwali,"lamps, gold"\r\n' +
+      'wish.psd,"Two\nlines",Birthday,\r\n';
+
+    expect(parseManifest(csv, 'csv')).toEqual({
+      records: [
+        { file: 'lamps.png', title: 'Diwali "Gold" Lamps', category: 'Diwali', tags: 'lamps, gold' },
+        { file: 'wish.psd', title: 'Two\nlines', category: 'Birthday', tags: '' },
+      ],
+    });
+  });
+
+  it('rejects a CSV field whose quote is never closed', () => {
+    const csv = 'file,title,category\nlamps.png,"Diwali Lamps,Diwali\nwish.psd,Birthday Wish,Birthday\n';
+
+    expect(parseManifest(csv, 'csv')).toEqual({ error: 'CSV manifest has a quoted field that is never closed' });
+  });
+
+  it('rejects a CSV manifest without a file column', () => {
+    expect(parseManifest('title,category\nDiwali Lamps,Diwali\n', 'csv').error).toMatch(/"file" column/);
+  });
+
+  it('rejects a manifest without posters', () => {
+    expect(parseManifest('file,title,category\n', 'csv')).toEqual({ error: 'Manifest has no posters' });
+    expect(parseManifest('[]', 'json')).toEqual({ error: 'Manifest has no posters' });
+  });
+
+  it('rejects JSON that is not an array', () => {
+    expect(parseManifest('{"file": "lamps.png"', 'json')).toEqual({ error: 'Manifest is not valid JSON' });
+    expect(parseManifest('{"file": "lamps.png"}', 'json')).toEqual({ error: 'JSON manifest must be an array of posters' });
+  });
+
+  it('rejects more than the maximum number of rows', () => {
+    const rows = Array.from({ length: MAX_MANIFEST_ROWS + 1 }, (_, i) => ({ file: `${i}.png` }));
+    expect(parseManifest(JSON.stringify(rows), 'json').error).toMatch(/more than/);
+  });
+});
+
+describe('validateManifestRow', () => {
+  const library = [{ name: 'Mukta' }];
+  const record = { file: 'lamps.png', title: 'Diwali Lamps', category: 'Diwali' };
+
+  it('defaults the font and accepts system and library fonts', () => {
+    expect(validateManifestRow(record, library).row?.font).toBe('Arial');
+    expect(validateManifestRow({ ...record, font: 'Georgia' }, library).row?.font).toBe('Georgia');
+    expect(validateManifestRow({ ...record, font: 'Mukta' }, library).row?.font).toBe('Mukta');
+  });
+
+  it('rejects a font that is neither a system font nor in the library', () => {
+    expect(validateManifestRow({ ...record, font: 'Roboto' }, library)).toEqual({ error: 'Unknown font: Roboto' });
+  });
+});
@@ -0,0 +1,161 @@
+import { DEFAULT_FONT, isAvailableFont, type Font } from './fonts';
+
+// Manifest format for the bulk poster import: one row per poster, as CSV with a header
+// line or as a JSON array of objects, using the column names below.
+
+export const MANIFEST_COLUMNS = ['file', 'title', 'category', 'font', 'editable', 'thumbnail', 'tags', 'description'] as const;
+export const MAX_MANIFEST_ROWS = 200;
+
+export interface ManifestRow {
+  file: string;
+  title: string;
+  category: string;
+  font: string;
+  editable: boolean;
+  thumbnail: string | null;
+  // Comma-separated, normalized later by normalizeTags
+  tags: string;
+  description: string | null;
+}
+
+export interface ImportResult {
+  // 1-based position in the manifest
+  row: number;
+  title: string;
+  ok: boolean;
+  // Not imported because it already was (Drive imports)
+  skipped?: boolean;
+  downloadLink?: string;
+  error?: string;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+const CONTENT_TYPES: Record<string, string> = {
+  psd: 'image/vnd.adobe.photoshop',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+// The MIME type the upload pipeline stores a file under, or null if it isn't a poster format
+export const contentTypeFor = (name: string) => CONTENT_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+// RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks.
+// Null if a quoted field is never closed, which would otherwise swallow the rows after it.
+const parseCsv = (text: string): string[][] | null => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) return null;
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+};
+
+// Reads the manifest into raw records, one per poster. Problems with individual rows are
+// left to validateManifestRow so they fail on their own; only an unreadable file fails here.
+export function parseManifest(text: string, format: 'csv' | 'json'): { records?: Record<string, unknown>[]; error?: string } {
+  let records: Record<string, unknown>[];
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { error: 'Manifest is not valid JSON' };
+    }
+    if (!Array.isArray(parsed)) return { error: 'JSON manifest must be an array of posters' };
+    records = parsed.map((item) => (item && typeof item === 'object' ? item : {}));
+  } else {
+    const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!rows) return { error: 'CSV manifest has a quoted field that is never closed' };
+    const [header, ...lines] = rows;
+    if (!header) return { error: 'Manifest is empty' };
+    const columns = header.map((name) => name.trim().toLowerCase());
+    if (!columns.includes('file')) return { error: 'CSV manifest needs a header row with a "file" column' };
+    records = lines.map((values) => Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ''])));
+  }
+
+  if (records.length === 0) return { error: 'Manifest has no posters' };
+  if (records.length > MAX_MANIFEST_ROWS) return { error: `Manifest has more than ${MAX_MANIFEST_ROWS} posters` };
+  return { records };
+}
+
+const cell = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+// `fonts` is the font library; a row's font must be in it or be a system font
+export function validateManifestRow(
+  record: Record<string, unknown>,
+  fonts: Pick<Font, 'name'>[]
+): { row?: ManifestRow; error?: string } {
+  const file = cell(record.file);
+  const title = cell(record.title);
+  const category = cell(record.category);
+  if (!file) return { error: 'Missing file' };
+  if (!title) return { error: 'Missing title' };
+  if (!category) return { error: 'Missing category' };
+  if (!contentTypeFor(file)) return { error: `Unsupported file type: ${file}` };
+
+  const font = cell(record.font) || DEFAULT_FONT;
+  if (!isAvailableFont(font, fonts)) return { error: `Unknown font: ${font}` };
+
+  const thumbnail = cell(record.thumbnail) || null;
+  if (thumbnail && !contentTypeFor(thumbnail)) return { error: `Unsupported thumbnail type: ${thumbnail}` };
+
+  let editable: boolean;
+  if (typeof record.editable === 'boolean') {
+    editable = record.editable;
+  } else {
+    const value = cell(record.editable).toLowerCase();
+    if (TRUE_VALUES.includes(value)) editable = true;
+    else if (FALSE_VALUES.includes(value)) editable = false;
+    else return { error: `Editable must be true or false, got "${value}"` };
+  }
+
+  return {
+    row: {
+      file,
+      title,
+      category,
+      font,
+      editable,
+      thumbnail,
+      tags: Array.isArray(record.tags) ? record.tags.join(',') : cell(record.tags),
+      description: cell(record.description) || null,
+    },
+  };
+}
@@ -0,0 +1,70 @@
+export interface Category {
+  id: number;
+  name: string;
+  slug: string;
+  sortOrder: number;
+  // An emoji shown next to the name
+  icon: string | null;
+  isActive: boolean;
+}
+
+export type CategoryInput = Omit<Category, 'id'>;
+
+const MAX_NAME_LENGTH = 40;
+const MAX_ICON_LENGTH = 16;
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Maps a `categories` row to the API shape.
+export const categoryFromRow = (row: any): Category => ({
+  id: row.id,
+  name: row.name,
+  slug: row.slug,
+  sortOrder: row.sort_order,
+  icon: row.icon,
+  isActive: row.is_active,
+});
+
+export const categoryToRow = (category: CategoryInput) => ({
+  name: category.name,
+  slug: category.slug,
+  sort_order: category.sortOrder,
+  icon: category.icon,
+  is_active: category.isActive,
+});
+
+// Checks an untrusted category from the admin screens. A missing slug is derived from the name.
+export function validateCategory(input: unknown): { category?: CategoryInput; error?: string } {
+  if (typeof input !== 'object' || input === null) return { error: 'Category must be an object' };
+  const { name, slug, sortOrder, icon, isActive } = input as Record<string, any>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `Name is required and must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  const finalSlug = slug === undefined || slug === '' ? slugify(name) : slug;
+  if (typeof finalSlug !== 'string' || !SLUG.test(finalSlug)) {
+    return { error: 'Slug may only contain lowercase letters, digits and single dashes' };
+  }
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) return { error: 'Sort order must be a whole number' };
+  if (icon !== undefined && icon !== null && (typeof icon !== 'string' || icon.length > MAX_ICON_LENGTH)) {
+    return { error: `Icon must be at most ${MAX_ICON_LENGTH} characters` };
+  }
+  if (isActive !== undefined && typeof isActive !== 'boolean') return { error: 'Active flag must be true or false' };
+
+  return {
+    category: {
+      name: name.trim(),
+      slug: finalSlug,
+      sortOrder: sortOrder ?? 0,
+      icon: icon ? icon.trim() : null,
+      isActive: isActive ?? true,
+    },
+  };
+}
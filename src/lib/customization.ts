@@ -0,0 +1,107 @@
+import { PHOTO_MASKS, type PhotoMask } from './template';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface TextLayerState {
+  id: string;
+  text: string;
+  color: string;
+  fontSize: number;
+  fontFamily: string;
+  fontStyle: 'normal' | 'italic';
+  fontWeight: 'normal' | 'bold';
+  rotation: number;
+  position: Point;
+}
+
+export interface PhotoState {
+  position: Point;
+  size: { width: number; height: number };
+  rotation: number;
+  mask: PhotoMask;
+}
+
+// What a customer did to a poster in the WishMe editor. Positions and sizes are in
+// preview pixels, measured on a `stage` the artwork was fitted into with `object-fit: contain`.
+export interface CustomizationState {
+  stage: { width: number; height: number };
+  texts: TextLayerState[];
+  photo: PhotoState | null;
+}
+
+// Corner radius of the `rounded` photo mask, in preview pixels.
+export const ROUNDED_MASK_RADIUS = 12;
+
+const MAX_TEXTS = 50;
+const MAX_TEXT_LENGTH = 500;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown): value is Point => isObject(value) && isNumber(value.x) && isNumber(value.y);
+
+// Checks untrusted customization JSON from the editor, keeping only known keys.
+export function validateCustomization(input: unknown): { state?: CustomizationState; error?: string } {
+  if (!isObject(input)) return { error: 'Customization must be an object' };
+  const { stage, texts, photo } = input;
+
+  if (!isObject(stage) || !isNumber(stage.width) || !isNumber(stage.height) || stage.width <= 0 || stage.height <= 0) {
+    return { error: 'Stage width and height must be positive numbers' };
+  }
+  if (!Array.isArray(texts) || texts.length > MAX_TEXTS) return { error: `Texts must be an array of at most ${MAX_TEXTS}` };
+
+  const state: CustomizationState = { stage: { width: stage.width, height: stage.height }, texts: [], photo: null };
+
+  for (const [index, text] of texts.entries()) {
+    const where = `Text ${index + 1}`;
+    if (!isObject(text)) return { error: `${where}: must be an object` };
+    if (typeof text.id !== 'string') return { error: `${where}: id is required` };
+    if (typeof text.text !== 'string' || text.text.length > MAX_TEXT_LENGTH) {
+      return { error: `${where}: text must be a string of at most ${MAX_TEXT_LENGTH} characters` };
+    }
+    if (typeof text.color !== 'string' || !HEX_COLOR.test(text.color)) return { error: `${where}: color must be a #RRGGBB hex value` };
+    if (!isNumber(text.fontSize) || text.fontSize <= 0 || text.fontSize > 1000) return { error: `${where}: fontSize is out of range` };
+    if (typeof text.fontFamily !== 'string' || !text.fontFamily.trim()) return { error: `${where}: fontFamily is required` };
+    if (!['normal', 'italic'].includes(text.fontStyle)) return { error: `${where}: fontStyle must be normal or italic` };
+    if (!['normal', 'bold'].includes(text.fontWeight)) return { error: `${where}: fontWeight must be normal or bold` };
+    if (!isNumber(text.rotation)) return { error: `${where}: rotation must be a number` };
+    if (!isPoint(text.position)) return { error: `${where}: position must have numeric x and y` };
+
+    state.texts.push({
+      id: text.id,
+      text: text.text,
+      color: text.color,
+      fontSize: text.fontSize,
+      fontFamily: text.fontFamily,
+      fontStyle: text.fontStyle,
+      fontWeight: text.fontWeight,
+      rotation: text.rotation,
+      position: { x: text.position.x, y: text.position.y },
+    });
+  }
+
+  if (photo !== null && photo !== undefined) {
+    if (!isObject(photo) || !isPoint(photo.position)) return { error: 'Photo: position must have numeric x and y' };
+    const { size } = photo;
+    if (!isObject(size) || !isNumber(size.width) || !isNumber(size.height) || size.width <= 0 || size.height <= 0) {
+      return { error: 'Photo: size must have positive width and height' };
+    }
+    if (!isNumber(photo.rotation)) return { error: 'Photo: rotation must be a number' };
+    if (!PHOTO_MASKS.includes(photo.mask)) return { error: `Photo: mask must be one of ${PHOTO_MASKS.join(', ')}` };
+
+    state.photo = {
+      position: { x: photo.position.x, y: photo.position.y },
+      size: { width: size.width, height: size.height },
+      rotation: photo.rotation,
+      mask: photo.mask,
+    };
+  }
+
+  return { state };
+}
@@ -0,0 +1,168 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { google } from 'googleapis';
+import { contentTypeFor } from './bulkImport';
+
+// Access to the shared Drive folder designers deliver artwork to. The admin import only
+// talks to a DriveSource, so it can run against a local folder (DRIVE_STUB_DIR) in
+// development and tests instead of Google Drive.
+
+export interface DriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number | null;
+  modifiedTime: string | null;
+  // Folder names from the configured folder down to the file's parent
+  folders: string[];
+}
+
+// A DriveFile as offered for import by /api/drive
+export interface DriveListing extends DriveFile {
+  // Prefilled from the file name and the first folder level, which designers name by category
+  title: string;
+  category: string | null;
+  imported: boolean;
+}
+
+export interface DriveSource {
+  // Every image and PSD under the folder, including subfolders
+  listFiles(folderId: string): Promise<DriveFile[]>;
+  download(fileId: string): Promise<Buffer>;
+}
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// Drive reports PSDs under several MIME types, so the file name decides, as for bulk imports
+const isPosterFile = (name: string) => contentTypeFor(name) !== null;
+
+// Reads tokens.json from get-token.js. The client refreshes the access token with the
+// stored refresh token when it expires; refreshed tokens are written back to the file.
+export function googleDriveSource(tokensPath = process.env.GOOGLE_TOKENS_PATH || 'tokens.json'): DriveSource {
+  const auth = new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET,
+    process.env.GOOGLE_REDIRECT_URI
+  );
+  let loaded: Promise<void> | null = null;
+
+  const ensureCredentials = () => {
+    loaded ??= fs
+      .readFile(tokensPath, 'utf8')
+      .then((json) => {
+        const tokens = JSON.parse(json);
+        auth.setCredentials(tokens);
+        auth.on('tokens', (refreshed) => {
+          // A refresh response omits the refresh token, so keep the stored one
+          const merged = { ...tokens, ...refreshed };
+          fs.writeFile(tokensPath, JSON.stringify(merged, null, 2)).catch((error) =>
+            console.error('Drive: Failed to save refreshed tokens:', error)
+          );
+        });
+      })
+      .catch((error) => {
+        loaded = null;
+        throw new Error(`Google Drive is not connected (${tokensPath}): run get-token.js. ${error.message}`);
+      });
+    return loaded;
+  };
+
+  const drive = google.drive({ version: 'v3', auth });
+
+  const listFolder = async (folderId: string, folders: string[]): Promise<DriveFile[]> => {
+    const files: DriveFile[] = [];
+    let pageToken: string | undefined;
+    do {
+      const { data } = await drive.files.list({
+        q: `'${folderId}' in parents and trashed = false`,
+        fields: 'nextPageToken, files(id, name, mimeType, size, modifiedTime)',
+        pageSize: 1000,
+        pageToken,
+        supportsAllDrives: true,
+        includeItemsFromAllDrives: true,
+      });
+
+      for (const item of data.files ?? []) {
+        if (!item.id || !item.name) continue;
+        if (item.mimeType === FOLDER_MIME_TYPE) {
+          files.push(...(await listFolder(item.id, [...folders, item.name])));
+        } else if (isPosterFile(item.name)) {
+          files.push({
+            id: item.id,
+            name: item.name,
+            mimeType: item.mimeType ?? 'application/octet-stream',
+            size: item.size ? Number(item.size) : null,
+            modifiedTime: item.modifiedTime ?? null,
+            folders,
+          });
+        }
+      }
+      pageToken = data.nextPageToken ?? undefined;
+    } while (pageToken);
+
+    return files;
+  };
+
+  return {
+    async listFiles(folderId) {
+      await ensureCredentials();
+      return listFolder(folderId, []);
+    },
+    async download(fileId) {
+      await ensureCredentials();
+      const { data } = await drive.files.get(
+        { fileId, alt: 'media', supportsAllDrives: true },
+        { responseType: 'arraybuffer' }
+      );
+      return Buffer.from(data as ArrayBuffer);
+    },
+  };
+}
+
+// A local directory standing in for Drive: the folder id is ignored, file ids are paths
+// relative to `root`, and subdirectories play the part of Drive folders.
+export function localDriveSource(root: string): DriveSource {
+  const resolve = (fileId: string) => {
+    const full = path.resolve(root, fileId);
+    if (!full.startsWith(path.resolve(root) + path.sep)) throw new Error('File is outside the stub folder');
+    return full;
+  };
+
+  const listDir = async (dir: string, folders: string[]): Promise<DriveFile[]> => {
+    const files: DriveFile[] = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await listDir(full, [...folders, entry.name])));
+      } else if (isPosterFile(entry.name)) {
+        const stat = await fs.stat(full);
+        files.push({
+          id: path.relative(root, full).split(path.sep).join('/'),
+          name: entry.name,
+          mimeType: contentTypeFor(entry.name)!,
+          size: stat.size,
+          modifiedTime: stat.mtime.toISOString(),
+          folders,
+        });
+      }
+    }
+    return files;
+  };
+
+  return {
+    listFiles: () => listDir(root, []),
+    download: (fileId) => fs.readFile(resolve(fileId)),
+  };
+}
+
+export const getDriveSource = (): DriveSource =>
+  process.env.DRIVE_STUB_DIR ? localDriveSource(process.env.DRIVE_STUB_DIR) : googleDriveSource();
+
+// "diwali_gold-lamps.psd" → "Diwali Gold Lamps"
+export const titleFromFileName = (name: string) =>
+  name
+    .replace(/\.[^.]+$/, '')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\b\w/g, (c) => c.toUpperCase());
@@ -0,0 +1,31 @@
+import { fontFaceSource, type Font } from './fonts';
+
+// One load per font file per page; the promise is shared by everything that needs it
+const loading = new Map<string, Promise<void>>();
+
+// Loads a library font into the page with the FontFace API, so text styled with its name
+// renders in it. Fonts are only fetched when something uses them.
+export function loadFontFace(font: Pick<Font, 'name' | 'url' | 'format'>): Promise<void> {
+  let promise = loading.get(font.url);
+  if (!promise) {
+    const face = new FontFace(font.name, fontFaceSource(font));
+    promise = face.load().then((loaded) => {
+      document.fonts.add(loaded);
+    });
+    // A failed load can be retried next time
+    promise.catch(() => loading.delete(font.url));
+    loading.set(font.url, promise);
+  }
+  return promise;
+}
+
+// Loads the library fonts among `families`, ignoring system fonts and failures, which leave
+// the text in a fallback font
+export const loadFontFamilies = (library: Font[], families: string[]) =>
+  Promise.all(
+    library
+      .filter((font) => families.includes(font.name))
+      .map((font) =>
+        loadFontFace(font).catch((error) => console.error(`Failed to load font ${font.name}:`, error))
+      )
+  );
@@ -0,0 +1,122 @@
+import type { Locale } from './i18n';
+
+// Writing systems a font can cover, with their English names; the admin screens show
+// them through the admin.fonts.script.* messages
+export const FONT_SCRIPTS = {
+  latin: 'Latin',
+  devanagari: 'Devanagari',
+  tamil: 'Tamil',
+  telugu: 'Telugu',
+  kannada: 'Kannada',
+  malayalam: 'Malayalam',
+  bengali: 'Bengali',
+  gujarati: 'Gujarati',
+  gurmukhi: 'Gurmukhi',
+} as const;
+export type FontScript = keyof typeof FONT_SCRIPTS;
+
+// The script each UI language is written in, so WishMe can list fonts that can show it first
+export const LOCALE_SCRIPTS: Record<Locale, FontScript> = {
+  en: 'latin',
+  hi: 'devanagari',
+  ta: 'tamil',
+  mr: 'devanagari',
+};
+
+// Fonts every browser and the render server have without loading anything
+export const SYSTEM_FONTS = ['Arial', 'Georgia', 'Times New Roman', 'Verdana', 'Courier New', 'Impact'];
+export const DEFAULT_FONT = 'Arial';
+
+// Whether text in `name` can be shown as set: a system font or one in the library
+export const isAvailableFont = (name: string, library: Pick<Font, 'name'>[]) =>
+  SYSTEM_FONTS.includes(name) || library.some((font) => font.name === name);
+
+export type FontFormat = 'truetype' | 'opentype' | 'woff2';
+
+export interface Font {
+  id: number;
+  // Display name and CSS family; text layers and posters.font_family refer to fonts by it
+  name: string;
+  scripts: FontScript[];
+  format: FontFormat;
+  url: string;
+  isActive: boolean;
+}
+
+export const MAX_FONT_SIZE = 10 * 1024 * 1024;
+const MAX_NAME_LENGTH = 40;
+// Starts with a letter so the name works unquoted as a CSS family
+const NAME = /^[A-Za-z][A-Za-z0-9 -]*$/;
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'inherit', 'initial'];
+
+// Extension and content type stored for each format
+export const FONT_FILE_TYPES: Record<FontFormat, { extension: string; contentType: string }> = {
+  truetype: { extension: 'ttf', contentType: 'font/ttf' },
+  opentype: { extension: 'otf', contentType: 'font/otf' },
+  woff2: { extension: 'woff2', contentType: 'font/woff2' },
+};
+
+// Identifies a font file by its signature rather than its name or the browser's MIME type,
+// which is often empty or application/octet-stream for fonts
+export function detectFontFormat(data: Uint8Array): FontFormat | null {
+  if (data.length < 4) return null;
+  const tag = String.fromCharCode(data[0], data[1], data[2], data[3]);
+  if (tag === '\x00\x01\x00\x00' || tag === 'true') return 'truetype';
+  if (tag === 'OTTO') return 'opentype';
+  if (tag === 'wOF2') return 'woff2';
+  return null;
+}
+
+// The `src` descriptor for a FontFace or @font-face rule
+export const fontFaceSource = (font: Pick<Font, 'url' | 'format'>) => `url("${font.url}") format("${font.format}")`;
+
+// Maps a `fonts` row to the API shape.
+export const fontFromRow = (row: any): Font => ({
+  id: row.id,
+  name: row.name,
+  scripts: row.scripts,
+  format: row.format,
+  url: row.file_url,
+  isActive: row.is_active,
+});
+
+export function validateFontName(name: unknown): { name?: string; error?: string } {
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `Name is required and must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!NAME.test(trimmed)) {
+    return { error: 'Name must start with a letter and contain only letters, digits, spaces and dashes' };
+  }
+  const lower = trimmed.toLowerCase();
+  if (SYSTEM_FONTS.some((font) => font.toLowerCase() === lower) || GENERIC_FAMILIES.includes(lower)) {
+    return { error: `"${trimmed}" is a built-in font name` };
+  }
+  return { name: trimmed };
+}
+
+// Checks the editable details of a font. Scripts default to Latin.
+export function validateFontDetails(input: unknown): {
+  details?: { scripts: FontScript[]; isActive: boolean };
+  error?: string;
+} {
+  if (typeof input !== 'object' || input === null) return { error: 'Font must be an object' };
+  const { scripts, isActive } = input as Record<string, any>;
+
+  const finalScripts = scripts === undefined ? ['latin'] : scripts;
+  if (
+    !Array.isArray(finalScripts) ||
+    !finalScripts.length ||
+    !finalScripts.every((script) => typeof script === 'string' && script in FONT_SCRIPTS)
+  ) {
+    return { error: `Scripts must be a non-empty list of ${Object.keys(FONT_SCRIPTS).join(', ')}` };
+  }
+  if (isActive !== undefined && typeof isActive !== 'boolean') return { error: 'Active flag must be true or false' };
+
+  return {
+    details: {
+      scripts: [...new Set(finalScripts as FontScript[])],
+      isActive: isActive ?? true,
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import en from './messages/en';
+import { MAX_DESCRIPTION_LENGTH } from './tags';
+
+// UI languages. English is the source language and the fallback for anything untranslated.
+export const LOCALES = ['en', 'hi', 'ta', 'mr'] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language's name in that language, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  hi: 'हिन्दी',
+  ta: 'தமிழ்',
+  mr: 'मराठी',
+};
+
+export type MessageKey = keyof typeof en;
+// Every dictionary is typed with this, so a missing key fails the type-check
+export type Messages = Record<MessageKey, string>;
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+// A message kept untranslated in state and worded when shown, so effects that report errors
+// don't depend on `t` and the text follows a language switch
+export interface TranslatableMessage {
+  key: MessageKey;
+  params?: Record<string, string | number>;
+}
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// The message for `key`, with each {name} replaced by params[name]
+export function translate(messages: Messages, key: MessageKey, params?: Record<string, string | number>): string {
+  const message = messages[key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+// Poster titles and descriptions in the other languages, stored in posters.translations.
+// The base title and description stay in English.
+export type TranslatedLocale = Exclude<Locale, 'en'>;
+export type PosterTranslations = Partial<Record<TranslatedLocale, { title?: string; description?: string }>>;
+export const TRANSLATED_LOCALES = LOCALES.filter((locale): locale is TranslatedLocale => locale !== DEFAULT_LOCALE);
+
+const MAX_TITLE_LENGTH = 200;
+
+// Checks translations sent by /api/update. Blank entries are dropped, so clearing a field
+// in the admin form removes that translation.
+export function validateTranslations(input: unknown): { translations?: PosterTranslations; error?: string } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { error: 'Translations must be an object keyed by locale' };
+  }
+
+  const translations: PosterTranslations = {};
+  for (const [locale, entry] of Object.entries(input)) {
+    if (!TRANSLATED_LOCALES.includes(locale as TranslatedLocale)) {
+      return { error: `Translations may only use ${TRANSLATED_LOCALES.join(', ')}` };
+    }
+    if (typeof entry !== 'object' || entry === null) return { error: `Translation for ${locale} must be an object` };
+    const { title, description } = entry as Record<string, unknown>;
+
+    if (title !== undefined && title !== null && (typeof title !== 'string' || title.trim().length > MAX_TITLE_LENGTH)) {
+      return { error: `Title for ${locale} must be at most ${MAX_TITLE_LENGTH} characters` };
+    }
+    if (
+      description !== undefined &&
+      description !== null &&
+      (typeof description !== 'string' || description.trim().length > MAX_DESCRIPTION_LENGTH)
+    ) {
+      return { error: `Description for ${locale} must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+
+    const cleaned = {
+      ...(typeof title === 'string' && title.trim() ? { title: title.trim() } : {}),
+      ...(typeof description === 'string' && description.trim() ? { description: description.trim() } : {}),
+    };
+    if (Object.keys(cleaned).length) translations[locale as TranslatedLocale] = cleaned;
+  }
+
+  return { translations };
+}
+
+type Localizable = { title: string; translations?: PosterTranslations | null };
+
+// A poster's title in `locale`, falling back to the English one
+export const localizedTitle = (poster: Localizable, locale: Locale) =>
+  (locale !== DEFAULT_LOCALE && poster.translations?.[locale]?.title) || poster.title;
@@ -0,0 +1,344 @@
+// UI strings in English, the source language: this dictionary defines the message keys
+// every other language must provide. {name} marks a value filled in by translate().
+const en = {
+  'common.language': 'Language',
+  'common.cancel': 'Cancel',
+  'common.download': 'Download',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.editable': 'Editable',
+  'common.systemFonts': 'System fonts',
+  'common.libraryFonts': 'Font library',
+  'common.save': 'Save',
+  'common.saving': 'Saving...',
+  'common.loading': 'Loading...',
+  'common.name': 'Name',
+  'common.slug': 'Slug',
+  'common.iconEmoji': 'Icon (emoji)',
+  'common.title': 'Title',
+  'common.category': 'Category',
+  'common.poster': 'Poster',
+  'common.inactive': 'inactive',
+
+  'wishme.logo': 'WishMe Logo',
+  'wishme.profile': 'User Profile',
+  'wishme.lightMode': 'Switch to light mode',
+  'wishme.darkMode': 'Switch to dark mode',
+  'wishme.searchPlaceholder': 'Search by name, occasion or tag...',
+  'wishme.searchLabel': 'Search posters',
+  'wishme.selectCategory': 'Select category',
+  'wishme.allCategories': 'All',
+  'wishme.sortLabel': 'Sort posters',
+  'wishme.sortedByRelevance': 'Search results are sorted by relevance',
+  'wishme.sortLatest': 'Latest',
+  'wishme.sortPopular': 'Most Popular',
+  'wishme.previousCategories': 'Show previous category set',
+  'wishme.nextCategories': 'Show next category set',
+  'wishme.filterBy': 'Filter by {category}',
+  'wishme.upcoming': 'Upcoming',
+  'wishme.upcomingLabel': 'Upcoming occasions',
+  'wishme.categories': 'Categories',
+  'wishme.categoryLabel': 'Category selection',
+  'wishme.dismissError': 'Dismiss error',
+  'wishme.myDrafts': 'My Drafts',
+  'wishme.editedAt': 'Edited {time}',
+  'wishme.resume': 'Resume',
+  'wishme.resumeTitle': 'Resume {title}',
+  'wishme.deleteDraft': 'Delete draft for {title}',
+  'wishme.gallery': 'Poster gallery',
+  'wishme.posterLabel': 'Poster: {title}',
+  'wishme.downloadTitle': 'Download {title}',
+  'wishme.editTitle': 'Edit {title}',
+  'wishme.downloadingIn': 'Downloading {title} in {seconds} seconds',
+  'wishme.downloadStartsIn': 'Download starts in {seconds}s',
+  'wishme.noPosters': 'No posters found.',
+  'wishme.wishGenerator': 'Wish Generator',
+  'wishme.openWishGenerator': 'Open Wish Generator',
+  'wishme.footer': '© 2025 WishMe • Made with 💖 by Vardhan Raju',
+
+  'countdown.ended': 'Ended',
+  'countdown.today': 'Today',
+  'countdown.onNow': 'On now',
+  'countdown.hours': 'in {hours}h {minutes}m',
+  'countdown.days': 'in {days} days',
+
+  'wishme.error.openSharedDesign': 'Failed to open shared design: {message}',
+  'wishme.error.loadPosters': 'Failed to load posters. Please try again later.',
+  'wishme.error.loadMore': 'Failed to load more posters. Please try again.',
+  'wishme.error.download': 'Failed to download the poster. Please try again.',
+  'wishme.error.imageTooLarge': 'Uploaded image exceeds 5MB limit.',
+  'wishme.error.posterUnavailable': 'This poster is no longer available.',
+  'wishme.error.openDraft': 'Failed to open draft: {message}',
+  'wishme.error.deleteDraft': 'Failed to delete draft.',
+  'wishme.error.saveCustomized': 'Failed to save customized poster: {message}',
+  'wishme.error.share': 'Failed to share design: {message}',
+
+  'editor.title': 'Customize Poster',
+  'editor.draftFound': 'You have a draft from {time}.',
+  'editor.resumeDraft': 'Resume where you left off',
+  'editor.startOver': 'Start over',
+  'editor.basePoster': 'Base Poster',
+  'editor.userImage': 'User Image',
+  'editor.scrollUp': 'Scroll up',
+  'editor.scrollDown': 'Scroll down',
+  'editor.undo': 'Undo',
+  'editor.undoHint': 'Undo (Ctrl+Z)',
+  'editor.redo': 'Redo',
+  'editor.redoHint': 'Redo (Ctrl+Shift+Z)',
+  'editor.zoomOut': 'Zoom out',
+  'editor.zoomIn': 'Zoom in',
+  'editor.textLayers': 'Text Layers',
+  'editor.textLayer': 'Text {number}',
+  'editor.layerCopy': '{label} copy',
+  'editor.newText': 'Your text',
+  'editor.yourName': 'Your Name',
+  'editor.yourPhoto': 'Your Photo',
+  'editor.duplicateLayer': 'Duplicate {label}',
+  'editor.deleteLayer': 'Delete {label}',
+  'editor.addText': 'Add Text',
+  'editor.textColor': 'Text Color',
+  'editor.fontFamily': 'Font Family',
+  'editor.fontStyle': 'Font Style',
+  'editor.fontWeight': 'Font Weight',
+  'editor.normal': 'Normal',
+  'editor.italic': 'Italic',
+  'editor.bold': 'Bold',
+  'editor.fontSize': 'Font Size',
+  'editor.textRotation': 'Text Rotation',
+  'editor.photoHint': '{label} (PNG only, max 5MB, optional)',
+  'editor.imageSize': 'Image Size',
+  'editor.imageRotation': 'Image Rotation',
+  'editor.shareHint': 'Anyone with this link can open the design and tweak their own copy:',
+  'editor.shareLink': 'Share link',
+  'editor.rendering': 'Rendering...',
+  'editor.downloadCustomized': 'Download Customized Poster',
+  'editor.sharing': 'Sharing...',
+  'editor.share': 'Share',
+
+  'admin.nav.posters': 'Posters',
+  'admin.nav.import': 'Bulk Import',
+  'admin.nav.drive': 'Drive Import',
+  'admin.nav.categories': 'Categories',
+  'admin.nav.occasions': 'Occasions',
+  'admin.nav.fonts': 'Fonts',
+  'admin.nav.analytics': 'Analytics',
+  'admin.nav.storage': 'Storage',
+  'admin.signOut': 'Sign Out',
+
+  'admin.login.title': '🔐 Admin Sign In',
+  'admin.login.email': 'Email',
+  'admin.login.password': 'Password',
+  'admin.login.signIn': 'Sign In',
+  'admin.login.signingIn': 'Signing in...',
+  'admin.login.noAccess': 'This account does not have access to the admin dashboard.',
+  'admin.login.failed': 'Sign in failed: {message}',
+
+  'admin.posters.dashboard': '✨ Admin Poster Dashboard',
+  'admin.posters.uploaded': '📸 Uploaded Posters',
+  'admin.posters.none': 'No posters uploaded yet.',
+  'admin.posters.category': 'Category',
+  'admin.posters.title': 'Poster Title',
+  'admin.posters.titlePlaceholder': 'e.g., Happy Diwali 2025',
+  'admin.posters.tagsHint': 'Tags (comma separated, help search)',
+  'admin.posters.tags': 'Tags (comma separated)',
+  'admin.posters.tagsPlaceholder': 'e.g., diwali, lights, rangoli',
+  'admin.posters.descriptionOptional': 'Description (optional)',
+  'admin.posters.description': 'Description',
+  'admin.posters.file': 'Upload File (Image or PSD, max {size})',
+  'admin.posters.thumbnail': 'Thumbnail Image (PNG/JPEG, optional, generated from PSDs if left empty, max {size})',
+  'admin.posters.editableByUsers': 'Editable by Users',
+  'admin.posters.occasion': "Occasion (optional, features it in WishMe's Upcoming banner)",
+  'admin.posters.noOccasion': 'None',
+  'admin.posters.inactive': '(inactive)',
+  'admin.posters.status': 'Status',
+  'admin.posters.status.draft': 'Draft',
+  'admin.posters.status.published': 'Published',
+  'admin.posters.status.archived': 'Archived',
+  'admin.posters.publishAt': 'Publish from (optional)',
+  'admin.posters.unpublishAt': 'Unpublish at (optional)',
+  'admin.posters.fontForOverlays': 'Font Family (for text overlays)',
+  'admin.posters.fontFamily': 'Font Family',
+  'admin.posters.save': 'Save Poster',
+  'admin.posters.saving': 'Saving...',
+  'admin.posters.uploading': 'Uploading Poster...',
+  'admin.posters.processing': 'Processing Poster...',
+  'admin.posters.progress': '{loaded} of {total}',
+  'admin.posters.starting': 'Starting...',
+  'admin.posters.measuringSpeed': 'Measuring speed...',
+  'admin.posters.speed': '{speed}/s, about {seconds}s left',
+  'admin.posters.savingPreviews': 'Saving and generating previews...',
+  'admin.posters.noFont': 'N/A',
+  'admin.posters.originalOnly': 'Original only, no sizes generated',
+  'admin.posters.generateSizes': 'Generate Sizes',
+  'admin.posters.generating': 'Generating...',
+  'admin.posters.previous': 'Previous',
+  'admin.posters.next': 'Next',
+  'admin.posters.page': 'Page {number}',
+  'admin.posters.editPoster': 'Edit Poster',
+  'admin.posters.translations': 'Translations (optional; English is used where one is missing)',
+  'admin.posters.translatedTitle': 'Title in {language}',
+  'admin.posters.translatedDescription': 'Description in {language}',
+  'admin.posters.hideDesigner': 'Hide Zone Designer',
+  'admin.posters.showDesigner': 'Design Editable Zones',
+  'admin.posters.update': 'Update',
+  'admin.posters.confirmDelete': 'Are you sure you want to delete this poster?',
+  'admin.posters.publish.scheduled': 'Scheduled · from {date}',
+  'admin.posters.publish.expired': 'Expired · ended {date}',
+  'admin.posters.publish.liveUntil': 'Live · until {date}',
+  'admin.posters.publish.draft': 'Draft',
+  'admin.posters.publish.archived': 'Archived',
+  'admin.posters.error.required': 'Title and file are required.',
+  'admin.posters.error.fileTooLarge': 'File size exceeds maximum limit of {size}',
+  'admin.posters.error.thumbnailTooLarge': 'Thumbnail exceeds maximum limit of {size}',
+  'admin.posters.error.fetchPosters': 'Failed to fetch posters: {message}',
+  'admin.posters.error.fetchCategories': 'Failed to fetch categories: {message}',
+  'admin.posters.error.fetchOccasions': 'Failed to fetch occasions: {message}',
+  'admin.posters.error.fetchFonts': 'Failed to fetch fonts: {message}',
+  'admin.posters.error.download': 'Failed to download file: {message}',
+  'admin.posters.error.delete': 'Failed to delete poster: {message}',
+  'admin.posters.error.generateSizes': 'Failed to generate sizes: {message}',
+  'admin.posters.error.invalidZones': 'Invalid editable zones: {message}',
+  'admin.posters.error.update': 'Failed to update poster: {message}',
+
+  'admin.zones.select': 'Select',
+  'admin.zones.textZone': 'Text Zone',
+  'admin.zones.photoZone': 'Photo Zone',
+  'admin.zones.preview': 'Preview',
+  'admin.zones.moveHint': 'Drag a zone to move it, or its corner to resize.',
+  'admin.zones.drawHint': 'Drag on the poster to draw the zone.',
+  'admin.zones.artwork': 'Poster artwork',
+  'admin.zones.textLabel': 'Text {number}',
+  'admin.zones.photoLabel': 'Photo {number}',
+  'admin.zones.label': 'Zone Label',
+  'admin.zones.defaultText': 'Default Text',
+  'admin.zones.defaultTextPlaceholder': 'Shown until the customer types their own',
+  'admin.zones.font': 'Font',
+  'admin.zones.size': 'Size',
+  'admin.zones.color': 'Color',
+  'admin.zones.mask': 'Mask Shape',
+  'admin.zones.mask.rectangle': 'Rectangle',
+  'admin.zones.mask.rounded': 'Rounded',
+  'admin.zones.mask.circle': 'Circle',
+  'admin.zones.remove': 'Remove Zone',
+
+  'admin.categories.new': '🏷️ New Category',
+  'admin.categories.list': '📂 Categories',
+  'admin.categories.namePlaceholder': 'e.g., Anniversary',
+  'admin.categories.sortOrder': 'Sort Order',
+  'admin.categories.active': 'Active (shown to users and offered on upload)',
+  'admin.categories.add': 'Add Category',
+  'admin.categories.none': 'No categories yet.',
+  'admin.categories.order': 'order {number}',
+  'admin.categories.confirmDelete': 'Delete the "{name}" category?',
+  'admin.categories.error.fetch': 'Failed to fetch categories: {message}',
+
+  'admin.occasions.new': '📅 New Occasion',
+  'admin.occasions.list': '🗓️ Occasion Calendar',
+  'admin.occasions.namePlaceholder': 'e.g., Raksha Bandhan',
+  'admin.occasions.date': 'Date',
+  'admin.occasions.endsOn': 'Last Day (optional, for occasions spanning several days)',
+  'admin.occasions.recursYearly': 'Same date every year (leave off for festivals that move, and update their date yearly)',
+  'admin.occasions.active': 'Active (shown in WishMe and offered on upload)',
+  'admin.occasions.add': 'Add Occasion',
+  'admin.occasions.none': 'No occasions yet.',
+  'admin.occasions.everyYear': 'every year',
+  'admin.occasions.past': 'past',
+  'admin.occasions.confirmDelete': 'Delete "{name}"? Its posters stay, no longer linked to it.',
+  'admin.occasions.error.fetch': 'Failed to fetch occasions: {message}',
+
+  'admin.import.title': '📦 Bulk Import',
+  'admin.import.needsEditor': 'Importing posters needs the admin or editor role.',
+  'admin.import.hint': 'Upload a ZIP of poster images and PSDs with a CSV or JSON manifest, one row per poster (at most {max}).',
+  'admin.import.columns': 'Columns:',
+  'admin.import.columnsHint': 'Only file, title and category are required; thumbnail names another file in the ZIP and tags are comma separated. The manifest can also be placed in the ZIP as manifest.csv or manifest.json.',
+  'admin.import.archive': 'ZIP Archive',
+  'admin.import.manifest': 'Manifest (CSV or JSON, optional if included in the ZIP)',
+  'admin.import.chooseArchive': 'Choose a ZIP archive to import.',
+  'admin.import.archiveTooLarge': 'The archive exceeds the upload limit of {size}.',
+  'admin.import.submit': 'Import Posters',
+  'admin.import.importing': 'Importing...',
+  'admin.import.uploading': 'Uploading archive... {percent}%',
+  'admin.import.results': 'Results',
+  'admin.import.summary': '{imported} imported, {failed} failed',
+  'admin.import.row': 'Row',
+  'admin.import.result': 'Result',
+  'admin.import.imported': 'Imported',
+
+  'admin.drive.title': '☁️ Import from Drive',
+  'admin.drive.hint': 'Images and PSDs in the shared Drive folder. Titles come from file names and categories from the first folder level; adjust them before importing. Files already imported are hidden.',
+  'admin.drive.refresh': 'Refresh',
+  'admin.drive.showImported': 'Show imported files',
+  'admin.drive.importSelected': 'Import {count} Selected',
+  'admin.drive.none': 'No new files in the Drive folder.',
+  'admin.drive.alreadyImported': 'already imported',
+  'admin.drive.chooseCategory': 'Choose a category',
+  'admin.drive.missingDetails': 'Give "{name}" a title and category before importing.',
+  'admin.drive.summary': '{imported} imported, {skipped} skipped, {failed} failed',
+  'admin.drive.error.fetchCategories': 'Failed to fetch categories: {message}',
+
+  'admin.analytics.title': '📊 Poster Analytics',
+  'admin.analytics.from': 'From',
+  'admin.analytics.to': 'To',
+  'admin.analytics.apply': 'Apply',
+  'admin.analytics.lastDays': 'Last {days} days',
+  'admin.analytics.downloads': 'Downloads',
+  'admin.analytics.customizedDownloads': 'Customized Downloads',
+  'admin.analytics.customized': 'Customized',
+  'admin.analytics.editorOpens': 'Editor Opens',
+  'admin.analytics.conversion': 'Conversion',
+  'admin.analytics.totalConversion': 'Edit-to-Download Conversion',
+  'admin.analytics.perDay': 'Per Day',
+  'admin.analytics.dayTooltip': '{day}: {downloads} downloads ({customized} customized), {opens} editor opens',
+  'admin.analytics.top': 'Top Performers',
+  'admin.analytics.noDownloads': 'No downloads in this range.',
+  'admin.analytics.perCategory': 'Per Category',
+  'admin.analytics.rarelySaved': 'Opened but Rarely Saved',
+  'admin.analytics.rarelySavedHint': 'Editable posters customers open in the editor but seldom download, a sign the editing experience needs work.',
+  'admin.analytics.noneRarelySaved': 'No editable poster stands out in this range.',
+
+  'admin.storage.title': '🧹 Storage Check',
+  'admin.storage.hint': 'Compares the files under psd/, thumbnails/ and variants/ with the posters table. A scan only reports; nothing changes until you apply. Files from the last hour are left alone, as their upload may still be in progress.',
+  'admin.storage.scan': 'Scan',
+  'admin.storage.working': 'Working...',
+  'admin.storage.deleteOrphans': 'Delete orphaned files',
+  'admin.storage.flagBroken': 'Flag posters with missing files',
+  'admin.storage.apply': 'Apply',
+  'admin.storage.confirm': 'Apply these changes?\n{actions}',
+  'admin.storage.confirmDelete': 'Delete {count} orphaned files',
+  'admin.storage.confirmFlag': 'Flag {count} broken posters',
+  'admin.storage.summary': 'Summary',
+  'admin.storage.scanned': '{files} files and {posters} posters scanned: {orphans} orphaned files, {broken} posters with missing files.',
+  'admin.storage.applied': 'Deleted {deleted} files, flagged {flagged} posters and cleared the flag on {cleared}.',
+  'admin.storage.orphans': 'Orphaned Files',
+  'admin.storage.noOrphans': 'Every file belongs to a poster.',
+  'admin.storage.path': 'Path',
+  'admin.storage.size': 'Size',
+  'admin.storage.uploaded': 'Uploaded',
+  'admin.storage.broken': 'Posters with Missing Files',
+  'admin.storage.noBroken': "Every poster's files are in storage.",
+  'admin.storage.missing': 'Missing',
+
+  'admin.fonts.upload': '🔤 Upload Font',
+  'admin.fonts.library': '🖋️ Font Library',
+  'admin.fonts.namePlaceholder': 'e.g., Noto Sans Devanagari',
+  'admin.fonts.scripts': 'Scripts covered',
+  'admin.fonts.script.latin': 'Latin',
+  'admin.fonts.script.devanagari': 'Devanagari',
+  'admin.fonts.script.tamil': 'Tamil',
+  'admin.fonts.script.telugu': 'Telugu',
+  'admin.fonts.script.kannada': 'Kannada',
+  'admin.fonts.script.malayalam': 'Malayalam',
+  'admin.fonts.script.bengali': 'Bengali',
+  'admin.fonts.script.gujarati': 'Gujarati',
+  'admin.fonts.script.gurmukhi': 'Gurmukhi',
+  'admin.fonts.file': 'Font File (TTF, OTF or WOFF2, up to {size})',
+  'admin.fonts.chooseFile': 'Choose a TTF, OTF or WOFF2 file',
+  'admin.fonts.uploading': 'Uploading...',
+  'admin.fonts.submit': 'Upload Font',
+  'admin.fonts.none': 'No fonts yet. WishMe offers only the built-in fonts.',
+  'admin.fonts.active': 'Active (offered in WishMe and the poster forms)',
+  'admin.fonts.confirmDelete': 'Delete "{name}"? Text using it falls back to the default font. Deactivate it instead to keep existing designs intact.',
+  'admin.fonts.error.fetch': 'Failed to fetch fonts: {message}',
+};
+
+export default en;
@@ -0,0 +1,344 @@
+import type { Messages } from '../i18n';
+
+const hi: Messages = {
+  'common.language': 'भाषा',
+  'common.cancel': 'रद्द करें',
+  'common.download': 'डाउनलोड',
+  'common.edit': 'बदलें',
+  'common.delete': 'हटाएँ',
+  'common.editable': 'बदलने योग्य',
+  'common.systemFonts': 'सिस्टम फ़ॉन्ट',
+  'common.libraryFonts': 'फ़ॉन्ट लाइब्रेरी',
+  'common.save': 'सहेजें',
+  'common.saving': 'सहेजा जा रहा है...',
+  'common.loading': 'लोड हो रहा है...',
+  'common.name': 'नाम',
+  'common.slug': 'स्लग',
+  'common.iconEmoji': 'आइकन (इमोजी)',
+  'common.title': 'शीर्षक',
+  'common.category': 'श्रेणी',
+  'common.poster': 'पोस्टर',
+  'common.inactive': 'निष्क्रिय',
+
+  'wishme.logo': 'WishMe लोगो',
+  'wishme.profile': 'मेरी प्रोफ़ाइल',
+  'wishme.lightMode': 'लाइट मोड पर जाएँ',
+  'wishme.darkMode': 'डार्क मोड पर जाएँ',
+  'wishme.searchPlaceholder': 'नाम, अवसर या टैग से खोजें...',
+  'wishme.searchLabel': 'पोस्टर खोजें',
+  'wishme.selectCategory': 'श्रेणी चुनें',
+  'wishme.allCategories': 'सभी',
+  'wishme.sortLabel': 'पोस्टर क्रमबद्ध करें',
+  'wishme.sortedByRelevance': 'खोज परिणाम प्रासंगिकता के अनुसार हैं',
+  'wishme.sortLatest': 'नवीनतम',
+  'wishme.sortPopular': 'सबसे लोकप्रिय',
+  'wishme.previousCategories': 'पिछली श्रेणियाँ दिखाएँ',
+  'wishme.nextCategories': 'अगली श्रेणियाँ दिखाएँ',
+  'wishme.filterBy': '{category} के पोस्टर दिखाएँ',
+  'wishme.upcoming': 'आने वाले',
+  'wishme.upcomingLabel': 'आने वाले अवसर',
+  'wishme.categories': 'श्रेणियाँ',
+  'wishme.categoryLabel': 'श्रेणी चयन',
+  'wishme.dismissError': 'त्रुटि बंद करें',
+  'wishme.myDrafts': 'मेरे ड्राफ़्ट',
+  'wishme.editedAt': '{time} को बदला गया',
+  'wishme.resume': 'जारी रखें',
+  'wishme.resumeTitle': '{title} जारी रखें',
+  'wishme.deleteDraft': '{title} का ड्राफ़्ट हटाएँ',
+  'wishme.gallery': 'पोस्टर गैलरी',
+  'wishme.posterLabel': 'पोस्टर: {title}',
+  'wishme.downloadTitle': '{title} डाउनलोड करें',
+  'wishme.editTitle': '{title} बदलें',
+  'wishme.downloadingIn': '{title} {seconds} सेकंड में डाउनलोड होगा',
+  'wishme.downloadStartsIn': 'डाउनलोड {seconds} सेकंड में',
+  'wishme.noPosters': 'कोई पोस्टर नहीं मिला।',
+  'wishme.wishGenerator': 'शुभकामना जनरेटर',
+  'wishme.openWishGenerator': 'शुभकामना जनरेटर खोलें',
+  'wishme.footer': '© 2025 WishMe • वर्धन राजू द्वारा 💖 से बनाया गया',
+
+  'countdown.ended': 'समाप्त',
+  'countdown.today': 'आज',
+  'countdown.onNow': 'अभी जारी',
+  'countdown.hours': '{hours} घं {minutes} मि में',
+  'countdown.days': '{days} दिन में',
+
+  'wishme.error.openSharedDesign': 'साझा डिज़ाइन नहीं खुल सका: {message}',
+  'wishme.error.loadPosters': 'पोस्टर लोड नहीं हो सके। कृपया बाद में फिर कोशिश करें।',
+  'wishme.error.loadMore': 'और पोस्टर लोड नहीं हो सके। कृपया फिर कोशिश करें।',
+  'wishme.error.download': 'पोस्टर डाउनलोड नहीं हो सका। कृपया फिर कोशिश करें।',
+  'wishme.error.imageTooLarge': 'अपलोड की गई फ़ोटो 5MB से बड़ी है।',
+  'wishme.error.posterUnavailable': 'यह पोस्टर अब उपलब्ध नहीं है।',
+  'wishme.error.openDraft': 'ड्राफ़्ट नहीं खुल सका: {message}',
+  'wishme.error.deleteDraft': 'ड्राफ़्ट हटाया नहीं जा सका।',
+  'wishme.error.saveCustomized': 'आपका पोस्टर सहेजा नहीं जा सका: {message}',
+  'wishme.error.share': 'डिज़ाइन साझा नहीं हो सका: {message}',
+
+  'editor.title': 'पोस्टर अपने अनुसार बनाएँ',
+  'editor.draftFound': 'आपका {time} का एक ड्राफ़्ट है।',
+  'editor.resumeDraft': 'जहाँ छोड़ा था वहीं से शुरू करें',
+  'editor.startOver': 'नए सिरे से शुरू करें',
+  'editor.basePoster': 'मूल पोस्टर',
+  'editor.userImage': 'आपकी फ़ोटो',
+  'editor.scrollUp': 'ऊपर स्क्रॉल करें',
+  'editor.scrollDown': 'नीचे स्क्रॉल करें',
+  'editor.undo': 'पूर्ववत करें',
+  'editor.undoHint': 'पूर्ववत करें (Ctrl+Z)',
+  'editor.redo': 'फिर से करें',
+  'editor.redoHint': 'फिर से करें (Ctrl+Shift+Z)',
+  'editor.zoomOut': 'छोटा करें',
+  'editor.zoomIn': 'बड़ा करें',
+  'editor.textLayers': 'टेक्स्ट परतें',
+  'editor.textLayer': 'टेक्स्ट {number}',
+  'editor.layerCopy': '{label} की कॉपी',
+  'editor.newText': 'आपका टेक्स्ट',
+  'editor.yourName': 'आपका नाम',
+  'editor.yourPhoto': 'आपकी फ़ोटो',
+  'editor.duplicateLayer': '{label} की कॉपी बनाएँ',
+  'editor.deleteLayer': '{label} हटाएँ',
+  'editor.addText': 'टेक्स्ट जोड़ें',
+  'editor.textColor': 'टेक्स्ट का रंग',
+  'editor.fontFamily': 'फ़ॉन्ट',
+  'editor.fontStyle': 'फ़ॉन्ट शैली',
+  'editor.fontWeight': 'फ़ॉन्ट मोटाई',
+  'editor.normal': 'सामान्य',
+  'editor.italic': 'तिरछा',
+  'editor.bold': 'मोटा',
+  'editor.fontSize': 'फ़ॉन्ट आकार',
+  'editor.textRotation': 'टेक्स्ट घुमाएँ',
+  'editor.photoHint': '{label} (केवल PNG, अधिकतम 5MB, वैकल्पिक)',
+  'editor.imageSize': 'फ़ोटो का आकार',
+  'editor.imageRotation': 'फ़ोटो घुमाएँ',
+  'editor.shareHint': 'इस लिंक से कोई भी डिज़ाइन खोलकर अपनी कॉपी बदल सकता है:',
+  'editor.shareLink': 'साझा लिंक',
+  'editor.rendering': 'तैयार हो रहा है...',
+  'editor.downloadCustomized': 'अपना पोस्टर डाउनलोड करें',
+  'editor.sharing': 'साझा हो रहा है...',
+  'editor.share': 'साझा करें',
+
+  'admin.nav.posters': 'पोस्टर',
+  'admin.nav.import': 'बल्क इम्पोर्ट',
+  'admin.nav.drive': 'ड्राइव इम्पोर्ट',
+  'admin.nav.categories': 'श्रेणियाँ',
+  'admin.nav.occasions': 'अवसर',
+  'admin.nav.fonts': 'फ़ॉन्ट',
+  'admin.nav.analytics': 'विश्लेषण',
+  'admin.nav.storage': 'स्टोरेज',
+  'admin.signOut': 'साइन आउट',
+
+  'admin.login.title': '🔐 एडमिन साइन इन',
+  'admin.login.email': 'ईमेल',
+  'admin.login.password': 'पासवर्ड',
+  'admin.login.signIn': 'साइन इन करें',
+  'admin.login.signingIn': 'साइन इन हो रहा है...',
+  'admin.login.noAccess': 'इस खाते को एडमिन डैशबोर्ड की अनुमति नहीं है।',
+  'admin.login.failed': 'साइन इन नहीं हो सका: {message}',
+
+  'admin.posters.dashboard': '✨ एडमिन पोस्टर डैशबोर्ड',
+  'admin.posters.uploaded': '📸 अपलोड किए गए पोस्टर',
+  'admin.posters.none': 'अभी तक कोई पोस्टर अपलोड नहीं हुआ।',
+  'admin.posters.category': 'श्रेणी',
+  'admin.posters.title': 'पोस्टर का शीर्षक',
+  'admin.posters.titlePlaceholder': 'जैसे, दीपावली की शुभकामनाएँ 2025',
+  'admin.posters.tagsHint': 'टैग (अल्पविराम से अलग, खोज में मदद करते हैं)',
+  'admin.posters.tags': 'टैग (अल्पविराम से अलग)',
+  'admin.posters.tagsPlaceholder': 'जैसे, diwali, lights, rangoli',
+  'admin.posters.descriptionOptional': 'विवरण (वैकल्पिक)',
+  'admin.posters.description': 'विवरण',
+  'admin.posters.file': 'फ़ाइल अपलोड करें (फ़ोटो या PSD, अधिकतम {size})',
+  'admin.posters.thumbnail': 'थंबनेल (PNG/JPEG, वैकल्पिक, खाली रहने पर PSD से बनता है, अधिकतम {size})',
+  'admin.posters.editableByUsers': 'उपयोगकर्ता बदल सकते हैं',
+  'admin.posters.occasion': 'अवसर (वैकल्पिक, WishMe के "आने वाले" बैनर में दिखाता है)',
+  'admin.posters.noOccasion': 'कोई नहीं',
+  'admin.posters.inactive': '(निष्क्रिय)',
+  'admin.posters.status': 'स्थिति',
+  'admin.posters.status.draft': 'ड्राफ़्ट',
+  'admin.posters.status.published': 'प्रकाशित',
+  'admin.posters.status.archived': 'संग्रहीत',
+  'admin.posters.publishAt': 'कब से प्रकाशित (वैकल्पिक)',
+  'admin.posters.unpublishAt': 'कब तक प्रकाशित (वैकल्पिक)',
+  'admin.posters.fontForOverlays': 'फ़ॉन्ट (टेक्स्ट के लिए)',
+  'admin.posters.fontFamily': 'फ़ॉन्ट',
+  'admin.posters.save': 'पोस्टर सहेजें',
+  'admin.posters.saving': 'सहेजा जा रहा है...',
+  'admin.posters.uploading': 'पोस्टर अपलोड हो रहा है...',
+  'admin.posters.processing': 'पोस्टर तैयार हो रहा है...',
+  'admin.posters.progress': '{total} में से {loaded}',
+  'admin.posters.starting': 'शुरू हो रहा है...',
+  'admin.posters.measuringSpeed': 'गति मापी जा रही है...',
+  'admin.posters.speed': '{speed}/s, लगभग {seconds} सेकंड बाकी',
+  'admin.posters.savingPreviews': 'सहेजा जा रहा है और प्रीव्यू बन रहे हैं...',
+  'admin.posters.noFont': 'उपलब्ध नहीं',
+  'admin.posters.originalOnly': 'केवल मूल फ़ाइल, कोई आकार नहीं बने',
+  'admin.posters.generateSizes': 'आकार बनाएँ',
+  'admin.posters.generating': 'बन रहे हैं...',
+  'admin.posters.previous': 'पिछला',
+  'admin.posters.next': 'अगला',
+  'admin.posters.page': 'पृष्ठ {number}',
+  'admin.posters.editPoster': 'पोस्टर बदलें',
+  'admin.posters.translations': 'अनुवाद (वैकल्पिक; न होने पर अंग्रेज़ी दिखती है)',
+  'admin.posters.translatedTitle': '{language} में शीर्षक',
+  'admin.posters.translatedDescription': '{language} में विवरण',
+  'admin.posters.hideDesigner': 'ज़ोन डिज़ाइनर छिपाएँ',
+  'admin.posters.showDesigner': 'बदलने योग्य ज़ोन बनाएँ',
+  'admin.posters.update': 'अपडेट करें',
+  'admin.posters.confirmDelete': 'क्या आप सच में यह पोस्टर हटाना चाहते हैं?',
+  'admin.posters.publish.scheduled': 'निर्धारित · {date} से',
+  'admin.posters.publish.expired': 'समाप्त · {date} को खत्म',
+  'admin.posters.publish.liveUntil': 'प्रकाशित · {date} तक',
+  'admin.posters.publish.draft': 'ड्राफ़्ट',
+  'admin.posters.publish.archived': 'संग्रहीत',
+  'admin.posters.error.required': 'शीर्षक और फ़ाइल ज़रूरी हैं।',
+  'admin.posters.error.fileTooLarge': 'फ़ाइल {size} की अधिकतम सीमा से बड़ी है',
+  'admin.posters.error.thumbnailTooLarge': 'थंबनेल {size} की अधिकतम सीमा से बड़ा है',
+  'admin.posters.error.fetchPosters': 'पोस्टर नहीं मिल सके: {message}',
+  'admin.posters.error.fetchCategories': 'श्रेणियाँ नहीं मिल सकीं: {message}',
+  'admin.posters.error.fetchOccasions': 'अवसर नहीं मिल सके: {message}',
+  'admin.posters.error.fetchFonts': 'फ़ॉन्ट नहीं मिल सके: {message}',
+  'admin.posters.error.download': 'फ़ाइल डाउनलोड नहीं हो सकी: {message}',
+  'admin.posters.error.delete': 'पोस्टर हटाया नहीं जा सका: {message}',
+  'admin.posters.error.generateSizes': 'आकार नहीं बन सके: {message}',
+  'admin.posters.error.invalidZones': 'बदलने योग्य ज़ोन सही नहीं हैं: {message}',
+  'admin.posters.error.update': 'पोस्टर अपडेट नहीं हो सका: {message}',
+
+  'admin.zones.select': 'चुनें',
+  'admin.zones.textZone': 'टेक्स्ट ज़ोन',
+  'admin.zones.photoZone': 'फ़ोटो ज़ोन',
+  'admin.zones.preview': 'पूर्वावलोकन',
+  'admin.zones.moveHint': 'ज़ोन को खिसकाने के लिए उसे खींचें, या आकार बदलने के लिए उसका कोना।',
+  'admin.zones.drawHint': 'ज़ोन बनाने के लिए पोस्टर पर खींचें।',
+  'admin.zones.artwork': 'पोस्टर आर्टवर्क',
+  'admin.zones.textLabel': 'टेक्स्ट {number}',
+  'admin.zones.photoLabel': 'फ़ोटो {number}',
+  'admin.zones.label': 'ज़ोन का नाम',
+  'admin.zones.defaultText': 'डिफ़ॉल्ट टेक्स्ट',
+  'admin.zones.defaultTextPlaceholder': 'जब तक ग्राहक अपना टेक्स्ट न लिखे, तब तक दिखता है',
+  'admin.zones.font': 'फ़ॉन्ट',
+  'admin.zones.size': 'आकार',
+  'admin.zones.color': 'रंग',
+  'admin.zones.mask': 'मास्क का आकार',
+  'admin.zones.mask.rectangle': 'आयत',
+  'admin.zones.mask.rounded': 'गोल कोने',
+  'admin.zones.mask.circle': 'वृत्त',
+  'admin.zones.remove': 'ज़ोन हटाएँ',
+
+  'admin.categories.new': '🏷️ नई श्रेणी',
+  'admin.categories.list': '📂 श्रेणियाँ',
+  'admin.categories.namePlaceholder': 'जैसे, सालगिरह',
+  'admin.categories.sortOrder': 'क्रम',
+  'admin.categories.active': 'सक्रिय (उपयोगकर्ताओं को दिखती है और अपलोड में मिलती है)',
+  'admin.categories.add': 'श्रेणी जोड़ें',
+  'admin.categories.none': 'अभी कोई श्रेणी नहीं है।',
+  'admin.categories.order': 'क्रम {number}',
+  'admin.categories.confirmDelete': '"{name}" श्रेणी हटाएँ?',
+  'admin.categories.error.fetch': 'श्रेणियाँ नहीं मिल सकीं: {message}',
+
+  'admin.occasions.new': '📅 नया अवसर',
+  'admin.occasions.list': '🗓️ अवसरों का कैलेंडर',
+  'admin.occasions.namePlaceholder': 'जैसे, रक्षा बंधन',
+  'admin.occasions.date': 'तारीख',
+  'admin.occasions.endsOn': 'आख़िरी दिन (वैकल्पिक, कई दिन चलने वाले अवसरों के लिए)',
+  'admin.occasions.recursYearly': 'हर साल वही तारीख (बदलती तारीख वाले त्योहारों के लिए बंद रखें और हर साल उनकी तारीख अपडेट करें)',
+  'admin.occasions.active': 'सक्रिय (WishMe में दिखता है और अपलोड में मिलता है)',
+  'admin.occasions.add': 'अवसर जोड़ें',
+  'admin.occasions.none': 'अभी कोई अवसर नहीं है।',
+  'admin.occasions.everyYear': 'हर साल',
+  'admin.occasions.past': 'बीत चुका',
+  'admin.occasions.confirmDelete': '"{name}" हटाएँ? इसके पोस्टर बने रहेंगे, बस इससे जुड़े नहीं रहेंगे।',
+  'admin.occasions.error.fetch': 'अवसर नहीं मिल सके: {message}',
+
+  'admin.import.title': '📦 बल्क इम्पोर्ट',
+  'admin.import.needsEditor': 'पोस्टर इम्पोर्ट करने के लिए एडमिन या एडिटर भूमिका चाहिए।',
+  'admin.import.hint': 'पोस्टर की फ़ोटो और PSD की ZIP फ़ाइल CSV या JSON मैनिफ़ेस्ट के साथ अपलोड करें, हर पोस्टर की एक पंक्ति (अधिकतम {max})।',
+  'admin.import.columns': 'कॉलम:',
+  'admin.import.columnsHint': 'केवल file, title और category ज़रूरी हैं; thumbnail ZIP की किसी दूसरी फ़ाइल का नाम है और tags अल्पविराम से अलग होते हैं। मैनिफ़ेस्ट ZIP में manifest.csv या manifest.json के रूप में भी रखा जा सकता है।',
+  'admin.import.archive': 'ZIP फ़ाइल',
+  'admin.import.manifest': 'मैनिफ़ेस्ट (CSV या JSON, ZIP में शामिल हो तो वैकल्पिक)',
+  'admin.import.chooseArchive': 'इम्पोर्ट करने के लिए ZIP फ़ाइल चुनें।',
+  'admin.import.archiveTooLarge': 'ZIP फ़ाइल {size} की अपलोड सीमा से बड़ी है।',
+  'admin.import.submit': 'पोस्टर इम्पोर्ट करें',
+  'admin.import.importing': 'इम्पोर्ट हो रहा है...',
+  'admin.import.uploading': 'ZIP फ़ाइल अपलोड हो रही है... {percent}%',
+  'admin.import.results': 'परिणाम',
+  'admin.import.summary': '{imported} इम्पोर्ट हुए, {failed} विफल',
+  'admin.import.row': 'पंक्ति',
+  'admin.import.result': 'परिणाम',
+  'admin.import.imported': 'इम्पोर्ट हुआ',
+
+  'admin.drive.title': '☁️ ड्राइव से इम्पोर्ट',
+  'admin.drive.hint': 'साझा ड्राइव फ़ोल्डर की फ़ोटो और PSD। शीर्षक फ़ाइल के नाम से और श्रेणी पहले फ़ोल्डर स्तर से ली जाती है; इम्पोर्ट से पहले इन्हें ठीक कर लें। पहले से इम्पोर्ट की गई फ़ाइलें छिपी रहती हैं।',
+  'admin.drive.refresh': 'रीफ़्रेश करें',
+  'admin.drive.showImported': 'इम्पोर्ट की गई फ़ाइलें दिखाएँ',
+  'admin.drive.importSelected': 'चुनी गई {count} इम्पोर्ट करें',
+  'admin.drive.none': 'ड्राइव फ़ोल्डर में कोई नई फ़ाइल नहीं है।',
+  'admin.drive.alreadyImported': 'पहले से इम्पोर्ट',
+  'admin.drive.chooseCategory': 'श्रेणी चुनें',
+  'admin.drive.missingDetails': 'इम्पोर्ट से पहले "{name}" को शीर्षक और श्रेणी दें।',
+  'admin.drive.summary': '{imported} इम्पोर्ट हुए, {skipped} छोड़े गए, {failed} विफल',
+  'admin.drive.error.fetchCategories': 'श्रेणियाँ नहीं मिल सकीं: {message}',
+
+  'admin.analytics.title': '📊 पोस्टर विश्लेषण',
+  'admin.analytics.from': 'से',
+  'admin.analytics.to': 'तक',
+  'admin.analytics.apply': 'लागू करें',
+  'admin.analytics.lastDays': 'पिछले {days} दिन',
+  'admin.analytics.downloads': 'डाउनलोड',
+  'admin.analytics.customizedDownloads': 'बदलकर किए गए डाउनलोड',
+  'admin.analytics.customized': 'बदले गए',
+  'admin.analytics.editorOpens': 'एडिटर खुले',
+  'admin.analytics.conversion': 'रूपांतरण',
+  'admin.analytics.totalConversion': 'बदलाव से डाउनलोड रूपांतरण',
+  'admin.analytics.perDay': 'प्रति दिन',
+  'admin.analytics.dayTooltip': '{day}: {downloads} डाउनलोड ({customized} बदलकर), {opens} बार एडिटर खुला',
+  'admin.analytics.top': 'सबसे लोकप्रिय',
+  'admin.analytics.noDownloads': 'इस अवधि में कोई डाउनलोड नहीं।',
+  'admin.analytics.perCategory': 'श्रेणी के अनुसार',
+  'admin.analytics.rarelySaved': 'खोले गए पर कम सहेजे गए',
+  'admin.analytics.rarelySavedHint': 'बदलने योग्य पोस्टर जिन्हें ग्राहक एडिटर में खोलते हैं पर कम ही डाउनलोड करते हैं, यानी बदलाव का अनुभव सुधारने की ज़रूरत है।',
+  'admin.analytics.noneRarelySaved': 'इस अवधि में कोई बदलने योग्य पोस्टर अलग नहीं दिखता।',
+
+  'admin.storage.title': '🧹 स्टोरेज जाँच',
+  'admin.storage.hint': 'psd/, thumbnails/ और variants/ की फ़ाइलों की तुलना पोस्टर तालिका से करता है। स्कैन केवल रिपोर्ट देता है; लागू करने तक कुछ नहीं बदलता। पिछले एक घंटे की फ़ाइलें छोड़ दी जाती हैं, क्योंकि उनका अपलोड अभी चल रहा हो सकता है।',
+  'admin.storage.scan': 'स्कैन करें',
+  'admin.storage.working': 'काम चल रहा है...',
+  'admin.storage.deleteOrphans': 'अनाथ फ़ाइलें हटाएँ',
+  'admin.storage.flagBroken': 'गायब फ़ाइलों वाले पोस्टर चिह्नित करें',
+  'admin.storage.apply': 'लागू करें',
+  'admin.storage.confirm': 'ये बदलाव लागू करें?\n{actions}',
+  'admin.storage.confirmDelete': '{count} अनाथ फ़ाइलें हटाएँ',
+  'admin.storage.confirmFlag': '{count} टूटे पोस्टर चिह्नित करें',
+  'admin.storage.summary': 'सारांश',
+  'admin.storage.scanned': '{files} फ़ाइलें और {posters} पोस्टर स्कैन हुए: {orphans} अनाथ फ़ाइलें, {broken} पोस्टरों की फ़ाइलें गायब।',
+  'admin.storage.applied': '{deleted} फ़ाइलें हटाईं, {flagged} पोस्टर चिह्नित किए और {cleared} से चिह्न हटाया।',
+  'admin.storage.orphans': 'अनाथ फ़ाइलें',
+  'admin.storage.noOrphans': 'हर फ़ाइल किसी पोस्टर की है।',
+  'admin.storage.path': 'पाथ',
+  'admin.storage.size': 'आकार',
+  'admin.storage.uploaded': 'अपलोड हुई',
+  'admin.storage.broken': 'गायब फ़ाइलों वाले पोस्टर',
+  'admin.storage.noBroken': 'हर पोस्टर की फ़ाइलें स्टोरेज में हैं।',
+  'admin.storage.missing': 'गायब',
+
+  'admin.fonts.upload': '🔤 फ़ॉन्ट अपलोड करें',
+  'admin.fonts.library': '🖋️ फ़ॉन्ट लाइब्रेरी',
+  'admin.fonts.namePlaceholder': 'जैसे, Noto Sans Devanagari',
+  'admin.fonts.scripts': 'शामिल लिपियाँ',
+  'admin.fonts.script.latin': 'लैटिन',
+  'admin.fonts.script.devanagari': 'देवनागरी',
+  'admin.fonts.script.tamil': 'तमिल',
+  'admin.fonts.script.telugu': 'तेलुगु',
+  'admin.fonts.script.kannada': 'कन्नड़',
+  'admin.fonts.script.malayalam': 'मलयालम',
+  'admin.fonts.script.bengali': 'बांग्ला',
+  'admin.fonts.script.gujarati': 'गुजराती',
+  'admin.fonts.script.gurmukhi': 'गुरमुखी',
+  'admin.fonts.file': 'फ़ॉन्ट फ़ाइल (TTF, OTF या WOFF2, अधिकतम {size})',
+  'admin.fonts.chooseFile': 'TTF, OTF या WOFF2 फ़ाइल चुनें',
+  'admin.fonts.uploading': 'अपलोड हो रहा है...',
+  'admin.fonts.submit': 'फ़ॉन्ट अपलोड करें',
+  'admin.fonts.none': 'अभी कोई फ़ॉन्ट नहीं है। WishMe केवल अंतर्निहित फ़ॉन्ट दिखाता है।',
+  'admin.fonts.active': 'सक्रिय (WishMe और पोस्टर फ़ॉर्म में मिलता है)',
+  'admin.fonts.confirmDelete': '"{name}" हटाएँ? इसका उपयोग करने वाला टेक्स्ट डिफ़ॉल्ट फ़ॉन्ट में दिखेगा। मौजूदा डिज़ाइन जैसे के तैसे रखने हों तो इसे निष्क्रिय करें।',
+  'admin.fonts.error.fetch': 'फ़ॉन्ट नहीं मिल सके: {message}',
+};
+
+export default hi;
@@ -0,0 +1,344 @@
+import type { Messages } from '../i18n';
+
+const mr: Messages = {
+  'common.language': 'भाषा',
+  'common.cancel': 'रद्द करा',
+  'common.download': 'डाउनलोड',
+  'common.edit': 'बदला',
+  'common.delete': 'हटवा',
+  'common.editable': 'बदलता येणारे',
+  'common.systemFonts': 'सिस्टम फॉन्ट',
+  'common.libraryFonts': 'फॉन्ट संग्रह',
+  'common.save': 'जतन करा',
+  'common.saving': 'जतन होत आहे...',
+  'common.loading': 'लोड होत आहे...',
+  'common.name': 'नाव',
+  'common.slug': 'स्लग',
+  'common.iconEmoji': 'आयकॉन (इमोजी)',
+  'common.title': 'शीर्षक',
+  'common.category': 'श्रेणी',
+  'common.poster': 'पोस्टर',
+  'common.inactive': 'निष्क्रिय',
+
+  'wishme.logo': 'WishMe लोगो',
+  'wishme.profile': 'माझे प्रोफाइल',
+  'wishme.lightMode': 'लाइट मोडवर जा',
+  'wishme.darkMode': 'डार्क मोडवर जा',
+  'wishme.searchPlaceholder': 'नाव, सण किंवा टॅगने शोधा...',
+  'wishme.searchLabel': 'पोस्टर शोधा',
+  'wishme.selectCategory': 'श्रेणी निवडा',
+  'wishme.allCategories': 'सर्व',
+  'wishme.sortLabel': 'पोस्टर क्रमवार लावा',
+  'wishme.sortedByRelevance': 'शोध निकाल संबंधिततेनुसार लावले आहेत',
+  'wishme.sortLatest': 'नवीनतम',
+  'wishme.sortPopular': 'सर्वाधिक लोकप्रिय',
+  'wishme.previousCategories': 'मागील श्रेणी दाखवा',
+  'wishme.nextCategories': 'पुढील श्रेणी दाखवा',
+  'wishme.filterBy': '{category} पोस्टर दाखवा',
+  'wishme.upcoming': 'आगामी',
+  'wishme.upcomingLabel': 'आगामी सण',
+  'wishme.categories': 'श्रेणी',
+  'wishme.categoryLabel': 'श्रेणी निवड',
+  'wishme.dismissError': 'त्रुटी बंद करा',
+  'wishme.myDrafts': 'माझे ड्राफ्ट',
+  'wishme.editedAt': '{time} ला बदलले',
+  'wishme.resume': 'पुढे सुरू करा',
+  'wishme.resumeTitle': '{title} पुढे सुरू करा',
+  'wishme.deleteDraft': '{title} चा ड्राफ्ट हटवा',
+  'wishme.gallery': 'पोस्टर गॅलरी',
+  'wishme.posterLabel': 'पोस्टर: {title}',
+  'wishme.downloadTitle': '{title} डाउनलोड करा',
+  'wishme.editTitle': '{title} बदला',
+  'wishme.downloadingIn': '{title} {seconds} सेकंदांत डाउनलोड होईल',
+  'wishme.downloadStartsIn': 'डाउनलोड {seconds} सेकंदांत',
+  'wishme.noPosters': 'एकही पोस्टर सापडले नाही.',
+  'wishme.wishGenerator': 'शुभेच्छा जनरेटर',
+  'wishme.openWishGenerator': 'शुभेच्छा जनरेटर उघडा',
+  'wishme.footer': '© 2025 WishMe • वर्धन राजू यांनी 💖 ने बनवले',
+
+  'countdown.ended': 'संपले',
+  'countdown.today': 'आज',
+  'countdown.onNow': 'सध्या सुरू',
+  'countdown.hours': '{hours} ता {minutes} मि मध्ये',
+  'countdown.days': '{days} दिवसांत',
+
+  'wishme.error.openSharedDesign': 'शेअर केलेले डिझाइन उघडता आले नाही: {message}',
+  'wishme.error.loadPosters': 'पोस्टर लोड झाले नाहीत. कृपया नंतर पुन्हा प्रयत्न करा.',
+  'wishme.error.loadMore': 'आणखी पोस्टर लोड झाले नाहीत. कृपया पुन्हा प्रयत्न करा.',
+  'wishme.error.download': 'पोस्टर डाउनलोड झाले नाही. कृपया पुन्हा प्रयत्न करा.',
+  'wishme.error.imageTooLarge': 'अपलोड केलेला फोटो 5MB पेक्षा मोठा आहे.',
+  'wishme.error.posterUnavailable': 'हे पोस्टर आता उपलब्ध नाही.',
+  'wishme.error.openDraft': 'ड्राफ्ट उघडता आला नाही: {message}',
+  'wishme.error.deleteDraft': 'ड्राफ्ट हटवता आला नाही.',
+  'wishme.error.saveCustomized': 'तुमचे पोस्टर जतन झाले नाही: {message}',
+  'wishme.error.share': 'डिझाइन शेअर झाले नाही: {message}',
+
+  'editor.title': 'पोस्टर तुमच्या पद्धतीने बनवा',
+  'editor.draftFound': 'तुमचा {time} चा एक ड्राफ्ट आहे.',
+  'editor.resumeDraft': 'जिथे थांबलात तिथून सुरू करा',
+  'editor.startOver': 'नव्याने सुरू करा',
+  'editor.basePoster': 'मूळ पोस्टर',
+  'editor.userImage': 'तुमचा फोटो',
+  'editor.scrollUp': 'वर स्क्रोल करा',
+  'editor.scrollDown': 'खाली स्क्रोल करा',
+  'editor.undo': 'पूर्ववत करा',
+  'editor.undoHint': 'पूर्ववत करा (Ctrl+Z)',
+  'editor.redo': 'पुन्हा करा',
+  'editor.redoHint': 'पुन्हा करा (Ctrl+Shift+Z)',
+  'editor.zoomOut': 'लहान करा',
+  'editor.zoomIn': 'मोठे करा',
+  'editor.textLayers': 'मजकूर स्तर',
+  'editor.textLayer': 'मजकूर {number}',
+  'editor.layerCopy': '{label} ची प्रत',
+  'editor.newText': 'तुमचा मजकूर',
+  'editor.yourName': 'तुमचे नाव',
+  'editor.yourPhoto': 'तुमचा फोटो',
+  'editor.duplicateLayer': '{label} ची प्रत बनवा',
+  'editor.deleteLayer': '{label} हटवा',
+  'editor.addText': 'मजकूर जोडा',
+  'editor.textColor': 'मजकुराचा रंग',
+  'editor.fontFamily': 'फॉन्ट',
+  'editor.fontStyle': 'फॉन्ट शैली',
+  'editor.fontWeight': 'फॉन्ट जाडी',
+  'editor.normal': 'सामान्य',
+  'editor.italic': 'तिरपा',
+  'editor.bold': 'ठळक',
+  'editor.fontSize': 'फॉन्ट आकार',
+  'editor.textRotation': 'मजकूर फिरवा',
+  'editor.photoHint': '{label} (फक्त PNG, कमाल 5MB, ऐच्छिक)',
+  'editor.imageSize': 'फोटोचा आकार',
+  'editor.imageRotation': 'फोटो फिरवा',
+  'editor.shareHint': 'ही लिंक असणारा कोणीही डिझाइन उघडून स्वतःची प्रत बदलू शकतो:',
+  'editor.shareLink': 'शेअर लिंक',
+  'editor.rendering': 'तयार होत आहे...',
+  'editor.downloadCustomized': 'तुमचे पोस्टर डाउनलोड करा',
+  'editor.sharing': 'शेअर होत आहे...',
+  'editor.share': 'शेअर करा',
+
+  'admin.nav.posters': 'पोस्टर',
+  'admin.nav.import': 'एकत्रित आयात',
+  'admin.nav.drive': 'ड्राइव्ह आयात',
+  'admin.nav.categories': 'श्रेणी',
+  'admin.nav.occasions': 'सण',
+  'admin.nav.fonts': 'फॉन्ट',
+  'admin.nav.analytics': 'विश्लेषण',
+  'admin.nav.storage': 'स्टोरेज',
+  'admin.signOut': 'साइन आउट',
+
+  'admin.login.title': '🔐 अॅडमिन साइन इन',
+  'admin.login.email': 'ईमेल',
+  'admin.login.password': 'पासवर्ड',
+  'admin.login.signIn': 'साइन इन करा',
+  'admin.login.signingIn': 'साइन इन होत आहे...',
+  'admin.login.noAccess': 'या खात्याला अॅडमिन डॅशबोर्डचा प्रवेश नाही.',
+  'admin.login.failed': 'साइन इन झाले नाही: {message}',
+
+  'admin.posters.dashboard': '✨ अॅडमिन पोस्टर डॅशबोर्ड',
+  'admin.posters.uploaded': '📸 अपलोड केलेले पोस्टर',
+  'admin.posters.none': 'अजून एकही पोस्टर अपलोड केलेले नाही.',
+  'admin.posters.category': 'श्रेणी',
+  'admin.posters.title': 'पोस्टरचे शीर्षक',
+  'admin.posters.titlePlaceholder': 'उदा., दिवाळीच्या शुभेच्छा 2025',
+  'admin.posters.tagsHint': 'टॅग (स्वल्पविरामाने वेगळे, शोधात मदत करतात)',
+  'admin.posters.tags': 'टॅग (स्वल्पविरामाने वेगळे)',
+  'admin.posters.tagsPlaceholder': 'उदा., diwali, lights, rangoli',
+  'admin.posters.descriptionOptional': 'वर्णन (ऐच्छिक)',
+  'admin.posters.description': 'वर्णन',
+  'admin.posters.file': 'फाइल अपलोड करा (फोटो किंवा PSD, कमाल {size})',
+  'admin.posters.thumbnail': 'थंबनेल (PNG/JPEG, ऐच्छिक, रिकामे ठेवल्यास PSD मधून बनते, कमाल {size})',
+  'admin.posters.editableByUsers': 'वापरकर्ते बदलू शकतात',
+  'admin.posters.occasion': 'सण (ऐच्छिक, WishMe च्या "आगामी" बॅनरमध्ये दाखवतो)',
+  'admin.posters.noOccasion': 'काहीही नाही',
+  'admin.posters.inactive': '(निष्क्रिय)',
+  'admin.posters.status': 'स्थिती',
+  'admin.posters.status.draft': 'ड्राफ्ट',
+  'admin.posters.status.published': 'प्रकाशित',
+  'admin.posters.status.archived': 'संग्रहित',
+  'admin.posters.publishAt': 'प्रकाशन सुरू (ऐच्छिक)',
+  'admin.posters.unpublishAt': 'प्रकाशन समाप्त (ऐच्छिक)',
+  'admin.posters.fontForOverlays': 'फॉन्ट (मजकुरासाठी)',
+  'admin.posters.fontFamily': 'फॉन्ट',
+  'admin.posters.save': 'पोस्टर जतन करा',
+  'admin.posters.saving': 'जतन होत आहे...',
+  'admin.posters.uploading': 'पोस्टर अपलोड होत आहे...',
+  'admin.posters.processing': 'पोस्टर तयार होत आहे...',
+  'admin.posters.progress': '{total} पैकी {loaded}',
+  'admin.posters.starting': 'सुरू होत आहे...',
+  'admin.posters.measuringSpeed': 'वेग मोजत आहे...',
+  'admin.posters.speed': '{speed}/s, सुमारे {seconds} सेकंद बाकी',
+  'admin.posters.savingPreviews': 'जतन करून प्रीव्ह्यू बनवत आहे...',
+  'admin.posters.noFont': 'उपलब्ध नाही',
+  'admin.posters.originalOnly': 'फक्त मूळ फाइल, आकार बनवलेले नाहीत',
+  'admin.posters.generateSizes': 'आकार बनवा',
+  'admin.posters.generating': 'बनवत आहे...',
+  'admin.posters.previous': 'मागील',
+  'admin.posters.next': 'पुढील',
+  'admin.posters.page': 'पान {number}',
+  'admin.posters.editPoster': 'पोस्टर बदला',
+  'admin.posters.translations': 'भाषांतरे (ऐच्छिक; नसल्यास इंग्रजी दाखवले जाते)',
+  'admin.posters.translatedTitle': '{language} मधील शीर्षक',
+  'admin.posters.translatedDescription': '{language} मधील वर्णन',
+  'admin.posters.hideDesigner': 'झोन डिझायनर लपवा',
+  'admin.posters.showDesigner': 'बदलता येणारे झोन बनवा',
+  'admin.posters.update': 'अपडेट करा',
+  'admin.posters.confirmDelete': 'तुम्हाला खरोखर हे पोस्टर हटवायचे आहे का?',
+  'admin.posters.publish.scheduled': 'नियोजित · {date} पासून',
+  'admin.posters.publish.expired': 'कालबाह्य · {date} ला संपले',
+  'admin.posters.publish.liveUntil': 'प्रकाशित · {date} पर्यंत',
+  'admin.posters.publish.draft': 'ड्राफ्ट',
+  'admin.posters.publish.archived': 'संग्रहित',
+  'admin.posters.error.required': 'शीर्षक आणि फाइल आवश्यक आहेत.',
+  'admin.posters.error.fileTooLarge': 'फाइल {size} च्या कमाल मर्यादेपेक्षा मोठी आहे',
+  'admin.posters.error.thumbnailTooLarge': 'थंबनेल {size} च्या कमाल मर्यादेपेक्षा मोठे आहे',
+  'admin.posters.error.fetchPosters': 'पोस्टर मिळाले नाहीत: {message}',
+  'admin.posters.error.fetchCategories': 'श्रेणी मिळाल्या नाहीत: {message}',
+  'admin.posters.error.fetchOccasions': 'सण मिळाले नाहीत: {message}',
+  'admin.posters.error.fetchFonts': 'फॉन्ट मिळू शकले नाहीत: {message}',
+  'admin.posters.error.download': 'फाइल डाउनलोड झाली नाही: {message}',
+  'admin.posters.error.delete': 'पोस्टर हटवता आले नाही: {message}',
+  'admin.posters.error.generateSizes': 'आकार बनवता आले नाहीत: {message}',
+  'admin.posters.error.invalidZones': 'बदलता येणारे झोन चुकीचे आहेत: {message}',
+  'admin.posters.error.update': 'पोस्टर अपडेट झाले नाही: {message}',
+
+  'admin.zones.select': 'निवडा',
+  'admin.zones.textZone': 'मजकूर झोन',
+  'admin.zones.photoZone': 'फोटो झोन',
+  'admin.zones.preview': 'पूर्वावलोकन',
+  'admin.zones.moveHint': 'झोन हलवण्यासाठी तो ओढा, किंवा आकार बदलण्यासाठी त्याचा कोपरा ओढा.',
+  'admin.zones.drawHint': 'झोन काढण्यासाठी पोस्टरवर ओढा.',
+  'admin.zones.artwork': 'पोस्टर आर्टवर्क',
+  'admin.zones.textLabel': 'मजकूर {number}',
+  'admin.zones.photoLabel': 'फोटो {number}',
+  'admin.zones.label': 'झोनचे नाव',
+  'admin.zones.defaultText': 'डीफॉल्ट मजकूर',
+  'admin.zones.defaultTextPlaceholder': 'ग्राहक स्वतःचा मजकूर लिहीपर्यंत दिसतो',
+  'admin.zones.font': 'फॉन्ट',
+  'admin.zones.size': 'आकार',
+  'admin.zones.color': 'रंग',
+  'admin.zones.mask': 'मास्कचा आकार',
+  'admin.zones.mask.rectangle': 'आयत',
+  'admin.zones.mask.rounded': 'गोल कोपरे',
+  'admin.zones.mask.circle': 'वर्तुळ',
+  'admin.zones.remove': 'झोन काढा',
+
+  'admin.categories.new': '🏷️ नवीन श्रेणी',
+  'admin.categories.list': '📂 श्रेणी',
+  'admin.categories.namePlaceholder': 'उदा., लग्नाचा वाढदिवस',
+  'admin.categories.sortOrder': 'क्रम',
+  'admin.categories.active': 'सक्रिय (वापरकर्त्यांना दिसते आणि अपलोडमध्ये मिळते)',
+  'admin.categories.add': 'श्रेणी जोडा',
+  'admin.categories.none': 'अजून एकही श्रेणी नाही.',
+  'admin.categories.order': 'क्रम {number}',
+  'admin.categories.confirmDelete': '"{name}" श्रेणी हटवायची?',
+  'admin.categories.error.fetch': 'श्रेणी मिळाल्या नाहीत: {message}',
+
+  'admin.occasions.new': '📅 नवीन सण',
+  'admin.occasions.list': '🗓️ सणांचे कॅलेंडर',
+  'admin.occasions.namePlaceholder': 'उदा., रक्षाबंधन',
+  'admin.occasions.date': 'तारीख',
+  'admin.occasions.endsOn': 'शेवटचा दिवस (ऐच्छिक, अनेक दिवस चालणाऱ्या सणांसाठी)',
+  'admin.occasions.recursYearly': 'दरवर्षी तीच तारीख (तारीख बदलणाऱ्या सणांसाठी बंद ठेवा आणि दरवर्षी त्यांची तारीख अपडेट करा)',
+  'admin.occasions.active': 'सक्रिय (WishMe मध्ये दिसतो आणि अपलोडमध्ये मिळतो)',
+  'admin.occasions.add': 'सण जोडा',
+  'admin.occasions.none': 'अजून एकही सण नाही.',
+  'admin.occasions.everyYear': 'दरवर्षी',
+  'admin.occasions.past': 'होऊन गेला',
+  'admin.occasions.confirmDelete': '"{name}" हटवायचा? त्याचे पोस्टर राहतील, फक्त त्याच्याशी जोडलेले नसतील.',
+  'admin.occasions.error.fetch': 'सण मिळाले नाहीत: {message}',
+
+  'admin.import.title': '📦 एकत्रित आयात',
+  'admin.import.needsEditor': 'पोस्टर आयात करण्यासाठी अॅडमिन किंवा एडिटर भूमिका लागते.',
+  'admin.import.hint': 'पोस्टरचे फोटो आणि PSD ची ZIP फाइल CSV किंवा JSON मॅनिफेस्टसह अपलोड करा, प्रत्येक पोस्टरसाठी एक ओळ (कमाल {max}).',
+  'admin.import.columns': 'कॉलम:',
+  'admin.import.columnsHint': 'फक्त file, title आणि category आवश्यक आहेत; thumbnail म्हणजे ZIP मधील दुसऱ्या फाइलचे नाव आणि tags स्वल्पविरामाने वेगळे असतात. मॅनिफेस्ट ZIP मध्ये manifest.csv किंवा manifest.json म्हणूनही ठेवता येतो.',
+  'admin.import.archive': 'ZIP फाइल',
+  'admin.import.manifest': 'मॅनिफेस्ट (CSV किंवा JSON, ZIP मध्ये असल्यास ऐच्छिक)',
+  'admin.import.chooseArchive': 'आयात करण्यासाठी ZIP फाइल निवडा.',
+  'admin.import.archiveTooLarge': 'ZIP फाइल {size} च्या अपलोड मर्यादेपेक्षा मोठी आहे.',
+  'admin.import.submit': 'पोस्टर आयात करा',
+  'admin.import.importing': 'आयात होत आहे...',
+  'admin.import.uploading': 'ZIP फाइल अपलोड होत आहे... {percent}%',
+  'admin.import.results': 'निकाल',
+  'admin.import.summary': '{imported} आयात झाले, {failed} अयशस्वी',
+  'admin.import.row': 'ओळ',
+  'admin.import.result': 'निकाल',
+  'admin.import.imported': 'आयात झाले',
+
+  'admin.drive.title': '☁️ ड्राइव्हमधून आयात',
+  'admin.drive.hint': 'शेअर केलेल्या ड्राइव्ह फोल्डरमधील फोटो आणि PSD. शीर्षके फाइलच्या नावावरून आणि श्रेणी पहिल्या फोल्डर स्तरावरून घेतल्या जातात; आयात करण्याआधी त्या तपासा. आधीच आयात केलेल्या फाइल लपवलेल्या असतात.',
+  'admin.drive.refresh': 'रिफ्रेश करा',
+  'admin.drive.showImported': 'आयात केलेल्या फाइल दाखवा',
+  'admin.drive.importSelected': 'निवडलेल्या {count} आयात करा',
+  'admin.drive.none': 'ड्राइव्ह फोल्डरमध्ये नवीन फाइल नाहीत.',
+  'admin.drive.alreadyImported': 'आधीच आयात केलेले',
+  'admin.drive.chooseCategory': 'श्रेणी निवडा',
+  'admin.drive.missingDetails': 'आयात करण्याआधी "{name}" ला शीर्षक आणि श्रेणी द्या.',
+  'admin.drive.summary': '{imported} आयात झाले, {skipped} वगळले, {failed} अयशस्वी',
+  'admin.drive.error.fetchCategories': 'श्रेणी मिळाल्या नाहीत: {message}',
+
+  'admin.analytics.title': '📊 पोस्टर विश्लेषण',
+  'admin.analytics.from': 'पासून',
+  'admin.analytics.to': 'पर्यंत',
+  'admin.analytics.apply': 'लागू करा',
+  'admin.analytics.lastDays': 'मागील {days} दिवस',
+  'admin.analytics.downloads': 'डाउनलोड',
+  'admin.analytics.customizedDownloads': 'बदल करून केलेले डाउनलोड',
+  'admin.analytics.customized': 'बदललेले',
+  'admin.analytics.editorOpens': 'एडिटर उघडले',
+  'admin.analytics.conversion': 'रूपांतरण',
+  'admin.analytics.totalConversion': 'बदलापासून डाउनलोडपर्यंत रूपांतरण',
+  'admin.analytics.perDay': 'दररोज',
+  'admin.analytics.dayTooltip': '{day}: {downloads} डाउनलोड ({customized} बदल करून), {opens} वेळा एडिटर उघडले',
+  'admin.analytics.top': 'सर्वाधिक लोकप्रिय',
+  'admin.analytics.noDownloads': 'या कालावधीत एकही डाउनलोड नाही.',
+  'admin.analytics.perCategory': 'श्रेणीनुसार',
+  'admin.analytics.rarelySaved': 'उघडले पण क्वचित जतन केले',
+  'admin.analytics.rarelySavedHint': 'ग्राहक एडिटरमध्ये उघडतात पण क्वचितच डाउनलोड करतात असे बदलता येणारे पोस्टर, म्हणजे बदल करण्याचा अनुभव सुधारायला हवा.',
+  'admin.analytics.noneRarelySaved': 'या कालावधीत कोणताही बदलता येणारा पोस्टर वेगळा दिसत नाही.',
+
+  'admin.storage.title': '🧹 स्टोरेज तपासणी',
+  'admin.storage.hint': 'psd/, thumbnails/ आणि variants/ मधील फाइलची पोस्टर तक्त्याशी तुलना करते. स्कॅन फक्त अहवाल देतो; लागू करेपर्यंत काहीही बदलत नाही. मागील एका तासातील फाइल सोडल्या जातात, कारण त्यांचे अपलोड अजून चालू असू शकते.',
+  'admin.storage.scan': 'स्कॅन करा',
+  'admin.storage.working': 'काम चालू आहे...',
+  'admin.storage.deleteOrphans': 'अनाथ फाइल हटवा',
+  'admin.storage.flagBroken': 'फाइल नसलेले पोस्टर चिन्हांकित करा',
+  'admin.storage.apply': 'लागू करा',
+  'admin.storage.confirm': 'हे बदल लागू करायचे?\n{actions}',
+  'admin.storage.confirmDelete': '{count} अनाथ फाइल हटवा',
+  'admin.storage.confirmFlag': '{count} बिघडलेले पोस्टर चिन्हांकित करा',
+  'admin.storage.summary': 'सारांश',
+  'admin.storage.scanned': '{files} फाइल आणि {posters} पोस्टर स्कॅन झाले: {orphans} अनाथ फाइल, {broken} पोस्टरच्या फाइल गहाळ.',
+  'admin.storage.applied': '{deleted} फाइल हटवल्या, {flagged} पोस्टर चिन्हांकित केले आणि {cleared} वरील चिन्ह काढले.',
+  'admin.storage.orphans': 'अनाथ फाइल',
+  'admin.storage.noOrphans': 'प्रत्येक फाइल एखाद्या पोस्टरची आहे.',
+  'admin.storage.path': 'पाथ',
+  'admin.storage.size': 'आकार',
+  'admin.storage.uploaded': 'अपलोड झाली',
+  'admin.storage.broken': 'फाइल गहाळ असलेले पोस्टर',
+  'admin.storage.noBroken': 'प्रत्येक पोस्टरच्या फाइल स्टोरेजमध्ये आहेत.',
+  'admin.storage.missing': 'गहाळ',
+
+  'admin.fonts.upload': '🔤 फॉन्ट अपलोड करा',
+  'admin.fonts.library': '🖋️ फॉन्ट संग्रह',
+  'admin.fonts.namePlaceholder': 'उदा., Noto Sans Devanagari',
+  'admin.fonts.scripts': 'समाविष्ट लिपी',
+  'admin.fonts.script.latin': 'लॅटिन',
+  'admin.fonts.script.devanagari': 'देवनागरी',
+  'admin.fonts.script.tamil': 'तमिळ',
+  'admin.fonts.script.telugu': 'तेलुगू',
+  'admin.fonts.script.kannada': 'कन्नड',
+  'admin.fonts.script.malayalam': 'मल्याळम',
+  'admin.fonts.script.bengali': 'बंगाली',
+  'admin.fonts.script.gujarati': 'गुजराती',
+  'admin.fonts.script.gurmukhi': 'गुरमुखी',
+  'admin.fonts.file': 'फॉन्ट फाइल (TTF, OTF किंवा WOFF2, कमाल {size})',
+  'admin.fonts.chooseFile': 'TTF, OTF किंवा WOFF2 फाइल निवडा',
+  'admin.fonts.uploading': 'अपलोड होत आहे...',
+  'admin.fonts.submit': 'फॉन्ट अपलोड करा',
+  'admin.fonts.none': 'अजून एकही फॉन्ट नाही. WishMe फक्त अंगभूत फॉन्ट देते.',
+  'admin.fonts.active': 'सक्रिय (WishMe आणि पोस्टर फॉर्ममध्ये मिळतो)',
+  'admin.fonts.confirmDelete': '"{name}" हटवायचा? तो वापरणारा मजकूर डीफॉल्ट फॉन्टमध्ये दिसेल. सध्याची डिझाइन तशीच ठेवायची असल्यास तो निष्क्रिय करा.',
+  'admin.fonts.error.fetch': 'फॉन्ट मिळू शकले नाहीत: {message}',
+};
+
+export default mr;
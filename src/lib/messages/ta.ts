@@ -0,0 +1,344 @@
+import type { Messages } from '../i18n';
+
+const ta: Messages = {
+  'common.language': 'மொழி',
+  'common.cancel': 'ரத்து செய்',
+  'common.download': 'பதிவிறக்கு',
+  'common.edit': 'திருத்து',
+  'common.delete': 'நீக்கு',
+  'common.editable': 'திருத்தக்கூடியது',
+  'common.systemFonts': 'கணினி எழுத்துருக்கள்',
+  'common.libraryFonts': 'எழுத்துரு நூலகம்',
+  'common.save': 'சேமி',
+  'common.saving': 'சேமிக்கப்படுகிறது...',
+  'common.loading': 'ஏற்றப்படுகிறது...',
+  'common.name': 'பெயர்',
+  'common.slug': 'ஸ்லக்',
+  'common.iconEmoji': 'ஐகான் (ஈமோஜி)',
+  'common.title': 'தலைப்பு',
+  'common.category': 'வகை',
+  'common.poster': 'போஸ்டர்',
+  'common.inactive': 'செயலற்றது',
+
+  'wishme.logo': 'WishMe சின்னம்',
+  'wishme.profile': 'என் சுயவிவரம்',
+  'wishme.lightMode': 'வெளிர் பயன்முறைக்கு மாறு',
+  'wishme.darkMode': 'இருண்ட பயன்முறைக்கு மாறு',
+  'wishme.searchPlaceholder': 'பெயர், விழா அல்லது குறிச்சொல் மூலம் தேடுங்கள்...',
+  'wishme.searchLabel': 'போஸ்டர்களைத் தேடு',
+  'wishme.selectCategory': 'வகையைத் தேர்ந்தெடு',
+  'wishme.allCategories': 'அனைத்தும்',
+  'wishme.sortLabel': 'போஸ்டர்களை வரிசைப்படுத்து',
+  'wishme.sortedByRelevance': 'தேடல் முடிவுகள் பொருத்தத்தின்படி வரிசைப்படுத்தப்பட்டுள்ளன',
+  'wishme.sortLatest': 'புதியவை',
+  'wishme.sortPopular': 'மிகப் பிரபலமானவை',
+  'wishme.previousCategories': 'முந்தைய வகைகளைக் காட்டு',
+  'wishme.nextCategories': 'அடுத்த வகைகளைக் காட்டு',
+  'wishme.filterBy': '{category} போஸ்டர்களைக் காட்டு',
+  'wishme.upcoming': 'வரவிருப்பவை',
+  'wishme.upcomingLabel': 'வரவிருக்கும் விழாக்கள்',
+  'wishme.categories': 'வகைகள்',
+  'wishme.categoryLabel': 'வகைத் தேர்வு',
+  'wishme.dismissError': 'பிழையை மூடு',
+  'wishme.myDrafts': 'என் வரைவுகள்',
+  'wishme.editedAt': '{time} அன்று திருத்தப்பட்டது',
+  'wishme.resume': 'தொடர்',
+  'wishme.resumeTitle': '{title} தொடர்',
+  'wishme.deleteDraft': '{title} வரைவை நீக்கு',
+  'wishme.gallery': 'போஸ்டர் தொகுப்பு',
+  'wishme.posterLabel': 'போஸ்டர்: {title}',
+  'wishme.downloadTitle': '{title} பதிவிறக்கு',
+  'wishme.editTitle': '{title} திருத்து',
+  'wishme.downloadingIn': '{title} {seconds} வினாடிகளில் பதிவிறங்கும்',
+  'wishme.downloadStartsIn': '{seconds} வினாடிகளில் பதிவிறக்கம்',
+  'wishme.noPosters': 'போஸ்டர்கள் எதுவும் இல்லை.',
+  'wishme.wishGenerator': 'வாழ்த்து உருவாக்கி',
+  'wishme.openWishGenerator': 'வாழ்த்து உருவாக்கியைத் திற',
+  'wishme.footer': '© 2025 WishMe • வர்தன் ராஜு 💖 உடன் உருவாக்கியது',
+
+  'countdown.ended': 'முடிந்தது',
+  'countdown.today': 'இன்று',
+  'countdown.onNow': 'இப்போது நடக்கிறது',
+  'countdown.hours': '{hours} ம {minutes} நி-ல்',
+  'countdown.days': '{days} நாட்களில்',
+
+  'wishme.error.openSharedDesign': 'பகிரப்பட்ட வடிவமைப்பைத் திறக்க முடியவில்லை: {message}',
+  'wishme.error.loadPosters': 'போஸ்டர்களை ஏற்ற முடியவில்லை. பின்னர் மீண்டும் முயலவும்.',
+  'wishme.error.loadMore': 'மேலும் போஸ்டர்களை ஏற்ற முடியவில்லை. மீண்டும் முயலவும்.',
+  'wishme.error.download': 'போஸ்டரைப் பதிவிறக்க முடியவில்லை. மீண்டும் முயலவும்.',
+  'wishme.error.imageTooLarge': 'பதிவேற்றிய படம் 5MB வரம்பை மீறுகிறது.',
+  'wishme.error.posterUnavailable': 'இந்த போஸ்டர் இப்போது கிடைக்கவில்லை.',
+  'wishme.error.openDraft': 'வரைவைத் திறக்க முடியவில்லை: {message}',
+  'wishme.error.deleteDraft': 'வரைவை நீக்க முடியவில்லை.',
+  'wishme.error.saveCustomized': 'உங்கள் போஸ்டரைச் சேமிக்க முடியவில்லை: {message}',
+  'wishme.error.share': 'வடிவமைப்பைப் பகிர முடியவில்லை: {message}',
+
+  'editor.title': 'போஸ்டரைத் தனிப்பயனாக்கு',
+  'editor.draftFound': '{time} அன்று சேமித்த வரைவு உள்ளது.',
+  'editor.resumeDraft': 'விட்ட இடத்திலிருந்து தொடர்',
+  'editor.startOver': 'புதிதாகத் தொடங்கு',
+  'editor.basePoster': 'அடிப்படை போஸ்டர்',
+  'editor.userImage': 'உங்கள் படம்',
+  'editor.scrollUp': 'மேலே நகர்த்து',
+  'editor.scrollDown': 'கீழே நகர்த்து',
+  'editor.undo': 'செயல்தவிர்',
+  'editor.undoHint': 'செயல்தவிர் (Ctrl+Z)',
+  'editor.redo': 'மீண்டும் செய்',
+  'editor.redoHint': 'மீண்டும் செய் (Ctrl+Shift+Z)',
+  'editor.zoomOut': 'சிறிதாக்கு',
+  'editor.zoomIn': 'பெரிதாக்கு',
+  'editor.textLayers': 'உரை அடுக்குகள்',
+  'editor.textLayer': 'உரை {number}',
+  'editor.layerCopy': '{label} நகல்',
+  'editor.newText': 'உங்கள் உரை',
+  'editor.yourName': 'உங்கள் பெயர்',
+  'editor.yourPhoto': 'உங்கள் புகைப்படம்',
+  'editor.duplicateLayer': '{label} நகலெடு',
+  'editor.deleteLayer': '{label} நீக்கு',
+  'editor.addText': 'உரை சேர்',
+  'editor.textColor': 'உரை நிறம்',
+  'editor.fontFamily': 'எழுத்துரு',
+  'editor.fontStyle': 'எழுத்துரு பாணி',
+  'editor.fontWeight': 'எழுத்துரு தடிமன்',
+  'editor.normal': 'சாதாரணம்',
+  'editor.italic': 'சாய்வு',
+  'editor.bold': 'தடிமன்',
+  'editor.fontSize': 'எழுத்துரு அளவு',
+  'editor.textRotation': 'உரைச் சுழற்சி',
+  'editor.photoHint': '{label} (PNG மட்டும், அதிகபட்சம் 5MB, விருப்பத்தேர்வு)',
+  'editor.imageSize': 'படத்தின் அளவு',
+  'editor.imageRotation': 'படச் சுழற்சி',
+  'editor.shareHint': 'இந்த இணைப்பு உள்ள எவரும் வடிவமைப்பைத் திறந்து தங்கள் நகலை மாற்றலாம்:',
+  'editor.shareLink': 'பகிர்வு இணைப்பு',
+  'editor.rendering': 'உருவாக்கப்படுகிறது...',
+  'editor.downloadCustomized': 'உங்கள் போஸ்டரைப் பதிவிறக்கு',
+  'editor.sharing': 'பகிரப்படுகிறது...',
+  'editor.share': 'பகிர்',
+
+  'admin.nav.posters': 'போஸ்டர்கள்',
+  'admin.nav.import': 'மொத்த இறக்குமதி',
+  'admin.nav.drive': 'டிரைவ் இறக்குமதி',
+  'admin.nav.categories': 'வகைகள்',
+  'admin.nav.occasions': 'விழாக்கள்',
+  'admin.nav.fonts': 'எழுத்துருக்கள்',
+  'admin.nav.analytics': 'பகுப்பாய்வு',
+  'admin.nav.storage': 'சேமிப்பகம்',
+  'admin.signOut': 'வெளியேறு',
+
+  'admin.login.title': '🔐 நிர்வாகி உள்நுழைவு',
+  'admin.login.email': 'மின்னஞ்சல்',
+  'admin.login.password': 'கடவுச்சொல்',
+  'admin.login.signIn': 'உள்நுழை',
+  'admin.login.signingIn': 'உள்நுழைகிறது...',
+  'admin.login.noAccess': 'இந்தக் கணக்குக்கு நிர்வாகப் பலகை அணுகல் இல்லை.',
+  'admin.login.failed': 'உள்நுழைய முடியவில்லை: {message}',
+
+  'admin.posters.dashboard': '✨ நிர்வாகி போஸ்டர் பலகை',
+  'admin.posters.uploaded': '📸 பதிவேற்றிய போஸ்டர்கள்',
+  'admin.posters.none': 'இதுவரை போஸ்டர்கள் எதுவும் பதிவேற்றப்படவில்லை.',
+  'admin.posters.category': 'வகை',
+  'admin.posters.title': 'போஸ்டர் தலைப்பு',
+  'admin.posters.titlePlaceholder': 'எ.கா., தீபாவளி வாழ்த்துகள் 2025',
+  'admin.posters.tagsHint': 'குறிச்சொற்கள் (காற்புள்ளியால் பிரிக்கவும், தேடலுக்கு உதவும்)',
+  'admin.posters.tags': 'குறிச்சொற்கள் (காற்புள்ளியால் பிரிக்கவும்)',
+  'admin.posters.tagsPlaceholder': 'எ.கா., diwali, lights, rangoli',
+  'admin.posters.descriptionOptional': 'விளக்கம் (விருப்பத்தேர்வு)',
+  'admin.posters.description': 'விளக்கம்',
+  'admin.posters.file': 'கோப்பைப் பதிவேற்று (படம் அல்லது PSD, அதிகபட்சம் {size})',
+  'admin.posters.thumbnail': 'சிறுபடம் (PNG/JPEG, விருப்பத்தேர்வு, காலியாக இருந்தால் PSD-இலிருந்து உருவாகும், அதிகபட்சம் {size})',
+  'admin.posters.editableByUsers': 'பயனர்கள் திருத்தலாம்',
+  'admin.posters.occasion': 'விழா (விருப்பத்தேர்வு, WishMe "வரவிருப்பவை" பேனரில் காட்டும்)',
+  'admin.posters.noOccasion': 'எதுவுமில்லை',
+  'admin.posters.inactive': '(செயலற்றது)',
+  'admin.posters.status': 'நிலை',
+  'admin.posters.status.draft': 'வரைவு',
+  'admin.posters.status.published': 'வெளியிடப்பட்டது',
+  'admin.posters.status.archived': 'காப்பகத்தில்',
+  'admin.posters.publishAt': 'வெளியிடும் நேரம் (விருப்பத்தேர்வு)',
+  'admin.posters.unpublishAt': 'வெளியீடு முடியும் நேரம் (விருப்பத்தேர்வு)',
+  'admin.posters.fontForOverlays': 'எழுத்துரு (உரைக்கு)',
+  'admin.posters.fontFamily': 'எழுத்துரு',
+  'admin.posters.save': 'போஸ்டரைச் சேமி',
+  'admin.posters.saving': 'சேமிக்கப்படுகிறது...',
+  'admin.posters.uploading': 'போஸ்டர் பதிவேற்றப்படுகிறது...',
+  'admin.posters.processing': 'போஸ்டர் செயலாக்கப்படுகிறது...',
+  'admin.posters.progress': '{total}-இல் {loaded}',
+  'admin.posters.starting': 'தொடங்குகிறது...',
+  'admin.posters.measuringSpeed': 'வேகம் அளவிடப்படுகிறது...',
+  'admin.posters.speed': '{speed}/s, சுமார் {seconds} வினாடிகள் மீதம்',
+  'admin.posters.savingPreviews': 'சேமித்து முன்னோட்டங்கள் உருவாக்கப்படுகின்றன...',
+  'admin.posters.noFont': 'இல்லை',
+  'admin.posters.originalOnly': 'அசல் மட்டும், அளவுகள் உருவாக்கப்படவில்லை',
+  'admin.posters.generateSizes': 'அளவுகளை உருவாக்கு',
+  'admin.posters.generating': 'உருவாக்கப்படுகிறது...',
+  'admin.posters.previous': 'முந்தையது',
+  'admin.posters.next': 'அடுத்தது',
+  'admin.posters.page': 'பக்கம் {number}',
+  'admin.posters.editPoster': 'போஸ்டரைத் திருத்து',
+  'admin.posters.translations': 'மொழிபெயர்ப்புகள் (விருப்பத்தேர்வு; இல்லாதபோது ஆங்கிலம் காட்டப்படும்)',
+  'admin.posters.translatedTitle': '{language} தலைப்பு',
+  'admin.posters.translatedDescription': '{language} விளக்கம்',
+  'admin.posters.hideDesigner': 'மண்டல வடிவமைப்பியை மறை',
+  'admin.posters.showDesigner': 'திருத்தக்கூடிய மண்டலங்களை வடிவமை',
+  'admin.posters.update': 'புதுப்பி',
+  'admin.posters.confirmDelete': 'இந்த போஸ்டரை நிச்சயமாக நீக்க வேண்டுமா?',
+  'admin.posters.publish.scheduled': 'திட்டமிடப்பட்டது · {date} முதல்',
+  'admin.posters.publish.expired': 'காலாவதியானது · {date} அன்று முடிந்தது',
+  'admin.posters.publish.liveUntil': 'வெளியில் · {date} வரை',
+  'admin.posters.publish.draft': 'வரைவு',
+  'admin.posters.publish.archived': 'காப்பகத்தில்',
+  'admin.posters.error.required': 'தலைப்பும் கோப்பும் தேவை.',
+  'admin.posters.error.fileTooLarge': 'கோப்பின் அளவு {size} வரம்பை மீறுகிறது',
+  'admin.posters.error.thumbnailTooLarge': 'சிறுபடத்தின் அளவு {size} வரம்பை மீறுகிறது',
+  'admin.posters.error.fetchPosters': 'போஸ்டர்களைப் பெற முடியவில்லை: {message}',
+  'admin.posters.error.fetchCategories': 'வகைகளைப் பெற முடியவில்லை: {message}',
+  'admin.posters.error.fetchOccasions': 'விழாக்களைப் பெற முடியவில்லை: {message}',
+  'admin.posters.error.fetchFonts': 'எழுத்துருக்களைப் பெற முடியவில்லை: {message}',
+  'admin.posters.error.download': 'கோப்பைப் பதிவிறக்க முடியவில்லை: {message}',
+  'admin.posters.error.delete': 'போஸ்டரை நீக்க முடியவில்லை: {message}',
+  'admin.posters.error.generateSizes': 'அளவுகளை உருவாக்க முடியவில்லை: {message}',
+  'admin.posters.error.invalidZones': 'திருத்தக்கூடிய மண்டலங்கள் தவறானவை: {message}',
+  'admin.posters.error.update': 'போஸ்டரைப் புதுப்பிக்க முடியவில்லை: {message}',
+
+  'admin.zones.select': 'தேர்ந்தெடு',
+  'admin.zones.textZone': 'உரை மண்டலம்',
+  'admin.zones.photoZone': 'புகைப்பட மண்டலம்',
+  'admin.zones.preview': 'முன்னோட்டம்',
+  'admin.zones.moveHint': 'மண்டலத்தை நகர்த்த அதை இழுக்கவும், அளவை மாற்ற அதன் மூலையை இழுக்கவும்.',
+  'admin.zones.drawHint': 'மண்டலத்தை வரைய போஸ்டரின் மேல் இழுக்கவும்.',
+  'admin.zones.artwork': 'போஸ்டர் கலைப்படைப்பு',
+  'admin.zones.textLabel': 'உரை {number}',
+  'admin.zones.photoLabel': 'புகைப்படம் {number}',
+  'admin.zones.label': 'மண்டலப் பெயர்',
+  'admin.zones.defaultText': 'இயல்புநிலை உரை',
+  'admin.zones.defaultTextPlaceholder': 'வாடிக்கையாளர் தம் உரையைத் தட்டச்சு செய்யும் வரை காட்டப்படும்',
+  'admin.zones.font': 'எழுத்துரு',
+  'admin.zones.size': 'அளவு',
+  'admin.zones.color': 'நிறம்',
+  'admin.zones.mask': 'மாஸ்க் வடிவம்',
+  'admin.zones.mask.rectangle': 'செவ்வகம்',
+  'admin.zones.mask.rounded': 'வளைந்த மூலைகள்',
+  'admin.zones.mask.circle': 'வட்டம்',
+  'admin.zones.remove': 'மண்டலத்தை நீக்கு',
+
+  'admin.categories.new': '🏷️ புதிய வகை',
+  'admin.categories.list': '📂 வகைகள்',
+  'admin.categories.namePlaceholder': 'எ.கா., திருமண நாள்',
+  'admin.categories.sortOrder': 'வரிசை எண்',
+  'admin.categories.active': 'செயலில் (பயனர்களுக்குக் காட்டப்படும், பதிவேற்றத்தில் வழங்கப்படும்)',
+  'admin.categories.add': 'வகையைச் சேர்',
+  'admin.categories.none': 'இன்னும் வகைகள் இல்லை.',
+  'admin.categories.order': 'வரிசை {number}',
+  'admin.categories.confirmDelete': '"{name}" வகையை நீக்கவா?',
+  'admin.categories.error.fetch': 'வகைகளைப் பெற முடியவில்லை: {message}',
+
+  'admin.occasions.new': '📅 புதிய விழா',
+  'admin.occasions.list': '🗓️ விழா நாட்காட்டி',
+  'admin.occasions.namePlaceholder': 'எ.கா., ரக்ஷா பந்தன்',
+  'admin.occasions.date': 'தேதி',
+  'admin.occasions.endsOn': 'கடைசி நாள் (விருப்பத்தேர்வு, பல நாட்கள் நடக்கும் விழாக்களுக்கு)',
+  'admin.occasions.recursYearly': 'ஒவ்வொரு ஆண்டும் அதே தேதி (தேதி மாறும் பண்டிகைகளுக்கு இதை அணைத்து, ஆண்டுதோறும் தேதியைப் புதுப்பிக்கவும்)',
+  'admin.occasions.active': 'செயலில் (WishMe-இல் காட்டப்படும், பதிவேற்றத்தில் வழங்கப்படும்)',
+  'admin.occasions.add': 'விழாவைச் சேர்',
+  'admin.occasions.none': 'இன்னும் விழாக்கள் இல்லை.',
+  'admin.occasions.everyYear': 'ஒவ்வொரு ஆண்டும்',
+  'admin.occasions.past': 'முடிந்தது',
+  'admin.occasions.confirmDelete': '"{name}"-ஐ நீக்கவா? அதன் போஸ்டர்கள் இருக்கும், ஆனால் அதனுடன் இணைக்கப்பட்டிருக்காது.',
+  'admin.occasions.error.fetch': 'விழாக்களைப் பெற முடியவில்லை: {message}',
+
+  'admin.import.title': '📦 மொத்த இறக்குமதி',
+  'admin.import.needsEditor': 'போஸ்டர்களை இறக்குமதி செய்ய நிர்வாகி அல்லது திருத்துநர் பங்கு தேவை.',
+  'admin.import.hint': 'போஸ்டர் படங்கள், PSD-களின் ZIP கோப்பை CSV அல்லது JSON மேனிஃபெஸ்டுடன் பதிவேற்றவும், ஒரு போஸ்டருக்கு ஒரு வரிசை (அதிகபட்சம் {max}).',
+  'admin.import.columns': 'நெடுவரிசைகள்:',
+  'admin.import.columnsHint': 'file, title, category மட்டுமே கட்டாயம்; thumbnail என்பது ZIP-இல் உள்ள மற்றொரு கோப்பின் பெயர், tags காற்புள்ளியால் பிரிக்கப்படும். மேனிஃபெஸ்டை ZIP-இல் manifest.csv அல்லது manifest.json ஆகவும் வைக்கலாம்.',
+  'admin.import.archive': 'ZIP காப்பகம்',
+  'admin.import.manifest': 'மேனிஃபெஸ்ட் (CSV அல்லது JSON, ZIP-இல் இருந்தால் விருப்பத்தேர்வு)',
+  'admin.import.chooseArchive': 'இறக்குமதி செய்ய ZIP காப்பகத்தைத் தேர்ந்தெடுக்கவும்.',
+  'admin.import.archiveTooLarge': 'ZIP காப்பகம் {size} பதிவேற்ற வரம்பை மீறுகிறது.',
+  'admin.import.submit': 'போஸ்டர்களை இறக்குமதி செய்',
+  'admin.import.importing': 'இறக்குமதி செய்யப்படுகிறது...',
+  'admin.import.uploading': 'ZIP காப்பகம் பதிவேற்றப்படுகிறது... {percent}%',
+  'admin.import.results': 'முடிவுகள்',
+  'admin.import.summary': '{imported} இறக்குமதியானது, {failed} தோல்வி',
+  'admin.import.row': 'வரிசை',
+  'admin.import.result': 'முடிவு',
+  'admin.import.imported': 'இறக்குமதியானது',
+
+  'admin.drive.title': '☁️ டிரைவிலிருந்து இறக்குமதி',
+  'admin.drive.hint': 'பகிரப்பட்ட டிரைவ் கோப்புறையில் உள்ள படங்களும் PSD-களும். தலைப்புகள் கோப்புப் பெயர்களிலிருந்தும் வகைகள் முதல் நிலைக் கோப்புறையிலிருந்தும் எடுக்கப்படும்; இறக்குமதிக்கு முன் அவற்றைச் சரிசெய்யவும். ஏற்கனவே இறக்குமதி செய்த கோப்புகள் மறைக்கப்படும்.',
+  'admin.drive.refresh': 'புதுப்பி',
+  'admin.drive.showImported': 'இறக்குமதி செய்த கோப்புகளைக் காட்டு',
+  'admin.drive.importSelected': 'தேர்ந்தெடுத்த {count} கோப்புகளை இறக்குமதி செய்',
+  'admin.drive.none': 'டிரைவ் கோப்புறையில் புதிய கோப்புகள் இல்லை.',
+  'admin.drive.alreadyImported': 'ஏற்கனவே இறக்குமதியானது',
+  'admin.drive.chooseCategory': 'வகையைத் தேர்ந்தெடு',
+  'admin.drive.missingDetails': 'இறக்குமதிக்கு முன் "{name}"-க்குத் தலைப்பும் வகையும் கொடுக்கவும்.',
+  'admin.drive.summary': '{imported} இறக்குமதியானது, {skipped} தவிர்க்கப்பட்டது, {failed} தோல்வி',
+  'admin.drive.error.fetchCategories': 'வகைகளைப் பெற முடியவில்லை: {message}',
+
+  'admin.analytics.title': '📊 போஸ்டர் பகுப்பாய்வு',
+  'admin.analytics.from': 'முதல்',
+  'admin.analytics.to': 'வரை',
+  'admin.analytics.apply': 'பயன்படுத்து',
+  'admin.analytics.lastDays': 'கடந்த {days} நாட்கள்',
+  'admin.analytics.downloads': 'பதிவிறக்கங்கள்',
+  'admin.analytics.customizedDownloads': 'தனிப்பயனாக்கிய பதிவிறக்கங்கள்',
+  'admin.analytics.customized': 'தனிப்பயனாக்கியவை',
+  'admin.analytics.editorOpens': 'எடிட்டர் திறப்புகள்',
+  'admin.analytics.conversion': 'மாற்று விகிதம்',
+  'admin.analytics.totalConversion': 'திருத்தத்திலிருந்து பதிவிறக்க மாற்று விகிதம்',
+  'admin.analytics.perDay': 'நாள்வாரியாக',
+  'admin.analytics.dayTooltip': '{day}: {downloads} பதிவிறக்கங்கள் ({customized} தனிப்பயனாக்கியவை), {opens} எடிட்டர் திறப்புகள்',
+  'admin.analytics.top': 'சிறந்து விளங்குபவை',
+  'admin.analytics.noDownloads': 'இந்தக் காலத்தில் பதிவிறக்கங்கள் இல்லை.',
+  'admin.analytics.perCategory': 'வகைவாரியாக',
+  'admin.analytics.rarelySaved': 'திறக்கப்பட்டும் அரிதாகச் சேமிக்கப்பட்டவை',
+  'admin.analytics.rarelySavedHint': 'வாடிக்கையாளர்கள் எடிட்டரில் திறந்தும் அரிதாகவே பதிவிறக்கும் திருத்தக்கூடிய போஸ்டர்கள்; திருத்தும் அனுபவம் மேம்பட வேண்டும் என்பதன் அறிகுறி.',
+  'admin.analytics.noneRarelySaved': 'இந்தக் காலத்தில் எந்தத் திருத்தக்கூடிய போஸ்டரும் தனித்துத் தெரியவில்லை.',
+
+  'admin.storage.title': '🧹 சேமிப்பகச் சரிபார்ப்பு',
+  'admin.storage.hint': 'psd/, thumbnails/, variants/ கீழ் உள்ள கோப்புகளைப் போஸ்டர் அட்டவணையுடன் ஒப்பிடுகிறது. ஸ்கேன் அறிக்கை மட்டுமே தரும்; பயன்படுத்தும் வரை எதுவும் மாறாது. கடந்த ஒரு மணி நேரக் கோப்புகள் தொடப்படாது, அவற்றின் பதிவேற்றம் இன்னும் நடந்துகொண்டிருக்கலாம்.',
+  'admin.storage.scan': 'ஸ்கேன் செய்',
+  'admin.storage.working': 'செயல்படுகிறது...',
+  'admin.storage.deleteOrphans': 'அனாதைக் கோப்புகளை நீக்கு',
+  'admin.storage.flagBroken': 'கோப்புகள் இல்லாத போஸ்டர்களைக் குறியிடு',
+  'admin.storage.apply': 'பயன்படுத்து',
+  'admin.storage.confirm': 'இந்த மாற்றங்களைப் பயன்படுத்தவா?\n{actions}',
+  'admin.storage.confirmDelete': '{count} அனாதைக் கோப்புகளை நீக்கு',
+  'admin.storage.confirmFlag': '{count} பழுதான போஸ்டர்களைக் குறியிடு',
+  'admin.storage.summary': 'சுருக்கம்',
+  'admin.storage.scanned': '{files} கோப்புகளும் {posters} போஸ்டர்களும் ஸ்கேன் செய்யப்பட்டன: {orphans} அனாதைக் கோப்புகள், கோப்புகள் இல்லாத {broken} போஸ்டர்கள்.',
+  'admin.storage.applied': '{deleted} கோப்புகள் நீக்கப்பட்டன, {flagged} போஸ்டர்கள் குறியிடப்பட்டன, {cleared} போஸ்டர்களின் குறி நீக்கப்பட்டது.',
+  'admin.storage.orphans': 'அனாதைக் கோப்புகள்',
+  'admin.storage.noOrphans': 'ஒவ்வொரு கோப்பும் ஒரு போஸ்டருக்குச் சொந்தமானது.',
+  'admin.storage.path': 'பாதை',
+  'admin.storage.size': 'அளவு',
+  'admin.storage.uploaded': 'பதிவேற்றப்பட்டது',
+  'admin.storage.broken': 'கோப்புகள் இல்லாத போஸ்டர்கள்',
+  'admin.storage.noBroken': 'ஒவ்வொரு போஸ்டரின் கோப்புகளும் சேமிப்பகத்தில் உள்ளன.',
+  'admin.storage.missing': 'இல்லாதவை',
+
+  'admin.fonts.upload': '🔤 எழுத்துருவைப் பதிவேற்று',
+  'admin.fonts.library': '🖋️ எழுத்துரு நூலகம்',
+  'admin.fonts.namePlaceholder': 'எ.கா., Noto Sans Tamil',
+  'admin.fonts.scripts': 'உள்ளடக்கிய எழுத்துமுறைகள்',
+  'admin.fonts.script.latin': 'லத்தீன்',
+  'admin.fonts.script.devanagari': 'தேவநாகரி',
+  'admin.fonts.script.tamil': 'தமிழ்',
+  'admin.fonts.script.telugu': 'தெலுங்கு',
+  'admin.fonts.script.kannada': 'கன்னடம்',
+  'admin.fonts.script.malayalam': 'மலையாளம்',
+  'admin.fonts.script.bengali': 'வங்காளம்',
+  'admin.fonts.script.gujarati': 'குஜராத்தி',
+  'admin.fonts.script.gurmukhi': 'குர்முகி',
+  'admin.fonts.file': 'எழுத்துருக் கோப்பு (TTF, OTF அல்லது WOFF2, அதிகபட்சம் {size})',
+  'admin.fonts.chooseFile': 'TTF, OTF அல்லது WOFF2 கோப்பைத் தேர்ந்தெடுக்கவும்',
+  'admin.fonts.uploading': 'பதிவேற்றப்படுகிறது...',
+  'admin.fonts.submit': 'எழுத்துருவைப் பதிவேற்று',
+  'admin.fonts.none': 'இன்னும் எழுத்துருக்கள் இல்லை. WishMe உள்ளமைந்த எழுத்துருக்களை மட்டுமே வழங்குகிறது.',
+  'admin.fonts.active': 'செயலில் (WishMe-இலும் போஸ்டர் படிவங்களிலும் வழங்கப்படும்)',
+  'admin.fonts.confirmDelete': '"{name}"-ஐ நீக்கவா? இதைப் பயன்படுத்தும் உரை இயல்புநிலை எழுத்துருவுக்கு மாறும். இருக்கும் வடிவமைப்புகளை மாற்றாமல் வைக்க, இதைச் செயலிழக்கச் செய்யவும்.',
+  'admin.fonts.error.fetch': 'எழுத்துருக்களைப் பெற முடியவில்லை: {message}',
+};
+
+export default ta;
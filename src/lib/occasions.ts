@@ -0,0 +1,136 @@
+import { slugify } from './categories';
+
+export interface Occasion {
+  id: number;
+  name: string;
+  slug: string;
+  // An emoji shown next to the name
+  icon: string | null;
+  // Calendar dates, YYYY-MM-DD; endsOn is null for one-day occasions
+  startsOn: string;
+  endsOn: string | null;
+  // Fixed-date occasions (Christmas, New Year) roll over to the next year by themselves
+  recursYearly: boolean;
+  isActive: boolean;
+}
+
+export type OccasionInput = Omit<Occasion, 'id'>;
+
+const MAX_NAME_LENGTH = 40;
+const MAX_ICON_LENGTH = 16;
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isCalendarDate = (value: unknown): value is string =>
+  typeof value === 'string' && DATE.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+// Maps an `occasions` row to the API shape.
+export const occasionFromRow = (row: any): Occasion => ({
+  id: row.id,
+  name: row.name,
+  slug: row.slug,
+  icon: row.icon,
+  startsOn: row.starts_on,
+  endsOn: row.ends_on,
+  recursYearly: row.recurs_yearly,
+  isActive: row.is_active,
+});
+
+export const occasionToRow = (occasion: OccasionInput) => ({
+  name: occasion.name,
+  slug: occasion.slug,
+  icon: occasion.icon,
+  starts_on: occasion.startsOn,
+  ends_on: occasion.endsOn,
+  recurs_yearly: occasion.recursYearly,
+  is_active: occasion.isActive,
+});
+
+// Checks an untrusted occasion from the admin screens. A missing slug is derived from the name.
+export function validateOccasion(input: unknown): { occasion?: OccasionInput; error?: string } {
+  if (typeof input !== 'object' || input === null) return { error: 'Occasion must be an object' };
+  const { name, slug, icon, startsOn, endsOn, recursYearly, isActive } = input as Record<string, any>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `Name is required and must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  const finalSlug = slug === undefined || slug === '' ? slugify(name) : slug;
+  if (typeof finalSlug !== 'string' || !SLUG.test(finalSlug)) {
+    return { error: 'Slug may only contain lowercase letters, digits and single dashes' };
+  }
+  if (icon !== undefined && icon !== null && (typeof icon !== 'string' || icon.length > MAX_ICON_LENGTH)) {
+    return { error: `Icon must be at most ${MAX_ICON_LENGTH} characters` };
+  }
+  if (!isCalendarDate(startsOn)) return { error: 'Start date is required, as YYYY-MM-DD' };
+  const finalEndsOn = endsOn === undefined || endsOn === '' ? null : endsOn;
+  if (finalEndsOn !== null && (!isCalendarDate(finalEndsOn) || finalEndsOn < startsOn)) {
+    return { error: 'End date must be a YYYY-MM-DD date on or after the start date' };
+  }
+  if (recursYearly !== undefined && typeof recursYearly !== 'boolean') {
+    return { error: 'Yearly flag must be true or false' };
+  }
+  if (isActive !== undefined && typeof isActive !== 'boolean') return { error: 'Active flag must be true or false' };
+
+  return {
+    occasion: {
+      name: name.trim(),
+      slug: finalSlug,
+      icon: icon ? icon.trim() : null,
+      startsOn,
+      endsOn: finalEndsOn,
+      recursYearly: recursYearly ?? false,
+      isActive: isActive ?? true,
+    },
+  };
+}
+
+// 29 February becomes 1 March outside leap years
+const addYears = (date: string, years: number) => {
+  const year = Number(date.slice(0, 4)) + years;
+  const shifted = `${year}${date.slice(4)}`;
+  return isCalendarDate(shifted) ? shifted : `${year}-03-01`;
+};
+
+// The dates an occasion next falls on, counting one in progress on `today` (YYYY-MM-DD).
+// Null once a one-off occasion is over.
+export function nextOccurrence(occasion: Occasion, today: string): { startsOn: string; endsOn: string } | null {
+  const endsOn = occasion.endsOn ?? occasion.startsOn;
+  if (endsOn >= today) return { startsOn: occasion.startsOn, endsOn };
+  if (!occasion.recursYearly) return null;
+
+  const years = Number(today.slice(0, 4)) - Number(endsOn.slice(0, 4));
+  const shift = addYears(endsOn, years) >= today ? years : years + 1;
+  return { startsOn: addYears(occasion.startsOn, shift), endsOn: addYears(endsOn, shift) };
+}
+
+// An occasion with its posters, as listed by /api/occasions/upcoming
+export interface UpcomingOccasion<Poster = unknown> extends Occasion {
+  // The next occurrence, which differs from the stored dates for yearly occasions
+  nextStartsOn: string;
+  nextEndsOn: string;
+  posters: Poster[];
+}
+
+// How far off an occasion is, for the countdown on its card. `startsOn` and `endsOn` are
+// local calendar dates; the UI words it in the visitor's language.
+export type Countdown =
+  | { key: 'ended' | 'today' | 'onNow' }
+  | { key: 'hours'; hours: number; minutes: number }
+  | { key: 'days'; days: number };
+
+export function occasionCountdown(startsOn: string, endsOn: string, now = new Date()): Countdown {
+  const start = new Date(`${startsOn}T00:00:00`);
+  const end = new Date(`${endsOn}T23:59:59`);
+  if (now > end) return { key: 'ended' };
+  if (now >= start) return { key: startsOn === endsOn ? 'today' : 'onNow' };
+
+  const minutes = Math.ceil((start.getTime() - now.getTime()) / 60000);
+  if (minutes < 24 * 60) return { key: 'hours', hours: Math.floor(minutes / 60), minutes: minutes % 60 };
+
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return { key: 'days', days: Math.round((start.getTime() - midnight.getTime()) / 86400000) };
+}
+
+// Today's date in the browser's time zone, as YYYY-MM-DD
+export const localDate = (now = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
@@ -0,0 +1,270 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parsePsd } from './psd';
+import { collectTextLayers, type PsdMetadata } from './psdMetadata';
+import type { PublishSchedule } from './publishing';
+import { renderVariants, type RenderedVariant } from './render';
+import { templateFromPsd, type PosterTemplate } from './template';
+import { MAX_DESCRIPTION_LENGTH, normalizeTags } from './tags';
+import { MAX_FILE_SIZE, MAX_THUMBNAIL_SIZE, formatMegabytes } from './uploads';
+import type { ImageVariants } from './variants';
+
+export interface UploadFile {
+  name: string;
+  type: string;
+  data: Buffer;
+}
+
+export interface PosterUpload {
+  file: UploadFile;
+  thumbnail: UploadFile | null;
+  title: string;
+  category: string;
+  isEditable: boolean;
+  fontFamily: string;
+  // Raw, as entered; normalized by normalizeTags
+  tags: unknown;
+  description: string | null;
+  template: PosterTemplate | null;
+  // Set when imported from Google Drive
+  driveFileId?: string | null;
+  // Published right away when omitted
+  schedule?: PublishSchedule;
+  occasionId?: number | null;
+}
+
+export interface UploadedPoster {
+  downloadLink: string;
+  title: string;
+  category: string;
+  isEditable: boolean;
+  fontFamily: string;
+  template: PosterTemplate | null;
+  imageVariants: ImageVariants;
+}
+
+// Uploads rendered variants as variants/<base>-<name>.webp|jpg, appending each stored path
+// to `storagePaths` as it goes so the caller can roll back on failure.
+export async function storeVariants(
+  supabase: SupabaseClient,
+  base: string,
+  rendered: RenderedVariant[],
+  storagePaths: string[]
+): Promise<{ imageVariants?: ImageVariants; error?: string }> {
+  const imageVariants: ImageVariants = {};
+
+  for (const variant of rendered) {
+    const urls = { webp: '', jpeg: '' };
+    for (const [format, ext, contentType] of [
+      ['webp', 'webp', 'image/webp'],
+      ['jpeg', 'jpg', 'image/jpeg'],
+    ] as const) {
+      const variantPath = `variants/${base}-${variant.name}.${ext}`;
+      const { error } = await supabase.storage
+        .from('posters')
+        .upload(variantPath, variant[format], { contentType, upsert: true });
+
+      if (error) {
+        console.error('Variant upload error:', error);
+        return { error: 'Image variant upload failed: ' + error.message };
+      }
+      storagePaths.push(variantPath);
+      urls[format] = supabase.storage.from('posters').getPublicUrl(variantPath).data.publicUrl;
+    }
+    imageVariants[variant.name] = { width: variant.width, height: variant.height, ...urls };
+  }
+
+  return { imageVariants };
+}
+
+// Validates one poster, stores its files in the `posters` bucket and inserts its row.
+// Shared by the upload form and the bulk import, so both apply the same rules.
+export async function uploadPoster(
+  supabase: SupabaseClient,
+  upload: PosterUpload
+): Promise<{ poster?: UploadedPoster; error?: string }> {
+  const { file, thumbnail, title, category, isEditable, fontFamily, description } = upload;
+  let template = upload.template;
+
+  if (!file || !title || !category) {
+    return { error: 'Missing file, title, or category' };
+  }
+
+  const { data: categoryRow, error: categoryError } = await supabase
+    .from('categories')
+    .select('id')
+    .eq('name', category)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (categoryError || !categoryRow) {
+    return { error: 'Unknown or inactive category: ' + category };
+  }
+
+  const { tags, error: tagsError } = normalizeTags(upload.tags ?? '');
+  if (!tags) {
+    return { error: 'Invalid tags: ' + tagsError };
+  }
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    return { error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+  }
+
+  if (file.data.length > MAX_FILE_SIZE) {
+    return { error: `File size exceeds maximum limit of ${formatMegabytes(MAX_FILE_SIZE)}` };
+  }
+  if (thumbnail && thumbnail.data.length > MAX_THUMBNAIL_SIZE) {
+    return { error: `Thumbnail exceeds maximum limit of ${formatMegabytes(MAX_THUMBNAIL_SIZE)}` };
+  }
+
+  const fileExt = file.name.split('.').pop()?.toLowerCase();
+  const isPsd = fileExt === 'psd';
+  const fileName = `${Date.now()}-${title.replace(/\s+/g, '-')}.${fileExt}`;
+  const uploadPath = isPsd ? `psd/${fileName}` : `thumbnails/${fileName}`;
+
+  // Parse the layer tree before storing anything, so an unreadable PSD is rejected up front.
+  // The PSD's flattened composite is what customizations are exported on, and also the
+  // preview when there is no manual thumbnail.
+  let psdMetadata: PsdMetadata | null = null;
+  let composite: Buffer | null = null;
+  if (isPsd) {
+    try {
+      const psd = parsePsd(file.data);
+      psdMetadata = psd.metadata;
+      composite = await psd.renderComposite();
+    } catch (parseError: any) {
+      console.error('PSD parse error:', parseError);
+      return { error: 'Could not read PSD file: ' + parseError.message };
+    }
+
+    // Without an explicit template, the designer's text layers become the editable slots
+    if (!template && collectTextLayers(psdMetadata).length > 0) {
+      template = templateFromPsd(psdMetadata);
+    }
+  }
+
+  // Renditions of what the galleries show: the image itself, or a PSD's preview
+  const previewSource = isPsd ? (thumbnail?.data ?? composite) : file.data;
+  let renderedVariants: RenderedVariant[] = [];
+  if (previewSource) {
+    try {
+      renderedVariants = await renderVariants(previewSource);
+    } catch (renderError: any) {
+      console.error('Variant render error:', renderError);
+      return { error: 'Could not read image: ' + renderError.message };
+    }
+  }
+
+  // Everything stored so far, removed again if a later step fails so nothing is orphaned
+  const storagePaths: string[] = [];
+  const rollback = async () => {
+    if (storagePaths.length === 0) return;
+    const { error } = await supabase.storage.from('posters').remove(storagePaths);
+    if (error) console.error('Rollback error, objects left in storage:', storagePaths, error);
+  };
+
+  const { data: { publicUrl } } = supabase.storage.from('posters').getPublicUrl(uploadPath);
+  let thumbnailUrl = '';
+  let artworkUrl = publicUrl;
+  let imageVariants: ImageVariants = {};
+  try {
+    // Upload main file
+    const { error: uploadError } = await supabase.storage
+      .from('posters')
+      .upload(uploadPath, file.data, { contentType: file.type, upsert: true });
+
+    if (uploadError) {
+      console.error('Storage error:', uploadError);
+      return { error: 'Upload failed: ' + uploadError.message };
+    }
+    storagePaths.push(uploadPath);
+
+    // Upload the manual thumbnail if provided, otherwise the composite rendered from the PSD
+    if (thumbnail || composite) {
+      const thumbnailName = `${Date.now()}-${title.replace(/\s+/g, '-')}-thumb.png`;
+      const thumbnailPath = `thumbnails/${thumbnailName}`;
+      const { error: thumbnailError } = await supabase.storage
+        .from('posters')
+        .upload(thumbnailPath, thumbnail ? thumbnail.data : composite!, {
+          contentType: thumbnail ? thumbnail.type : 'image/png',
+          upsert: true,
+        });
+
+      if (thumbnailError) {
+        console.error('Thumbnail upload error:', thumbnailError);
+        await rollback();
+        return { error: 'Thumbnail upload failed: ' + thumbnailError.message };
+      }
+      storagePaths.push(thumbnailPath);
+      thumbnailUrl = supabase.storage.from('posters').getPublicUrl(thumbnailPath).data.publicUrl;
+      if (!thumbnail) artworkUrl = thumbnailUrl;
+    }
+
+    // A manual thumbnail is only a preview, so the full-size composite is stored next to it
+    if (thumbnail && composite) {
+      const compositePath = `thumbnails/${Date.now()}-${title.replace(/\s+/g, '-')}-full.png`;
+      const { error: compositeError } = await supabase.storage
+        .from('posters')
+        .upload(compositePath, composite, { contentType: 'image/png', upsert: true });
+
+      if (compositeError) {
+        console.error('Composite upload error:', compositeError);
+        await rollback();
+        return { error: 'Artwork upload failed: ' + compositeError.message };
+      }
+      storagePaths.push(compositePath);
+      artworkUrl = supabase.storage.from('posters').getPublicUrl(compositePath).data.publicUrl;
+    }
+
+    const stored = await storeVariants(supabase, fileName.replace(/\.[^.]+$/, ''), renderedVariants, storagePaths);
+    if (!stored.imageVariants) {
+      await rollback();
+      return { error: stored.error };
+    }
+    imageVariants = stored.imageVariants;
+
+    // Insert into database
+    const { error: dbError } = await supabase.from('posters').insert([
+      {
+        title,
+        category,
+        download_url: isPsd ? thumbnailUrl : publicUrl,
+        psd_url: isPsd ? publicUrl : null,
+        artwork_url: artworkUrl,
+        psd_metadata: psdMetadata,
+        template,
+        font_family: fontFamily,
+        is_editable: isEditable,
+        tags,
+        description,
+        image_variants: imageVariants,
+        drive_file_id: upload.driveFileId ?? null,
+        status: upload.schedule?.status ?? 'published',
+        publish_at: upload.schedule?.publish_at ?? null,
+        unpublish_at: upload.schedule?.unpublish_at ?? null,
+        occasion_id: upload.occasionId ?? null,
+        storage_paths: storagePaths,
+        created_at: new Date().toISOString(),
+      },
+    ]);
+
+    if (dbError) {
+      console.error('Database error:', dbError);
+      await rollback();
+      return { error: 'Database insert failed: ' + dbError.message };
+    }
+  } catch (error) {
+    await rollback();
+    throw error;
+  }
+
+  return {
+    poster: {
+      downloadLink: isPsd ? thumbnailUrl : publicUrl,
+      title,
+      category,
+      isEditable,
+      fontFamily,
+      template,
+      imageVariants,
+    },
+  };
+}
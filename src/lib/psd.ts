@@ -0,0 +1,108 @@
+import PSD from 'psd.js';
+import type { PNG } from 'pngjs';
+import type { PsdBounds, PsdLayer, PsdMetadata, PsdTextInfo } from './psdMetadata';
+
+const ALIGNMENTS: PsdTextInfo['alignment'][] = ['left', 'right', 'center', 'justify'];
+
+const toHex = (rgba: number[] | undefined) => {
+  if (!rgba) return '#000000';
+  return '#' + rgba.slice(0, 3).map((v) => Math.max(0, Math.min(255, v)).toString(16).padStart(2, '0')).join('');
+};
+
+// Photoshop lists this placeholder font in every font set; it is never the visible face.
+const PLACEHOLDER_FONT = 'AdobeInvisFont';
+
+// Text boxes are stored as raw ints; anything this large is an unset box, not a real coordinate.
+const MAX_TEXT_BOX = 300000;
+
+const readText = (node: PSD.Node): { info: PsdTextInfo; bounds: PsdBounds } | undefined => {
+  const typeTool = node.get('typeTool');
+  if (!typeTool) return undefined;
+
+  try {
+    const text = typeTool.export();
+    const { font, transform } = text;
+    // Sizes are stored unscaled; the layer transform carries any resizing done in Photoshop.
+    const scale = transform?.yy || 1;
+    const size = font.sizes?.[0];
+    const hasBox = text.right > text.left && text.bottom > text.top && Math.abs(text.left) < MAX_TEXT_BOX;
+    const alignment = font.alignment?.[0] as PsdTextInfo['alignment'] | undefined;
+
+    return {
+      info: {
+        value: (text.value || '').replace(/\r/g, '\n'),
+        fontFamily: font.names?.find((name) => name !== PLACEHOLDER_FONT) || null,
+        fontSize: size ? Math.round(size * scale * 100) / 100 : null,
+        color: toHex(font.colors?.[0]),
+        alignment: alignment && ALIGNMENTS.includes(alignment) ? alignment : 'left',
+      },
+      // The text box relative to the layer transform, used when the layer has no rendered pixels.
+      // Some writers leave the box unset, in which case only the transform origin is meaningful.
+      bounds: {
+        left: Math.round((transform?.tx || 0) + (hasBox ? text.left : 0)),
+        top: Math.round((transform?.ty || 0) + (hasBox ? text.top : 0)),
+        width: hasBox ? Math.round(text.right - text.left) : 0,
+        height: hasBox ? Math.round(text.bottom - text.top) : 0,
+      },
+    };
+  } catch (error) {
+    // Some Photoshop versions write engine data psd.js cannot read; keep the layer, drop the styling.
+    console.warn('PSD: Failed to read text layer', node.name, error);
+    return undefined;
+  }
+};
+
+const readLayers = (nodes: PSD.Node[], parentId?: string): PsdLayer[] =>
+  nodes.map((node, index) => {
+    const id = parentId === undefined ? `${index}` : `${parentId}/${index}`;
+    const layer: PsdLayer = {
+      id,
+      name: node.name,
+      type: node.isGroup() ? 'group' : 'layer',
+      visible: node.visible(),
+      opacity: Math.round((node.layer.opacity / 255) * 100) / 100,
+      bounds: { left: node.left, top: node.top, width: node.width, height: node.height },
+    };
+
+    if (node.isGroup()) {
+      layer.children = readLayers(node.children(), id);
+    } else {
+      const text = readText(node);
+      if (text) {
+        layer.text = text.info;
+        if (!layer.bounds.width || !layer.bounds.height) layer.bounds = text.bounds;
+      }
+    }
+    return layer;
+  });
+
+export interface ParsedPsd {
+  metadata: PsdMetadata;
+  // Encodes the flattened composite Photoshop stores alongside the layers as a PNG.
+  renderComposite(): Promise<Buffer>;
+}
+
+const encodePng = (png: PNG) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    png
+      .pack()
+      .on('data', (chunk: Buffer) => chunks.push(chunk))
+      .on('end', () => resolve(Buffer.concat(chunks)))
+      .on('error', reject);
+  });
+
+// Parses an uploaded PSD once; the layer tree is plain JSON for the `psd_metadata` column.
+export function parsePsd(buffer: Buffer): ParsedPsd {
+  const psd = PSD.fromBuffer(buffer);
+  const root = psd.tree();
+
+  return {
+    metadata: {
+      width: psd.header.width,
+      height: psd.header.height,
+      layers: readLayers(root.children()),
+    },
+    renderComposite: () => encodePng(psd.image.toPng()),
+  };
+}
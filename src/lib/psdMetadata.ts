@@ -0,0 +1,49 @@
+export interface PsdBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PsdTextInfo {
+  value: string;
+  fontFamily: string | null;
+  fontSize: number | null;
+  color: string;
+  alignment: 'left' | 'right' | 'center' | 'justify';
+}
+
+export interface PsdLayer {
+  // Path of child indexes from the document root, e.g. "1/0". Stable for a given file.
+  id: string;
+  name: string;
+  type: 'group' | 'layer';
+  visible: boolean;
+  opacity: number;
+  bounds: PsdBounds;
+  text?: PsdTextInfo;
+  children?: PsdLayer[];
+}
+
+export interface PsdMetadata {
+  width: number;
+  height: number;
+  layers: PsdLayer[];
+}
+
+// Flattens the layer tree into the visible text layers, top-most first, which is
+// the order a designer expects to see them listed.
+export function collectTextLayers(metadata: PsdMetadata | null | undefined): PsdLayer[] {
+  if (!metadata) return [];
+
+  const result: PsdLayer[] = [];
+  const walk = (layers: PsdLayer[]) => {
+    for (const layer of layers) {
+      if (!layer.visible) continue;
+      if (layer.children) walk(layer.children);
+      else if (layer.text) result.push(layer);
+    }
+  };
+  walk(metadata.layers);
+  return result;
+}
@@ -0,0 +1,70 @@
+// Scheduled publishing. WishMe shows a poster only while its status is `published` and the
+// current time is inside its window: from publish_at (inclusive) to unpublish_at
+// (exclusive). Either bound may be null, meaning no limit on that side.
+export const POSTER_STATUSES = ['draft', 'published', 'archived'] as const;
+export type PosterStatus = (typeof POSTER_STATUSES)[number];
+
+export interface PublishSchedule {
+  status: PosterStatus;
+  publish_at: string | null;
+  unpublish_at: string | null;
+}
+
+// How the admin grid labels a poster
+export type PublishState = 'draft' | 'scheduled' | 'live' | 'expired' | 'archived';
+
+export function publishState(poster: Partial<PublishSchedule>, now = new Date()): PublishState {
+  const status = poster.status ?? 'published';
+  if (status !== 'published') return status;
+  if (poster.publish_at && new Date(poster.publish_at) > now) return 'scheduled';
+  if (poster.unpublish_at && new Date(poster.unpublish_at) <= now) return 'expired';
+  return 'live';
+}
+
+const parseDate = (value: unknown, label: string): { date?: string | null; error?: string } => {
+  if (value === undefined || value === null || value === '') return { date: null };
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) return { error: `${label} must be a date and time` };
+  return { date: new Date(time).toISOString() };
+};
+
+// Validates the schedule as sent by the upload form and /api/update: a status (default
+// `published`) and ISO dates, where an empty date clears that bound.
+export function validateSchedule(input: {
+  status?: unknown;
+  publishAt?: unknown;
+  unpublishAt?: unknown;
+}): { schedule?: PublishSchedule; error?: string } {
+  const status = input.status === undefined || input.status === '' ? 'published' : input.status;
+  if (!POSTER_STATUSES.includes(status as PosterStatus)) {
+    return { error: `Status must be one of ${POSTER_STATUSES.join(', ')}` };
+  }
+
+  const publishAt = parseDate(input.publishAt, 'Publish date');
+  if (publishAt.error) return { error: publishAt.error };
+  const unpublishAt = parseDate(input.unpublishAt, 'Unpublish date');
+  if (unpublishAt.error) return { error: unpublishAt.error };
+
+  if (publishAt.date && unpublishAt.date && unpublishAt.date <= publishAt.date) {
+    return { error: 'Unpublish date must be after the publish date' };
+  }
+
+  return {
+    schedule: { status: status as PosterStatus, publish_at: publishAt.date ?? null, unpublish_at: unpublishAt.date ?? null },
+  };
+}
+
+// PostgREST filters (as for supabase-js `.or()`) matching the posters WishMe shows right now
+export const liveFilters = (now = new Date()) => {
+  const at = JSON.stringify(now.toISOString());
+  return [`publish_at.is.null,publish_at.lte.${at}`, `unpublish_at.is.null,unpublish_at.gt.${at}`];
+};
+
+// <input type="datetime-local"> works in local time without a zone; the API takes ISO
+export const toDateTimeInput = (iso: string | null | undefined) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : '');
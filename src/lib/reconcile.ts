@@ -0,0 +1,42 @@
+// Shapes of the storage reconciliation report served by /api/reconcile.
+
+// Folders of the `posters` bucket that hold poster files. Limited to those on purpose:
+// fonts/ and designs/ belong to the fonts and designs tables, which the check doesn't read,
+// so every file in them would be reported as orphaned.
+export const POSTER_FOLDERS = ['psd', 'thumbnails', 'variants'] as const;
+
+export interface OrphanedFile {
+  path: string;
+  size: number | null;
+  createdAt: string | null;
+}
+
+export interface BrokenPoster {
+  id: number;
+  title: string;
+  // Referenced by the row but not in storage
+  missingPaths: string[];
+}
+
+export interface ReconcileReport {
+  // True when nothing was changed
+  dryRun: boolean;
+  scannedFiles: number;
+  scannedPosters: number;
+  orphans: OrphanedFile[];
+  broken: BrokenPoster[];
+  // What was changed when not a dry run
+  deletedOrphans: number;
+  flaggedPosters: number;
+  // Posters flagged by an earlier run whose files are all present again
+  clearedPosters: number;
+}
+
+const PUBLIC_PREFIX = '/storage/v1/object/public/posters/';
+
+// The object path a public URL from the `posters` bucket points at, or null for other URLs
+export const storagePathFromUrl = (url: string | null | undefined) => {
+  if (!url) return null;
+  const start = url.indexOf(PUBLIC_PREFIX);
+  return start < 0 ? null : decodeURIComponent(url.slice(start + PUBLIC_PREFIX.length).split('?')[0]);
+};
@@ -0,0 +1,161 @@
+import { createCanvas, GlobalFonts, loadImage, type FontKey, type Image, type SKRSContext2D } from '@napi-rs/canvas';
+import { ROUNDED_MASK_RADIUS, type CustomizationState, type PhotoState, type TextLayerState } from './customization';
+import { VARIANTS, type VariantName } from './variants';
+
+// The editor's text layers set the same line-height (.draggable-text in wishme.css)
+const LINE_HEIGHT = 1.2;
+
+// The editor keeps line breaks (`white-space: pre`), left-aligns the lines and rotates the
+// whole block around its centre
+const drawText = (ctx: SKRSContext2D, layer: TextLayerState, toNative: (x: number, y: number) => [number, number], scale: number) => {
+  if (!layer.text) return;
+
+  const fontSize = layer.fontSize * scale;
+  ctx.save();
+  ctx.font = `${layer.fontStyle} ${layer.fontWeight} ${fontSize}px "${layer.fontFamily}"`;
+  const lines = layer.text.split('\n');
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const width = Math.max(...lines.map((line) => ctx.measureText(line).width));
+  const height = lineHeight * lines.length;
+  const [left, top] = toNative(layer.position.x, layer.position.y);
+
+  // CSS rotates around the element centre, so do the same here
+  ctx.translate(left + width / 2, top + height / 2);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.fillStyle = layer.color;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  // Matches the editor's `text-shadow: 0 0 4px rgba(0, 0, 0, 0.3)`
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+  ctx.shadowBlur = 4 * scale;
+  lines.forEach((line, index) => {
+    ctx.fillText(line, -width / 2, -height / 2 + lineHeight * (index + 0.5));
+  });
+  ctx.restore();
+};
+
+const drawPhoto = (ctx: SKRSContext2D, photo: PhotoState, image: Image, toNative: (x: number, y: number) => [number, number], scale: number) => {
+  const width = photo.size.width * scale;
+  const height = photo.size.height * scale;
+  const [left, top] = toNative(photo.position.x, photo.position.y);
+
+  ctx.save();
+  ctx.translate(left + width / 2, top + height / 2);
+  ctx.rotate((photo.rotation * Math.PI) / 180);
+
+  ctx.beginPath();
+  if (photo.mask === 'circle') {
+    ctx.ellipse(0, 0, width / 2, height / 2, 0, 0, Math.PI * 2);
+  } else if (photo.mask === 'rounded') {
+    ctx.roundRect(-width / 2, -height / 2, width, height, ROUNDED_MASK_RADIUS * scale);
+  } else {
+    ctx.rect(-width / 2, -height / 2, width, height);
+  }
+  ctx.clip();
+
+  // `object-fit: cover`: fill the box, cropping whichever side overflows
+  const cover = Math.max(width / image.width, height / image.height);
+  const drawWidth = image.width * cover;
+  const drawHeight = image.height * cover;
+  ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  ctx.restore();
+};
+
+// Library fonts registered with the canvas, by family, with the URL each was loaded from
+const registeredFonts = new Map<string, { url: string; key: FontKey }>();
+
+// Whether the canvas can draw with a font file; /api/fonts checks uploads with it
+export function isRenderableFont(data: Buffer): boolean {
+  const key = GlobalFonts.register(data, `font-check-${Date.now()}`);
+  if (!key) return false;
+  GlobalFonts.remove(key);
+  return true;
+}
+
+// Makes library fonts available to renderCustomization under their names. Each file is
+// fetched once per server process, and again only if the font was replaced.
+export async function registerFonts(fonts: { name: string; url: string }[]) {
+  await Promise.all(
+    fonts.map(async (font) => {
+      const existing = registeredFonts.get(font.name);
+      if (existing?.url === font.url) return;
+
+      const response = await fetch(font.url);
+      if (!response.ok) throw new Error(`Failed to load font "${font.name}" (${response.status})`);
+      const key = GlobalFonts.register(Buffer.from(await response.arrayBuffer()), font.name);
+      if (!key) throw new Error(`Font "${font.name}" could not be read`);
+
+      if (existing) GlobalFonts.remove(existing.key);
+      registeredFonts.set(font.name, { url: font.url, key });
+    })
+  );
+}
+
+// Composites a customization onto the artwork at the artwork's native resolution.
+// The editor fitted the artwork into `state.stage` with `object-fit: contain`, so preview
+// coordinates are mapped back through that fit.
+export async function renderCustomization(
+  artwork: Buffer,
+  state: CustomizationState,
+  photo: Buffer | null
+): Promise<Buffer> {
+  const base = await loadImage(artwork);
+  const canvas = createCanvas(base.width, base.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(base, 0, 0);
+
+  const fit = Math.min(state.stage.width / base.width, state.stage.height / base.height);
+  const offsetX = (state.stage.width - base.width * fit) / 2;
+  const offsetY = (state.stage.height - base.height * fit) / 2;
+  const scale = 1 / fit;
+  const toNative = (x: number, y: number): [number, number] => [(x - offsetX) * scale, (y - offsetY) * scale];
+
+  for (const layer of state.texts) {
+    drawText(ctx, layer, toNative, scale);
+  }
+
+  // The editor stacks the photo above the text, so it is drawn last
+  if (photo && state.photo) {
+    drawPhoto(ctx, state.photo, await loadImage(photo), toNative, scale);
+  }
+
+  return canvas.encode('png');
+}
+
+export interface RenderedVariant {
+  name: VariantName;
+  width: number;
+  height: number;
+  webp: Buffer;
+  jpeg: Buffer;
+}
+
+const WEBP_QUALITY = 80;
+const JPEG_QUALITY = 85;
+
+// Scales a poster image down to each rendition's width. Smaller images are never enlarged,
+// so a rendition can match a smaller one in size.
+export async function renderVariants(source: Buffer): Promise<RenderedVariant[]> {
+  const image = await loadImage(source);
+
+  return Promise.all(
+    (Object.entries(VARIANTS) as [VariantName, number][]).map(async ([name, maxWidth]) => {
+      const width = Math.min(maxWidth, image.width);
+      const height = Math.round((image.height * width) / image.width);
+      const canvas = createCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      // JPEG has no alpha; transparent areas would otherwise turn black
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(image, 0, 0, width, height);
+
+      return {
+        name,
+        width,
+        height,
+        webp: await canvas.encode('webp', WEBP_QUALITY),
+        jpeg: await canvas.encode('jpeg', JPEG_QUALITY),
+      };
+    })
+  );
+}
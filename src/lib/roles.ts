@@ -0,0 +1,23 @@
+import type { User } from '@supabase/supabase-js';
+
+// Admin dashboard roles, most to least privileged. They are stored in the user's
+// `app_metadata.role`, which only the service role can write (see supabase/migrations).
+export const ROLES = ['admin', 'editor', 'viewer'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Who may do what: viewers browse, editors manage posters, admins may also delete.
+export const PERMISSIONS = {
+  view: ['admin', 'editor', 'viewer'],
+  edit: ['admin', 'editor'],
+  delete: ['admin'],
+} satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const getRole = (user: User | null | undefined): Role | null => {
+  const role = user?.app_metadata?.role;
+  return ROLES.includes(role) ? role : null;
+};
+
+export const can = (role: Role | null, permission: Permission) =>
+  role !== null && (PERMISSIONS[permission] as readonly Role[]).includes(role);
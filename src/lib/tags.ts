@@ -0,0 +1,18 @@
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+// Cleans admin-entered tags: lowercased, trimmed, deduplicated. Accepts an array or a
+// comma-separated string, as sent by the upload form.
+export function normalizeTags(input: unknown): { tags?: string[]; error?: string } {
+  const raw = typeof input === 'string' ? input.split(',') : input;
+  if (!Array.isArray(raw) || raw.some((tag) => typeof tag !== 'string')) {
+    return { error: 'Tags must be a list of strings' };
+  }
+
+  const tags = [...new Set(raw.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+  if (tags.length > MAX_TAGS) return { error: `At most ${MAX_TAGS} tags are allowed` };
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) return { error: `Tags must be at most ${MAX_TAG_LENGTH} characters` };
+
+  return { tags };
+}
@@ -0,0 +1,187 @@
+import { collectTextLayers, type PsdMetadata } from './psdMetadata';
+
+export interface TemplateBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextSlot {
+  id: string;
+  label: string;
+  defaultText: string;
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  bounds: TemplateBounds;
+}
+
+export type PhotoMask = 'rectangle' | 'rounded' | 'circle';
+
+export interface PhotoSlot {
+  id: string;
+  label: string;
+  mask: PhotoMask;
+  bounds: TemplateBounds;
+}
+
+// Editable zones of a poster. Slot bounds and font sizes are in template units,
+// where `width` x `height` covers the whole artwork. Bounds give each slot's starting
+// box; users may then move items anywhere within the artwork.
+export interface PosterTemplate {
+  width: number;
+  height: number;
+  textSlots: TextSlot[];
+  photoSlots: PhotoSlot[];
+}
+
+export const PHOTO_MASKS: PhotoMask[] = ['rectangle', 'rounded', 'circle'];
+
+// Matches the layout the editor used before posters carried their own template.
+export const DEFAULT_TEMPLATE: PosterTemplate = {
+  width: 400,
+  height: 280,
+  textSlots: [
+    {
+      id: 'name',
+      label: 'Your Name',
+      defaultText: '',
+      fontFamily: 'Arial',
+      fontSize: 24,
+      color: '#FFFFFF',
+      bounds: { x: 200, y: 240, width: 200, height: 40 },
+    },
+  ],
+  photoSlots: [
+    {
+      id: 'photo',
+      label: 'Your Photo',
+      mask: 'rectangle',
+      bounds: { x: 50, y: 180, width: 100, height: 100 },
+    },
+  ],
+};
+
+const MAX_SLOTS = 20;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const validateBounds = (bounds: unknown, template: { width: number; height: number }, where: string) => {
+  if (!isObject(bounds)) return `${where}: bounds must be an object`;
+  const { x, y, width, height } = bounds;
+  if (![x, y].every((v) => typeof v === 'number' && Number.isFinite(v) && v >= 0)) {
+    return `${where}: bounds x and y must be non-negative numbers`;
+  }
+  if (!isPositive(width) || !isPositive(height)) return `${where}: bounds width and height must be positive`;
+  if (x + width > template.width || y + height > template.height) return `${where}: bounds fall outside the template`;
+  return null;
+};
+
+// Checks untrusted JSON (from the admin form or an API body) against the template schema.
+// Returns the template with only known keys kept, or the first problem found.
+export function validateTemplate(input: unknown): { template?: PosterTemplate; error?: string } {
+  if (!isObject(input)) return { error: 'Template must be an object' };
+  const { width, height, textSlots, photoSlots } = input;
+
+  if (!isPositive(width) || !isPositive(height)) return { error: 'Template width and height must be positive numbers' };
+  if (!Array.isArray(textSlots) || !Array.isArray(photoSlots)) {
+    return { error: 'Template textSlots and photoSlots must be arrays' };
+  }
+  if (textSlots.length + photoSlots.length > MAX_SLOTS) return { error: `Template has more than ${MAX_SLOTS} slots` };
+
+  const ids = new Set<string>();
+  const checkId = (slot: Record<string, any>, where: string) => {
+    if (typeof slot.id !== 'string' || !slot.id.trim()) return `${where}: id is required`;
+    if (ids.has(slot.id)) return `${where}: duplicate slot id "${slot.id}"`;
+    ids.add(slot.id);
+    if (typeof slot.label !== 'string' || !slot.label.trim()) return `${where}: label is required`;
+    return null;
+  };
+
+  const template: PosterTemplate = { width, height, textSlots: [], photoSlots: [] };
+
+  for (const [index, slot] of textSlots.entries()) {
+    const where = `Text slot ${index + 1}`;
+    if (!isObject(slot)) return { error: `${where}: must be an object` };
+    const error =
+      checkId(slot, where) ||
+      (typeof slot.defaultText !== 'string' ? `${where}: defaultText must be a string` : null) ||
+      (typeof slot.fontFamily !== 'string' || !slot.fontFamily.trim() ? `${where}: fontFamily is required` : null) ||
+      (!isPositive(slot.fontSize) ? `${where}: fontSize must be a positive number` : null) ||
+      (typeof slot.color !== 'string' || !HEX_COLOR.test(slot.color) ? `${where}: color must be a #RRGGBB hex value` : null) ||
+      validateBounds(slot.bounds, template, where);
+    if (error) return { error };
+
+    const { id, label, defaultText, fontFamily, fontSize, color, bounds } = slot;
+    template.textSlots.push({
+      id, label, defaultText, fontFamily, fontSize, color,
+      bounds: { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height },
+    });
+  }
+
+  for (const [index, slot] of photoSlots.entries()) {
+    const where = `Photo slot ${index + 1}`;
+    if (!isObject(slot)) return { error: `${where}: must be an object` };
+    const error =
+      checkId(slot, where) ||
+      (!PHOTO_MASKS.includes(slot.mask) ? `${where}: mask must be one of ${PHOTO_MASKS.join(', ')}` : null) ||
+      validateBounds(slot.bounds, template, where);
+    if (error) return { error };
+
+    const { id, label, mask, bounds } = slot;
+    template.photoSlots.push({
+      id, label, mask,
+      bounds: { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height },
+    });
+  }
+
+  return { template };
+}
+
+// Builds a starting template from a PSD's visible text layers, each becoming a text slot
+// at the layer's position. PSDs carry no photo placeholders, so there are no photo slots.
+export function templateFromPsd(metadata: PsdMetadata): PosterTemplate {
+  const { width, height } = metadata;
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value));
+
+  return {
+    width,
+    height,
+    textSlots: collectTextLayers(metadata).map((layer) => {
+      const fontSize = layer.text!.fontSize || 24;
+      const x = clamp(layer.bounds.left, width - 1);
+      const y = clamp(layer.bounds.top, height - 1);
+      return {
+        id: `psd-${layer.id}`,
+        label: layer.name,
+        defaultText: layer.text!.value,
+        fontFamily: layer.text!.fontFamily || 'Arial',
+        fontSize,
+        color: layer.text!.color,
+        // Text layers without rendered pixels have an empty box; give them room for one line
+        bounds: {
+          x,
+          y,
+          width: clamp(layer.bounds.width || width - x, width - x) || 1,
+          height: clamp(layer.bounds.height || Math.round(fontSize * 1.2), height - y) || 1,
+        },
+      };
+    }),
+    photoSlots: [],
+  };
+}
+
+// The template a poster opens with in the editor.
+export function resolveTemplate(poster: { template?: PosterTemplate | null; psd_metadata?: PsdMetadata | null }) {
+  if (poster.template) return poster.template;
+  if (poster.psd_metadata && collectTextLayers(poster.psd_metadata).length > 0) {
+    return templateFromPsd(poster.psd_metadata);
+  }
+  return DEFAULT_TEMPLATE;
+}
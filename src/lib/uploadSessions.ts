@@ -0,0 +1,90 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UploadFile } from './posterUpload';
+import type { UploadStatus } from './uploads';
+
+// Sessions left unfinished this long are purged with their chunks
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const SESSION_COLUMNS = 'id, file_name, content_type, size, chunk_size, chunk_count, received, created_by, created_at';
+
+// Private, unlike the public `posters` bucket, so partial files are never readable by URL;
+// only the service role reaches it
+export const UPLOADS_BUCKET = 'uploads';
+
+export const chunkPath = (sessionId: string, index: number) => `${sessionId}/${index}`;
+
+export const statusFromRow = (row: any): UploadStatus => ({
+  uploadId: row.id,
+  size: row.size,
+  chunkSize: row.chunk_size,
+  chunkCount: row.chunk_count,
+  received: row.received,
+});
+
+// Removes a session's stored chunks and its row
+export async function discardUpload(supabase: SupabaseClient, session: { id: string; chunk_count: number }) {
+  const paths = Array.from({ length: session.chunk_count }, (_, i) => chunkPath(session.id, i));
+  const { error: storageError } = await supabase.storage.from(UPLOADS_BUCKET).remove(paths);
+  if (storageError) console.error('Upload cleanup error, chunks left in storage:', session.id, storageError);
+
+  const { error } = await supabase.from('upload_sessions').delete().eq('id', session.id);
+  if (error) console.error('Upload session delete error:', session.id, error);
+}
+
+export async function purgeExpiredUploads(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from('upload_sessions')
+    .select('id, chunk_count')
+    .lt('created_at', new Date(Date.now() - SESSION_TTL_MS).toISOString());
+
+  if (error) {
+    console.error('Expired upload lookup error:', error);
+    return;
+  }
+  for (const session of data ?? []) {
+    await discardUpload(supabase, session);
+  }
+}
+
+// Joins a finished session's chunks back into the uploaded file. The session is kept, so
+// a poster that fails validation can be resubmitted without sending the file again.
+export async function assembleUpload(
+  supabase: SupabaseClient,
+  sessionId: string,
+  userId: string
+): Promise<{ file?: UploadFile; session?: any; error?: string }> {
+  const { data: session, error } = await supabase
+    .from('upload_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('id', sessionId)
+    .eq('created_by', userId)
+    .maybeSingle();
+
+  if (error) return { error: 'Failed to load upload: ' + error.message };
+  if (!session) return { error: 'Upload not found or expired, please upload the file again' };
+  if (session.received.length < session.chunk_count) {
+    return { error: `Upload incomplete: ${session.received.length} of ${session.chunk_count} chunks received` };
+  }
+
+  // Each chunk is copied into place as it arrives, so at most one is held besides the file
+  const data = Buffer.alloc(session.size);
+  let offset = 0;
+  for (let i = 0; i < session.chunk_count; i++) {
+    const { data: chunk, error: downloadError } = await supabase.storage.from(UPLOADS_BUCKET).download(chunkPath(session.id, i));
+    if (downloadError || !chunk) {
+      return { error: `Failed to read chunk ${i}: ${downloadError?.message ?? 'missing'}` };
+    }
+    const bytes = new Uint8Array(await chunk.arrayBuffer());
+    if (offset + bytes.length > session.size) {
+      return { error: `Upload is over ${session.size} bytes` };
+    }
+    data.set(bytes, offset);
+    offset += bytes.length;
+  }
+
+  if (offset !== session.size) {
+    return { error: `Upload is ${offset} bytes, expected ${session.size}` };
+  }
+
+  return { file: { name: session.file_name, type: session.content_type, data }, session };
+}
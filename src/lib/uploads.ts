@@ -0,0 +1,24 @@
+// Limits and shapes shared by the chunked upload API (/api/uploads) and the admin client.
+
+// Largest poster file accepted. The server holds the whole file in memory, next to the
+// PSD's decoded layers and the generated images, so the default suits a typical serverless
+// function; raise it where functions get more memory. NEXT_PUBLIC_ so the upload form can
+// check it before sending anything.
+export const MAX_FILE_SIZE = (Number(process.env.NEXT_PUBLIC_MAX_UPLOAD_SIZE_MB) || 100) * 1024 * 1024;
+
+// Stays under the 4.5MB request body limit of serverless hosts
+export const CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Manual thumbnails are sent whole with the poster fields, so they share that limit
+export const MAX_THUMBNAIL_SIZE = 4 * 1024 * 1024;
+
+export interface UploadStatus {
+  uploadId: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  // Indexes of the chunks the server already has
+  received: number[];
+}
+
+export const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))}MB`;
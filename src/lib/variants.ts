@@ -0,0 +1,29 @@
+// Fixed renditions generated from each poster image at upload (see renderVariants), stored
+// in posters.image_variants. Each is WebP with a JPEG fallback for older browsers.
+
+export const VARIANTS = {
+  // Gallery cards
+  card: 480,
+  // Editor and share previews
+  medium: 1200,
+  // Downloads and zoom
+  full: 2400,
+} as const;
+
+export type VariantName = keyof typeof VARIANTS;
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  webp: string;
+  jpeg: string;
+}
+
+export type ImageVariants = Partial<Record<VariantName, ImageVariant>>;
+
+// `srcset` for one format across every rendition, so the browser picks by displayed size
+export const variantSrcSet = (variants: ImageVariants, format: 'webp' | 'jpeg') =>
+  (Object.keys(VARIANTS) as VariantName[])
+    .filter((name) => variants[name])
+    .map((name) => `${variants[name]![format]} ${variants[name]!.width}w`)
+    .join(', ');
@@ -0,0 +1,102 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { readZip } from './zip';
+
+interface TestEntry {
+  name: string;
+  data: Buffer;
+  deflate?: boolean;
+  // Overrides the uncompressed size written to the central directory
+  declaredSize?: number;
+  // Overrides where the central directory says the local header is
+  localOffset?: number;
+}
+
+// Writes a ZIP the way common archivers do: local headers and data, then the central
+// directory and its end record. CRCs are left at zero, as readZip doesn't check them.
+const buildZip = (entries: TestEntry[]) => {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = entry.deflate ? deflateRawSync(entry.data) : entry.data;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(entry.declaredSize ?? entry.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(entry.localOffset ?? offset, 42);
+    central.push(header, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+};
+
+describe('readZip', () => {
+  it('reads stored and deflated entries', () => {
+    const poster = Buffer.from('poster bytes '.repeat(50));
+    const entries = readZip(
+      buildZip([
+        { name: 'manifest.csv', data: Buffer.from('file,title,category\n') },
+        { name: 'diwali/lamps.png', data: poster, deflate: true },
+      ])
+    );
+
+    expect(entries.map((entry) => [entry.name, entry.size])).toEqual([
+      ['manifest.csv', 20],
+      ['diwali/lamps.png', poster.length],
+    ]);
+    expect(entries[0].read().toString()).toBe('file,title,category\n');
+    expect(entries[1].read()).toEqual(poster);
+  });
+
+  it('rejects data that is not a ZIP archive', () => {
+    expect(() => readZip(Buffer.from('not a zip at all, just some text'))).toThrow('Not a ZIP archive');
+  });
+
+  it('rejects a central directory entry whose local header is out of range', () => {
+    const zip = buildZip([{ name: 'lamps.png', data: Buffer.from('poster'), localOffset: 0x7fffffff }]);
+    const [entry] = readZip(zip);
+
+    expect(() => entry.read()).toThrow('Corrupt ZIP entry lamps.png');
+  });
+
+  it('rejects an entry whose data runs past the end of the archive', () => {
+    const zip = buildZip([{ name: 'lamps.png', data: Buffer.from('poster') }]);
+    // Claims 4KB of compressed data after the local header
+    zip.writeUInt32LE(4096, zip.length - 22 - 46 - 'lamps.png'.length + 20);
+    const [entry] = readZip(zip);
+
+    expect(() => entry.read()).toThrow('Corrupt ZIP entry lamps.png');
+  });
+
+  it('stops inflating a deflated entry at its declared size', () => {
+    const zip = buildZip([{ name: 'lamps.psd', data: Buffer.alloc(64 * 1024, 1), deflate: true, declaredSize: 100 }]);
+    const [entry] = readZip(zip);
+
+    expect(entry.size).toBe(100);
+    expect(() => entry.read()).toThrow('lamps.psd is larger than its declared size');
+  });
+});
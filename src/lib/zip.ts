@@ -0,0 +1,88 @@
+import { inflateRawSync } from 'node:zlib';
+
+// Minimal reader for the ZIP archives admins upload for bulk imports: stored and
+// deflated entries, no encryption, no ZIP64 (archives and entries under 4GB).
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed record size plus the longest possible archive comment
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+export interface ZipEntry {
+  // Path inside the archive, with forward slashes
+  name: string;
+  size: number;
+  // Decompresses on demand, so only the files actually used are held in memory
+  read: () => Buffer;
+}
+
+const findEndRecord = (zip: Buffer) => {
+  const stop = Math.max(0, zip.length - MAX_END_RECORD_SEARCH);
+  for (let offset = zip.length - 22; offset >= stop; offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+};
+
+// Lists the files in an archive; directories are skipped. Throws if the archive is unreadable.
+export function readZip(zip: Buffer): ZipEntry[] {
+  const end = findEndRecord(zip);
+  if (end < 0) throw new Error('Not a ZIP archive');
+
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    const read = () => {
+      if (flags & FLAG_ENCRYPTED) throw new Error(`${name} is encrypted`);
+      if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt ZIP entry ${name}`);
+      }
+
+      // The local header repeats the name and may carry a different extra field
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      if (dataStart + compressedSize > zip.length) throw new Error(`Corrupt ZIP entry ${name}`);
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === STORED) return Buffer.from(data);
+      if (method === DEFLATED) {
+        // Capped at the declared size, which callers check before reading
+        try {
+          return inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+        } catch (error: any) {
+          if (error.code === 'ERR_BUFFER_TOO_LARGE') throw new Error(`${name} is larger than its declared size`);
+          throw new Error(`Corrupt ZIP entry ${name}: ${error.message}`);
+        }
+      }
+      throw new Error(`${name} uses an unsupported compression method`);
+    };
+
+    entries.push({ name, size, read });
+  }
+
+  return entries;
+}
@@ -0,0 +1,55 @@
+// Minimal typings for the parts of psd.js we use on the server.
+// @types/psd describes the older `psd` package, not this fork.
+declare module 'psd.js' {
+  import type { PNG } from 'pngjs';
+
+  namespace PSD {
+    interface TypeToolExport {
+      value: string;
+      font: {
+        names: string[];
+        sizes: number[];
+        colors: number[][];
+        alignment: string[];
+        styles: string[];
+        weights: string[];
+      };
+      left: number;
+      top: number;
+      right: number;
+      bottom: number;
+      transform: { xx: number; xy: number; yx: number; yy: number; tx: number; ty: number };
+    }
+
+    interface Node {
+      type: 'root' | 'group' | 'layer';
+      name: string;
+      left: number;
+      top: number;
+      width: number;
+      height: number;
+      layer: { opacity: number };
+      visible(): boolean;
+      isGroup(): boolean;
+      children(): Node[];
+      get(prop: 'typeTool'): { export(): TypeToolExport } | undefined;
+    }
+
+    interface Image {
+      width(): number;
+      height(): number;
+      toPng(): PNG;
+    }
+  }
+
+  class PSD {
+    constructor(data: Buffer);
+    header: { width: number; height: number };
+    image: PSD.Image;
+    parse(): boolean;
+    tree(): PSD.Node;
+    static fromBuffer(buffer: Buffer): PSD;
+  }
+
+  export default PSD;
+}
@@ -0,0 +1,3 @@
+-- Layer tree parsed from uploaded PSDs (names, bounds, visibility, text styling).
+alter table public.posters
+  add column if not exists psd_metadata jsonb;
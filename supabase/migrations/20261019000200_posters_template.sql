@@ -0,0 +1,4 @@
+-- Editable-zone definition for the WishMe editor (see src/lib/template.ts).
+-- Null means the editor falls back to the PSD text layers or the default layout.
+alter table public.posters
+  add column if not exists template jsonb;
@@ -0,0 +1,15 @@
+-- Customizations shared from the WishMe editor under a short id (/users/wishme?design=<id>).
+-- Rows are never updated: editing a shared design saves a new row whose parent_id points back.
+create table if not exists public.designs (
+  id text primary key,
+  poster_id bigint not null references public.posters(id) on delete cascade,
+  parent_id text references public.designs(id) on delete set null,
+  state jsonb not null,
+  photo_path text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists designs_poster_id_idx on public.designs (poster_id);
+
+-- Only reached through /api/designs with the service role
+alter table public.designs enable row level security;
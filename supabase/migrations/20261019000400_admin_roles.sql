@@ -0,0 +1,40 @@
+-- Admin dashboard access. Roles live in auth.users.raw_app_meta_data ->> 'role'
+-- ('admin', 'editor' or 'viewer'; see src/lib/roles.ts). Users cannot edit app metadata
+-- themselves, so grant a role with the service role or from SQL:
+--
+--   update auth.users
+--   set raw_app_meta_data = raw_app_meta_data || '{"role": "admin"}'
+--   where email = 'someone@example.com';
+--
+-- Catalog writes go through /api/upload, /api/update and /api/delete, which check the role
+-- and then use the service role. The anon key keeps read access only, to the table and to
+-- the poster files.
+alter table public.posters enable row level security;
+
+drop policy if exists "Posters are readable by everyone" on public.posters;
+create policy "Posters are readable by everyone"
+  on public.posters for select
+  using (true);
+
+revoke insert, update, delete on public.posters from anon, authenticated;
+
+-- The admin page used to upload and delete files with the anon key, through write policies
+-- on the posters bucket. Drop every such policy open to anon or signed-in users, so only the
+-- service role (which bypasses RLS) writes there. Files stay readable through public URLs.
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname
+    from pg_policies
+    where schemaname = 'storage'
+      and tablename = 'objects'
+      and cmd in ('INSERT', 'UPDATE', 'DELETE', 'ALL')
+      and roles && array['public', 'anon', 'authenticated']::name[]
+      and concat_ws(' ', qual, with_check) like '%''posters''%'
+  loop
+    execute format('drop policy %I on storage.objects', policy.policyname);
+  end loop;
+end;
+$$;
@@ -0,0 +1,40 @@
+-- One row per poster download, so counts can be audited and broken down later.
+create table if not exists public.download_events (
+  id bigserial primary key,
+  poster_id bigint not null references public.posters(id) on delete cascade,
+  kind text not null check (kind in ('plain', 'customized')),
+  session_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists download_events_poster_id_created_at_idx
+  on public.download_events (poster_id, created_at);
+
+alter table public.download_events enable row level security;
+
+-- Increments the counter in a single statement, so concurrent downloads can't lose counts,
+-- and logs the event in the same transaction. Returns the new count, or null for an unknown poster.
+create or replace function public.record_download(p_poster_id bigint, p_kind text, p_session_id text)
+returns integer
+language plpgsql
+as $$
+declare
+  new_count integer;
+begin
+  update public.posters
+  set download_count = coalesce(download_count, 0) + 1
+  where id = p_poster_id
+  returning download_count into new_count;
+
+  if new_count is null then
+    return null;
+  end if;
+
+  insert into public.download_events (poster_id, kind, session_id)
+  values (p_poster_id, p_kind, p_session_id);
+
+  return new_count;
+end;
+$$;
+
+revoke execute on function public.record_download(bigint, text, text) from public, anon, authenticated;
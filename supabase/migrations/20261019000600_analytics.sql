@@ -0,0 +1,195 @@
+-- Usage events beyond downloads, for the admin analytics page. Downloads are in download_events.
+create table if not exists public.editor_events (
+  id bigserial primary key,
+  poster_id bigint not null references public.posters(id) on delete cascade,
+  kind text not null check (kind in ('open')),
+  session_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists editor_events_poster_id_created_at_idx
+  on public.editor_events (poster_id, created_at);
+
+create index if not exists download_events_created_at_idx
+  on public.download_events (created_at);
+
+alter table public.editor_events enable row level security;
+
+-- Per-poster counts for events in [p_from, p_to), for posters with any. The admin page only
+-- gets bounded results built from this (PostgREST caps how many rows an RPC returns), so
+-- it isn't callable on its own.
+create or replace function public.analytics_poster_counts(p_from timestamptz, p_to timestamptz)
+returns table (
+  poster_id bigint,
+  title text,
+  category text,
+  is_editable boolean,
+  downloads bigint,
+  customized_downloads bigint,
+  editor_opens bigint
+)
+language sql
+stable
+as $$
+  select
+    p.id,
+    p.title,
+    p.category,
+    p.is_editable,
+    coalesce(d.downloads, 0),
+    coalesce(d.customized_downloads, 0),
+    coalesce(e.editor_opens, 0)
+  from public.posters p
+  left join (
+    select
+      de.poster_id,
+      count(*) as downloads,
+      count(*) filter (where de.kind = 'customized') as customized_downloads
+    from public.download_events de
+    where de.created_at >= p_from and de.created_at < p_to
+    group by de.poster_id
+  ) d on d.poster_id = p.id
+  left join (
+    select ee.poster_id, count(*) as editor_opens
+    from public.editor_events ee
+    where ee.kind = 'open' and ee.created_at >= p_from and ee.created_at < p_to
+    group by ee.poster_id
+  ) e on e.poster_id = p.id
+  where d.poster_id is not null or e.poster_id is not null;
+$$;
+
+-- Totals for events in [p_from, p_to), as a single row
+create or replace function public.analytics_totals(p_from timestamptz, p_to timestamptz)
+returns table (
+  downloads bigint,
+  customized_downloads bigint,
+  editor_opens bigint
+)
+language sql
+stable
+as $$
+  select
+    (select count(*) from public.download_events where created_at >= p_from and created_at < p_to),
+    (
+      select count(*) from public.download_events
+      where kind = 'customized' and created_at >= p_from and created_at < p_to
+    ),
+    (
+      select count(*) from public.editor_events
+      where kind = 'open' and created_at >= p_from and created_at < p_to
+    );
+$$;
+
+-- Per-category totals for events in [p_from, p_to); every category with posters gets a row
+create or replace function public.analytics_category_stats(p_from timestamptz, p_to timestamptz)
+returns table (
+  category text,
+  downloads bigint,
+  customized_downloads bigint,
+  editor_opens bigint
+)
+language sql
+stable
+as $$
+  select
+    p.category,
+    coalesce(sum(c.downloads), 0)::bigint,
+    coalesce(sum(c.customized_downloads), 0)::bigint,
+    coalesce(sum(c.editor_opens), 0)::bigint
+  from public.posters p
+  left join public.analytics_poster_counts(p_from, p_to) c on c.poster_id = p.id
+  group by p.category
+  order by 2 desc, p.category;
+$$;
+
+-- The p_limit most downloaded posters in [p_from, p_to), ties broken by editor opens
+create or replace function public.analytics_top_posters(p_from timestamptz, p_to timestamptz, p_limit integer)
+returns table (
+  poster_id bigint,
+  title text,
+  category text,
+  is_editable boolean,
+  downloads bigint,
+  customized_downloads bigint,
+  editor_opens bigint
+)
+language sql
+stable
+as $$
+  select c.*
+  from public.analytics_poster_counts(p_from, p_to) c
+  where c.downloads > 0
+  order by c.downloads desc, c.editor_opens desc, c.poster_id
+  limit p_limit;
+$$;
+
+-- Editable posters opened at least p_min_opens times in [p_from, p_to) but downloaded
+-- customized from fewer than p_max_rate of those opens, lowest rate first
+create or replace function public.analytics_rarely_saved(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_min_opens integer,
+  p_max_rate double precision,
+  p_limit integer
+)
+returns table (
+  poster_id bigint,
+  title text,
+  category text,
+  is_editable boolean,
+  downloads bigint,
+  customized_downloads bigint,
+  editor_opens bigint
+)
+language sql
+stable
+as $$
+  select c.*
+  from public.analytics_poster_counts(p_from, p_to) c
+  where c.is_editable
+    and c.editor_opens >= p_min_opens
+    and c.customized_downloads < p_max_rate * c.editor_opens
+  order by c.customized_downloads::double precision / c.editor_opens, c.editor_opens desc, c.poster_id
+  limit p_limit;
+$$;
+
+-- Daily totals for events in [p_from, p_to), one row per UTC day that had any.
+create or replace function public.analytics_daily(p_from timestamptz, p_to timestamptz)
+returns table (
+  day date,
+  downloads bigint,
+  customized_downloads bigint,
+  editor_opens bigint
+)
+language sql
+stable
+as $$
+  select
+    day,
+    sum(downloads)::bigint,
+    sum(customized_downloads)::bigint,
+    sum(editor_opens)::bigint
+  from (
+    select
+      (created_at at time zone 'utc')::date as day,
+      1 as downloads,
+      (kind = 'customized')::int as customized_downloads,
+      0 as editor_opens
+    from public.download_events
+    where created_at >= p_from and created_at < p_to
+    union all
+    select (created_at at time zone 'utc')::date, 0, 0, 1
+    from public.editor_events
+    where kind = 'open' and created_at >= p_from and created_at < p_to
+  ) events
+  group by day
+  order by day;
+$$;
+
+revoke execute on function public.analytics_poster_counts(timestamptz, timestamptz) from public, anon, authenticated;
+revoke execute on function public.analytics_totals(timestamptz, timestamptz) from public, anon, authenticated;
+revoke execute on function public.analytics_category_stats(timestamptz, timestamptz) from public, anon, authenticated;
+revoke execute on function public.analytics_top_posters(timestamptz, timestamptz, integer) from public, anon, authenticated;
+revoke execute on function public.analytics_rarely_saved(timestamptz, timestamptz, integer, double precision, integer)
+  from public, anon, authenticated;
+revoke execute on function public.analytics_daily(timestamptz, timestamptz) from public, anon, authenticated;
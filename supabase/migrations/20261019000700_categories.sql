@@ -0,0 +1,31 @@
+-- Poster categories, managed from /admin/categories. posters.category keeps holding the
+-- category name; the foreign key renames it along with the category and stops a category
+-- in use from being deleted (deactivate it instead).
+create table if not exists public.categories (
+  id bigserial primary key,
+  name text not null unique,
+  slug text not null unique,
+  sort_order integer not null default 0,
+  icon text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+insert into public.categories (name, slug, sort_order, icon)
+values
+  ('Festival', 'festival', 10, '🪔'),
+  ('Birthday', 'birthday', 20, '🎂'),
+  ('Marriage', 'marriage', 30, '💍')
+on conflict (name) do nothing;
+
+alter table public.posters
+  drop constraint if exists posters_category_fkey,
+  add constraint posters_category_fkey
+    foreign key (category) references public.categories(name) on update cascade;
+
+alter table public.categories enable row level security;
+
+drop policy if exists "Active categories are readable by everyone" on public.categories;
+create policy "Active categories are readable by everyone"
+  on public.categories for select
+  using (is_active);
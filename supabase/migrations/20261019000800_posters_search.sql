@@ -0,0 +1,51 @@
+-- Tags, descriptions and full-text search for posters. Search weighs title and tags over the
+-- description and uses English stemming, so "lights" matches "Festival of Lights".
+alter table public.posters
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists description text,
+  add column if not exists search_vector tsvector;
+
+create or replace function public.posters_search_vector_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector :=
+    setweight(to_tsvector('english', coalesce(new.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(new.tags, ' ')), 'A') ||
+    setweight(to_tsvector('english', coalesce(new.category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(new.description, '')), 'C');
+  return new;
+end;
+$$;
+
+drop trigger if exists posters_search_vector_update on public.posters;
+create trigger posters_search_vector_update
+  before insert or update of title, tags, category, description on public.posters
+  for each row execute function public.posters_search_vector_update();
+
+-- Backfill existing rows through the trigger
+update public.posters set title = title;
+
+create index if not exists posters_search_vector_idx on public.posters using gin (search_vector);
+
+-- Posters matching every word of p_query, best match first. Each word also matches as a
+-- prefix, so results show up while the user is still typing ("diwa" finds "diwali").
+create or replace function public.search_posters(p_query text, p_category text default null, p_limit integer default 50)
+returns setof public.posters
+language sql
+stable
+as $$
+  with query as (
+    select to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) as tsq
+    from regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') as word
+    where word <> ''
+  )
+  select p.*
+  from public.posters p, query
+  where query.tsq is not null
+    and p.search_vector @@ query.tsq
+    and (p_category is null or p.category = p_category)
+  order by ts_rank(p.search_vector, query.tsq) desc, p.created_at desc
+  limit least(greatest(p_limit, 1), 100);
+$$;
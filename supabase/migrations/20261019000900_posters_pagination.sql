@@ -0,0 +1,59 @@
+-- Keyset pagination for /api/posters. Every sort order ends in `id desc` so ties
+-- between pages are broken the same way on every request.
+update public.posters set download_count = 0 where download_count is null;
+alter table public.posters
+  alter column download_count set default 0,
+  alter column download_count set not null;
+
+create index if not exists posters_latest_idx on public.posters (created_at desc, id desc);
+create index if not exists posters_popular_idx on public.posters (download_count desc, id desc);
+create index if not exists posters_category_latest_idx on public.posters (category, created_at desc, id desc);
+
+-- Search now returns every match with its rank, and /api/posters filters, orders and
+-- pages the result like any other query.
+drop function if exists public.search_posters(text, text, integer);
+
+create or replace function public.search_posters(p_query text)
+returns table (
+  id bigint,
+  title text,
+  category text,
+  download_url text,
+  psd_url text,
+  font_family text,
+  is_editable boolean,
+  created_at timestamptz,
+  download_count integer,
+  psd_metadata jsonb,
+  template jsonb,
+  tags text[],
+  description text,
+  rank real
+)
+language sql
+stable
+as $$
+  with query as (
+    select to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) as tsq
+    from regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') as word
+    where word <> ''
+  )
+  select
+    p.id::bigint,
+    p.title,
+    p.category,
+    p.download_url,
+    p.psd_url,
+    p.font_family,
+    p.is_editable,
+    p.created_at::timestamptz,
+    p.download_count::integer,
+    p.psd_metadata,
+    p.template,
+    p.tags,
+    p.description,
+    ts_rank(p.search_vector, query.tsq)
+  from public.posters p, query
+  where query.tsq is not null
+    and p.search_vector @@ query.tsq;
+$$;
@@ -0,0 +1,14 @@
+-- Every storage object a poster owns in the `posters` bucket, written at upload time so
+-- deleting a poster removes exactly those objects instead of guessing from its URLs.
+alter table public.posters add column if not exists storage_paths text[] not null default '{}';
+
+-- Existing posters: recover the paths from their public URLs
+update public.posters
+set storage_paths = array_remove(
+  array[
+    substring(psd_url from '/storage/v1/object/public/posters/(.+)$'),
+    substring(download_url from '/storage/v1/object/public/posters/(.+)$')
+  ],
+  null
+)
+where storage_paths = '{}';
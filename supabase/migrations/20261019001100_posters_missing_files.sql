@@ -0,0 +1,3 @@
+-- Set by the storage reconciliation (/api/reconcile) to the files a poster references
+-- but that are no longer in the `posters` bucket; empty when the poster is intact.
+alter table public.posters add column if not exists missing_files text[] not null default '{}';
@@ -0,0 +1,54 @@
+-- WebP/JPEG renditions of each poster image, keyed by variant name (see src/lib/variants.ts):
+-- { "card": { "width", "height", "webp", "jpeg" }, "medium": ..., "full": ... }.
+-- Null for posters uploaded before variants existed.
+alter table public.posters add column if not exists image_variants jsonb;
+
+-- The gallery reads variants from search results too; a changed return type needs a drop
+drop function if exists public.search_posters(text);
+
+create or replace function public.search_posters(p_query text)
+returns table (
+  id bigint,
+  title text,
+  category text,
+  download_url text,
+  psd_url text,
+  font_family text,
+  is_editable boolean,
+  created_at timestamptz,
+  download_count integer,
+  psd_metadata jsonb,
+  template jsonb,
+  tags text[],
+  description text,
+  image_variants jsonb,
+  rank real
+)
+language sql
+stable
+as $$
+  with query as (
+    select to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) as tsq
+    from regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') as word
+    where word <> ''
+  )
+  select
+    p.id::bigint,
+    p.title,
+    p.category,
+    p.download_url,
+    p.psd_url,
+    p.font_family,
+    p.is_editable,
+    p.created_at::timestamptz,
+    p.download_count::integer,
+    p.psd_metadata,
+    p.template,
+    p.tags,
+    p.description,
+    p.image_variants,
+    ts_rank(p.search_vector, query.tsq)
+  from public.posters p, query
+  where query.tsq is not null
+    and p.search_vector @@ query.tsq;
+$$;
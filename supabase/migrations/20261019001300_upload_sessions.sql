@@ -0,0 +1,39 @@
+-- Chunked, resumable uploads of poster files (/api/uploads). Chunks are stored as
+-- <session id>/<index> in the private `uploads` bucket until /api/upload assembles them.
+
+-- Not public and without policies, so only the service role can read or write chunks
+insert into storage.buckets (id, name, public)
+values ('uploads', 'uploads', false)
+on conflict (id) do update set public = false;
+
+create table if not exists public.upload_sessions (
+  id uuid primary key default gen_random_uuid(),
+  file_name text not null,
+  content_type text not null,
+  size bigint not null check (size > 0),
+  chunk_size integer not null check (chunk_size > 0),
+  chunk_count integer not null check (chunk_count > 0),
+  -- Indexes of the chunks stored so far
+  received integer[] not null default '{}',
+  created_by uuid not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists upload_sessions_created_at_idx on public.upload_sessions (created_at);
+
+-- Only reached through /api/uploads with the service role
+alter table public.upload_sessions enable row level security;
+
+-- Records a stored chunk in one statement, so chunks sent in parallel can't drop each other.
+-- Returns the received indexes, or null for an unknown session.
+create or replace function public.mark_chunk_received(p_session_id uuid, p_index integer)
+returns integer[]
+language sql
+as $$
+  update public.upload_sessions
+  set received = array(select distinct unnest(received || p_index) order by 1)
+  where id = p_session_id
+  returning received;
+$$;
+
+revoke execute on function public.mark_chunk_received(uuid, integer) from public, anon, authenticated;
@@ -0,0 +1,5 @@
+-- The Google Drive file a poster was imported from (/api/drive), so the same file
+-- isn't imported twice. Null for posters uploaded directly.
+alter table public.posters add column if not exists drive_file_id text;
+
+create unique index if not exists posters_drive_file_id_key on public.posters (drive_file_id);
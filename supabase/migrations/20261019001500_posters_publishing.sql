@@ -0,0 +1,86 @@
+-- Scheduled publishing (see src/lib/publishing.ts). WishMe shows a poster only while it is
+-- `published` and inside its window: from publish_at until unpublish_at, either bound
+-- optional. Existing posters stay published with no window.
+alter table public.posters
+  add column if not exists status text not null default 'published',
+  add column if not exists publish_at timestamptz,
+  add column if not exists unpublish_at timestamptz;
+
+alter table public.posters
+  drop constraint if exists posters_status_check,
+  add constraint posters_status_check check (status in ('draft', 'published', 'archived')),
+  drop constraint if exists posters_publish_window_check,
+  add constraint posters_publish_window_check check (unpublish_at is null or publish_at is null or unpublish_at > publish_at);
+
+-- Anonymous reads now see only what WishMe shows; the admin dashboard sees everything,
+-- which keeps its realtime feed complete.
+drop policy if exists "Posters are readable by everyone" on public.posters;
+create policy "Posters are readable by everyone"
+  on public.posters for select
+  using (
+    status = 'published'
+    and (publish_at is null or publish_at <= now())
+    and (unpublish_at is null or unpublish_at > now())
+  );
+
+drop policy if exists "Admins can read every poster" on public.posters;
+create policy "Admins can read every poster"
+  on public.posters for select
+  to authenticated
+  using ((auth.jwt() -> 'app_metadata' ->> 'role') in ('admin', 'editor', 'viewer'));
+
+-- /api/posters applies the window to search results too, so they carry the schedule
+drop function if exists public.search_posters(text);
+
+create or replace function public.search_posters(p_query text)
+returns table (
+  id bigint,
+  title text,
+  category text,
+  download_url text,
+  psd_url text,
+  font_family text,
+  is_editable boolean,
+  created_at timestamptz,
+  download_count integer,
+  psd_metadata jsonb,
+  template jsonb,
+  tags text[],
+  description text,
+  image_variants jsonb,
+  status text,
+  publish_at timestamptz,
+  unpublish_at timestamptz,
+  rank real
+)
+language sql
+stable
+as $$
+  with query as (
+    select to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) as tsq
+    from regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') as word
+    where word <> ''
+  )
+  select
+    p.id::bigint,
+    p.title,
+    p.category,
+    p.download_url,
+    p.psd_url,
+    p.font_family,
+    p.is_editable,
+    p.created_at::timestamptz,
+    p.download_count::integer,
+    p.psd_metadata,
+    p.template,
+    p.tags,
+    p.description,
+    p.image_variants,
+    p.status,
+    p.publish_at,
+    p.unpublish_at,
+    ts_rank(p.search_vector, query.tsq)
+  from public.posters p, query
+  where query.tsq is not null
+    and p.search_vector @@ query.tsq;
+$$;
@@ -0,0 +1,95 @@
+-- Festivals and occasions, managed from /admin/occasions. WishMe's "Upcoming" banner shows
+-- the posters linked to the next few. Festivals on the lunar calendar move every year, so
+-- admins update their dates once a year; fixed-date occasions set recurs_yearly instead.
+create table if not exists public.occasions (
+  id bigserial primary key,
+  name text not null,
+  slug text not null unique,
+  icon text,
+  starts_on date not null,
+  ends_on date,
+  recurs_yearly boolean not null default false,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint occasions_dates_check check (ends_on is null or ends_on >= starts_on)
+);
+
+create index if not exists occasions_starts_on_idx on public.occasions (starts_on) where is_active;
+
+insert into public.occasions (name, slug, icon, starts_on, ends_on, recurs_yearly)
+values
+  ('Diwali', 'diwali', '🪔', '2026-11-08', null, false),
+  ('Christmas', 'christmas', '🎄', '2026-12-25', null, true),
+  ('New Year', 'new-year', '🎆', '2027-01-01', null, true)
+on conflict (slug) do nothing;
+
+-- Deleting an occasion unlinks its posters rather than deleting them
+alter table public.posters
+  add column if not exists occasion_id bigint references public.occasions(id) on delete set null;
+
+create index if not exists posters_occasion_idx on public.posters (occasion_id);
+
+alter table public.occasions enable row level security;
+
+drop policy if exists "Active occasions are readable by everyone" on public.occasions;
+create policy "Active occasions are readable by everyone"
+  on public.occasions for select
+  using (is_active);
+
+-- The admin grid reads occasion_id from search results too
+drop function if exists public.search_posters(text);
+
+create or replace function public.search_posters(p_query text)
+returns table (
+  id bigint,
+  title text,
+  category text,
+  download_url text,
+  psd_url text,
+  font_family text,
+  is_editable boolean,
+  created_at timestamptz,
+  download_count integer,
+  psd_metadata jsonb,
+  template jsonb,
+  tags text[],
+  description text,
+  image_variants jsonb,
+  status text,
+  publish_at timestamptz,
+  unpublish_at timestamptz,
+  occasion_id bigint,
+  rank real
+)
+language sql
+stable
+as $$
+  with query as (
+    select to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) as tsq
+    from regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') as word
+    where word <> ''
+  )
+  select
+    p.id::bigint,
+    p.title,
+    p.category,
+    p.download_url,
+    p.psd_url,
+    p.font_family,
+    p.is_editable,
+    p.created_at::timestamptz,
+    p.download_count::integer,
+    p.psd_metadata,
+    p.template,
+    p.tags,
+    p.description,
+    p.image_variants,
+    p.status,
+    p.publish_at,
+    p.unpublish_at,
+    p.occasion_id,
+    ts_rank(p.search_vector, query.tsq)
+  from public.posters p, query
+  where query.tsq is not null
+    and p.search_vector @@ query.tsq;
+$$;
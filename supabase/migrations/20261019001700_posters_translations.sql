@@ -0,0 +1,115 @@
+-- Poster titles and descriptions in WishMe's other languages, edited from the admin dashboard:
+-- { "hi": { "title": "...", "description": "..." }, "ta": { ... } }. The title and description
+-- columns stay English, which is also what WishMe shows where a translation is missing.
+alter table public.posters
+  add column if not exists translations jsonb not null default '{}',
+  add column if not exists translated_text text;
+
+-- Translations go into search_vector with the 'simple' configuration, as English stemming
+-- means nothing for Hindi, Tamil or Marathi. Word splitting is unreliable for those scripts
+-- too (vowel signs aren't letters to every locale), so translated_text keeps the plain text
+-- for a substring match as well.
+create or replace function public.posters_search_vector_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  translated_titles text;
+  translated_descriptions text;
+begin
+  select string_agg(value ->> 'title', ' '), string_agg(value ->> 'description', ' ')
+  into translated_titles, translated_descriptions
+  from jsonb_each(coalesce(new.translations, '{}'::jsonb));
+
+  new.translated_text := nullif(concat_ws(' ', translated_titles, translated_descriptions), '');
+  new.search_vector :=
+    setweight(to_tsvector('english', coalesce(new.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(new.tags, ' ')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(translated_titles, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(new.category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(new.description, '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce(translated_descriptions, '')), 'C');
+  return new;
+end;
+$$;
+
+drop trigger if exists posters_search_vector_update on public.posters;
+create trigger posters_search_vector_update
+  before insert or update of title, tags, category, description, translations on public.posters
+  for each row execute function public.posters_search_vector_update();
+
+-- Backfill existing rows through the trigger
+update public.posters set title = title;
+
+create extension if not exists pg_trgm;
+
+create index if not exists posters_translated_text_idx
+  on public.posters using gin (translated_text gin_trgm_ops);
+
+-- Also matches p_query anywhere in a translation, ranked above description-only matches,
+-- and returns translations so WishMe can show localized titles in search results
+drop function if exists public.search_posters(text);
+
+create or replace function public.search_posters(p_query text)
+returns table (
+  id bigint,
+  title text,
+  category text,
+  download_url text,
+  psd_url text,
+  font_family text,
+  is_editable boolean,
+  created_at timestamptz,
+  download_count integer,
+  psd_metadata jsonb,
+  template jsonb,
+  tags text[],
+  description text,
+  image_variants jsonb,
+  status text,
+  publish_at timestamptz,
+  unpublish_at timestamptz,
+  occasion_id bigint,
+  translations jsonb,
+  rank real
+)
+language sql
+stable
+as $$
+  with query as (
+    select
+      (
+        select to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+        from regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') as word
+        where word <> ''
+      ) as tsq,
+      '%' || replace(replace(replace(nullif(btrim(p_query), ''), '\', '\\'), '%', '\%'), '_', '\_') || '%' as pattern
+  )
+  select
+    p.id::bigint,
+    p.title,
+    p.category,
+    p.download_url,
+    p.psd_url,
+    p.font_family,
+    p.is_editable,
+    p.created_at::timestamptz,
+    p.download_count::integer,
+    p.psd_metadata,
+    p.template,
+    p.tags,
+    p.description,
+    p.image_variants,
+    p.status,
+    p.publish_at,
+    p.unpublish_at,
+    p.occasion_id,
+    p.translations,
+    (
+      coalesce(ts_rank(p.search_vector, query.tsq), 0) +
+      case when p.translated_text ilike query.pattern then 0.5 else 0 end
+    )::real
+  from public.posters p, query
+  where (query.tsq is not null and p.search_vector @@ query.tsq)
+    or p.translated_text ilike query.pattern;
+$$;
@@ -0,0 +1,22 @@
+-- Font files uploaded from /admin/fonts, stored under fonts/ in the posters bucket. The name is
+-- both the display name and the CSS family, and is what posters.font_family and text layers
+-- refer to, so it can't be changed after upload. scripts lists the writing systems the font
+-- covers, for picking a font that can actually show Hindi or Tamil text.
+create table if not exists public.fonts (
+  id bigserial primary key,
+  name text not null unique,
+  scripts text[] not null default '{latin}',
+  format text not null,
+  file_path text not null,
+  file_url text not null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint fonts_format_check check (format in ('truetype', 'opentype', 'woff2'))
+);
+
+alter table public.fonts enable row level security;
+
+drop policy if exists "Active fonts are readable by everyone" on public.fonts;
+create policy "Active fonts are readable by everyone"
+  on public.fonts for select
+  using (is_active);
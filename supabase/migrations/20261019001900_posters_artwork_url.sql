@@ -0,0 +1,4 @@
+-- The full-size image /api/render exports customizations on. For a PSD uploaded with a
+-- manual thumbnail, download_url is that thumbnail, so the flattened composite is stored
+-- separately and recorded here. Posters stored before this fall back to download_url.
+alter table public.posters add column if not exists artwork_url text;